@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import {
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  Network,
+  Star,
+  StarOff,
+  Tag,
+  Trash2,
+  X,
+} from "lucide-react";
+import { BulkEdit } from "src/lib/bulk-edit";
+import { AlignMode } from "src/lib/utils";
+import { TaskStatus } from "src/types/task";
+
+const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
+  { value: "todo", label: "To do" },
+  { value: "in_progress", label: "In progress" },
+  { value: "done", label: "Done" },
+  { value: "canceled", label: "Canceled" },
+];
+
+const PRIORITY_OPTIONS = [
+  { value: "🔺", label: "🔺 Highest" },
+  { value: "⏫", label: "⏫ High" },
+  { value: "🔼", label: "🔼 Medium" },
+  { value: "", label: "Normal" },
+  { value: "🔽", label: "🔽 Low" },
+  { value: "⏬", label: "⏬ Lowest" },
+];
+
+const ALIGN_OPTIONS: { value: AlignMode; label: string }[] = [
+  { value: "left", label: "Left" },
+  { value: "center", label: "Center" },
+  { value: "right", label: "Right" },
+  { value: "top", label: "Top" },
+  { value: "middle", label: "Middle" },
+  { value: "bottom", label: "Bottom" },
+];
+
+interface BulkActionBarProps {
+  count: number;
+  allTags: string[];
+  onEdit: (edit: BulkEdit) => void; // eslint-disable-line no-unused-vars
+  onAlign: (mode: AlignMode) => void; // eslint-disable-line no-unused-vars
+  onDistribute: (axis: "horizontal" | "vertical") => void; // eslint-disable-line no-unused-vars
+  onLayout: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Actions on the selected task nodes, shown at the bottom of the canvas
+ * while more than one task is selected
+ */
+export default function BulkActionBar({
+  count,
+  allTags,
+  onEdit,
+  onAlign,
+  onDistribute,
+  onLayout,
+  onDelete,
+  onClear,
+}: BulkActionBarProps) {
+  const [tag, setTag] = useState("");
+  const cleanTag = tag.trim().replace(/^#+/, "");
+  const validTag = cleanTag !== "" && !/\s/.test(cleanTag);
+
+  const editTag = (type: "add-tag" | "remove-tag") => {
+    if (!validTag) return;
+    onEdit({ type, tag: cleanTag });
+    setTag("");
+  };
+
+  return (
+    <div className="tasks-map-bulk-action-bar nodrag nopan nowheel">
+      <span className="tasks-map-bulk-action-count">{count} selected</span>
+      <select
+        className="dropdown"
+        value=""
+        onChange={(e) =>
+          onEdit({ type: "status", status: e.target.value as TaskStatus })
+        }
+        title="Set status"
+      >
+        <option value="" disabled>
+          Status
+        </option>
+        {STATUS_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <select
+        className="dropdown"
+        value="none"
+        onChange={(e) => onEdit({ type: "priority", priority: e.target.value })}
+        title="Set priority"
+      >
+        <option value="none" disabled>
+          Priority
+        </option>
+        {PRIORITY_OPTIONS.map((option) => (
+          <option key={option.label} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        className="tasks-map-bulk-action-tag"
+        placeholder="#tag"
+        list="tasks-map-bulk-action-tags"
+        value={tag}
+        onChange={(e) => setTag(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") editTag("add-tag");
+        }}
+      />
+      <datalist id="tasks-map-bulk-action-tags">
+        {allTags.map((option) => (
+          <option key={option} value={option} />
+        ))}
+      </datalist>
+      <button
+        className="tasks-map-toolbar-button"
+        onClick={() => editTag("add-tag")}
+        disabled={!validTag}
+        title="Add tag"
+      >
+        <Tag size={16} />+
+      </button>
+      <button
+        className="tasks-map-toolbar-button"
+        onClick={() => editTag("remove-tag")}
+        disabled={!validTag}
+        title="Remove tag"
+      >
+        <Tag size={16} />−
+      </button>
+      <button
+        className="tasks-map-toolbar-button"
+        onClick={() => onEdit({ type: "star", starred: true })}
+        title="Star"
+      >
+        <Star size={16} />
+      </button>
+      <button
+        className="tasks-map-toolbar-button"
+        onClick={() => onEdit({ type: "star", starred: false })}
+        title="Unstar"
+      >
+        <StarOff size={16} />
+      </button>
+      <span className="tasks-map-bulk-action-separator" />
+      <select
+        className="dropdown"
+        value=""
+        onChange={(e) => onAlign(e.target.value as AlignMode)}
+        title="Align"
+      >
+        <option value="" disabled>
+          Align
+        </option>
+        {ALIGN_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        className="tasks-map-toolbar-button"
+        onClick={() => onDistribute("horizontal")}
+        disabled={count < 3}
+        title="Distribute horizontally"
+      >
+        <AlignHorizontalDistributeCenter size={16} />
+      </button>
+      <button
+        className="tasks-map-toolbar-button"
+        onClick={() => onDistribute("vertical")}
+        disabled={count < 3}
+        title="Distribute vertically"
+      >
+        <AlignVerticalDistributeCenter size={16} />
+      </button>
+      <button
+        className="tasks-map-toolbar-button"
+        onClick={onLayout}
+        title="Auto-layout selection"
+      >
+        <Network size={16} />
+      </button>
+      <span className="tasks-map-bulk-action-separator" />
+      <button
+        className="tasks-map-toolbar-button mod-warning"
+        onClick={onDelete}
+        title="Remove from canvas"
+      >
+        <Trash2 size={16} />
+      </button>
+      <button
+        className="tasks-map-toolbar-button"
+        onClick={onClear}
+        title="Clear selection"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import { X } from "lucide-react";
+import { Task } from "src/types/task";
+import {
+  CriticalPathResult,
+  formatEstimate,
+  getTaskWeight,
+} from "../lib/critical-path";
+
+interface CriticalPathPanelProps {
+  result: CriticalPathResult;
+  tasks: Map<string, Task>;
+  onSelect: (taskId: string) => void; // eslint-disable-line no-unused-vars
+  onClose: () => void;
+}
+
+export function CriticalPathPanel({
+  result,
+  tasks,
+  onSelect,
+  onClose,
+}: CriticalPathPanelProps) {
+  const target = tasks.get(result.targetId);
+  const rows = Array.from(result.earliestStart.entries())
+    .sort(([a, startA], [b, startB]) => startA - startB || a.localeCompare(b))
+    .map(([id, start]) => ({
+      id,
+      start,
+      task: tasks.get(id),
+      slack: result.slack.get(id) ?? 0,
+    }));
+
+  return (
+    <div className="tasks-map-critical-path-panel">
+      <div className="tasks-map-critical-path-header">
+        <span>
+          Critical path to <b>{target?.summary || result.targetId}</b>:{" "}
+          {formatEstimate(result.duration)}
+        </span>
+        <button
+          className="tasks-map-critical-path-close"
+          onClick={onClose}
+          aria-label="Close critical path"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <table className="tasks-map-critical-path-table">
+        <thead>
+          <tr>
+            <th>Task</th>
+            <th>Estimate</th>
+            <th>Start</th>
+            <th>Slack</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ id, start, task, slack }) => (
+            <tr
+              key={id}
+              className={
+                result.criticalNodes.has(id)
+                  ? "tasks-map-critical-path-row--critical"
+                  : undefined
+              }
+              onClick={() => onSelect(id)}
+            >
+              <td>{task?.summary || id}</td>
+              <td>{task ? formatEstimate(getTaskWeight(task)) : "-"}</td>
+              <td>+{formatEstimate(start)}</td>
+              <td>{formatEstimate(slack)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  FilterCompletion,
+  getFilterCompletions,
+  parseFilterQuery,
+} from "../lib/filter-query";
+
+interface FilterQueryInputProps {
+  query: string;
+  onQueryChange: (query: string) => void; // eslint-disable-line no-unused-vars
+  sources: { tags: string[]; paths: string[]; projects: string[] };
+}
+
+// Typing pauses before the query is applied
+const APPLY_DELAY = 300;
+
+/**
+ * Text input for filter queries, with completions for fields, tags, paths
+ * and projects and the errors of the query below it
+ */
+export function FilterQueryInput({
+  query,
+  onQueryChange,
+  sources,
+}: FilterQueryInputProps) {
+  const [text, setText] = useState(query);
+  const [cursor, setCursor] = useState(query.length);
+  const [focused, setFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const applyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const appliedRef = useRef(query);
+
+  // Follow changes from elsewhere (e.g. the sidebar or a preset)
+  useEffect(() => {
+    if (query === appliedRef.current) return;
+    appliedRef.current = query;
+    if (applyTimeoutRef.current) clearTimeout(applyTimeoutRef.current);
+    setText(query);
+  }, [query]);
+
+  useEffect(
+    () => () => {
+      if (applyTimeoutRef.current) clearTimeout(applyTimeoutRef.current);
+    },
+    []
+  );
+
+  const { errors } = useMemo(() => parseFilterQuery(text), [text]);
+  const completion: FilterCompletion | null = useMemo(
+    () =>
+      focused && !dismissed
+        ? getFilterCompletions(text, cursor, sources)
+        : null,
+    [focused, dismissed, text, cursor, sources]
+  );
+
+  const apply = (value: string, delay = APPLY_DELAY) => {
+    if (applyTimeoutRef.current) clearTimeout(applyTimeoutRef.current);
+    applyTimeoutRef.current = setTimeout(() => {
+      appliedRef.current = value;
+      onQueryChange(value);
+    }, delay);
+  };
+
+  const update = (value: string, newCursor: number) => {
+    setText(value);
+    setCursor(newCursor);
+    setActiveIndex(0);
+    setDismissed(false);
+    apply(value);
+  };
+
+  const accept = (value: string) => {
+    if (!completion) return;
+    const before = text.slice(0, completion.from) + value;
+    // Continue with the next term unless a value or subfolder may follow
+    const separator =
+      /[:/]$/.test(value) || /^\s/.test(text.slice(completion.to)) ? "" : " ";
+    const newText = before + separator + text.slice(completion.to);
+    const newCursor = before.length + separator.length;
+    update(newText, newCursor);
+    setTimeout(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(newCursor, newCursor);
+    }, 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const options = completion?.options ?? [];
+    if (options.length > 0 && e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % options.length);
+    } else if (options.length > 0 && e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + options.length) % options.length);
+    } else if (options.length > 0 && (e.key === "Enter" || e.key === "Tab")) {
+      e.preventDefault();
+      accept(options[Math.min(activeIndex, options.length - 1)].value);
+    } else if (e.key === "Enter") {
+      apply(text, 0);
+    } else if (e.key === "Escape") {
+      if (options.length > 0) {
+        e.preventDefault();
+        setDismissed(true);
+      } else if (text) {
+        update("", 0);
+      }
+    }
+  };
+
+  const updateCursor = (e: React.SyntheticEvent<HTMLInputElement>) =>
+    setCursor(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+
+  return (
+    <div className="tasks-map-filter-query nodrag nopan nowheel">
+      <input
+        ref={inputRef}
+        type="search"
+        className={`tasks-map-filter-query-input ${errors.length > 0 ? "has-error" : ""}`}
+        placeholder="Filter: tag:#work status:todo due<7d -starred"
+        value={text}
+        spellCheck={false}
+        onChange={(e) =>
+          update(
+            e.target.value,
+            e.target.selectionStart ?? e.target.value.length
+          )
+        }
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onClick={updateCursor}
+        onFocus={() => setFocused(true)}
+        // Let clicks on suggestions land first
+        onBlur={() => setTimeout(() => setFocused(false), 150)}
+      />
+      {completion && (
+        <ul className="tasks-map-filter-query-suggestions">
+          {completion.options.map((option, i) => (
+            <li
+              key={option.value}
+              className={`tasks-map-filter-query-suggestion ${i === activeIndex ? "is-selected" : ""}`}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(option.value);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+            >
+              <span>{option.value}</span>
+              {option.description && (
+                <span className="tasks-map-filter-query-suggestion-description">
+                  {option.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {errors.length > 0 && (
+        <div className="tasks-map-filter-query-errors">
+          {errors.map((error) => error.message).join(" · ")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,40 +1,264 @@
+import React, { useState } from "react";
+import {
+  ArrowRightLeft,
+  ArrowUpDown,
+  FolderOpen,
+  Maximize,
+  Network,
+  Plus,
+  RefreshCw,
+  Save,
+  SlidersHorizontal,
+  Trash2,
+  X,
+} from "lucide-react";
 import MultiSelect from "./multi-select";
-import TagSelect from "./tag-select";
+import TagSelect, { NO_TAGS_VALUE } from "./tag-select";
+import { FilterQueryInput } from "./filter-query-input";
+import { FilterPreset } from "src/types/settings";
 import { TaskStatus } from "src/types/task";
+import { getFilterTermValues, setFilterTermValues } from "src/lib/filter-query";
+
+const ALL_STATUSES: TaskStatus[] = ["todo", "in_progress", "done", "canceled"];
 
 interface GuiOverlayProps {
+  open: boolean;
+  onToggle: () => void;
+  // Filters
   allTags: string[];
-  selectedTags: string[];
-  setSelectedTags: (tags: string[]) => void; // eslint-disable-line no-unused-vars
+  filterQuery: string;
+  onFilterQueryChange: (query: string) => void; // eslint-disable-line no-unused-vars
+  completionSources: { tags: string[]; paths: string[]; projects: string[] };
+  filterPresets: FilterPreset[];
+  activePreset?: string;
+  onPresetSelect: (name: string | undefined) => void; // eslint-disable-line no-unused-vars
+  onPresetSave: () => void;
+  onPresetDelete: (name: string) => void; // eslint-disable-line no-unused-vars
+  // Layout and navigation
+  layoutDirection: "Horizontal" | "Vertical";
+  onToggleDirection: () => void;
+  hasSelection: boolean;
+  onRelayout: () => void;
+  onFitView: () => void;
+  onNewTask: () => void;
+  searchMatches: number;
+  searchIndex: number; // Match jumped to, -1 before the first jump
+  onSearch: (text: string) => void; // eslint-disable-line no-unused-vars
+  onSearchStep: (step: 1 | -1) => void; // eslint-disable-line no-unused-vars
   reloadTasks: () => void;
   loadSavedData: () => void;
-  allStatuses: TaskStatus[];
-  selectedStatuses: TaskStatus[];
-  setSelectedStatuses: (statuses: TaskStatus[]) => void; // eslint-disable-line no-unused-vars
 }
 
+/**
+ * Collapsible toolbar in the top left corner of the canvas. The tag and
+ * status selects edit the `tag:` and `status:` terms of the filter query.
+ */
 export default function GuiOverlay(props: GuiOverlayProps) {
   const {
+    open,
+    onToggle,
     allTags,
-    selectedTags,
-    setSelectedTags,
+    filterQuery,
+    onFilterQueryChange,
+    completionSources,
+    filterPresets,
+    activePreset,
+    onPresetSelect,
+    onPresetSave,
+    onPresetDelete,
+    layoutDirection,
+    onToggleDirection,
+    hasSelection,
+    onRelayout,
+    onFitView,
+    onNewTask,
+    searchMatches,
+    searchIndex,
+    onSearch,
+    onSearchStep,
     reloadTasks,
     loadSavedData,
-    allStatuses,
-    selectedStatuses,
-    setSelectedStatuses,
   } = props;
+  const [search, setSearch] = useState("");
+
+  if (!open) {
+    return (
+      <div className="tasks-map-gui-overlay is-collapsed nodrag nopan">
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={onToggle}
+          title="Show toolbar"
+          aria-label="Show toolbar"
+        >
+          <SlidersHorizontal size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  const selectedTags = getFilterTermValues(filterQuery, "tag").map((value) =>
+    value === "none"
+      ? NO_TAGS_VALUE
+      : (allTags.find((tag) => tag.toLowerCase() === value) ?? value)
+  );
+  const setSelectedTags = (tags: string[]) =>
+    onFilterQueryChange(
+      setFilterTermValues(
+        filterQuery,
+        "tag",
+        tags.map((tag) => (tag === NO_TAGS_VALUE ? "none" : `#${tag}`))
+      )
+    );
+  const selectedStatuses = getFilterTermValues(
+    filterQuery,
+    "status"
+  ) as TaskStatus[];
+  const setSelectedStatuses = (statuses: TaskStatus[]) =>
+    onFilterQueryChange(setFilterTermValues(filterQuery, "status", statuses));
 
-  // Hide filter UI and action buttons - auto-refresh handles updates now
-  // Keep the props to avoid breaking changes, but don't render
-  void allTags;
-  void selectedTags;
-  void setSelectedTags;
-  void reloadTasks;
-  void loadSavedData;
-  void allStatuses;
-  void selectedStatuses;
-  void setSelectedStatuses;
+  // Enter and the arrow keys cycle through the matches
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      onSearchStep(
+        e.key === "ArrowUp" || (e.key === "Enter" && e.shiftKey) ? -1 : 1
+      );
+    } else if (e.key === "Escape" && search) {
+      setSearch("");
+      onSearch("");
+    }
+  };
 
-  return null;
+  return (
+    <div className="tasks-map-gui-overlay nodrag nopan nowheel">
+      <div className="tasks-map-toolbar-row">
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={onToggle}
+          title="Hide toolbar"
+          aria-label="Hide toolbar"
+        >
+          <X size={16} />
+        </button>
+        <input
+          type="search"
+          className="tasks-map-toolbar-search"
+          placeholder="Search tasks..."
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            onSearch(e.target.value);
+          }}
+          onKeyDown={handleSearchKeyDown}
+        />
+        {search.trim() && (
+          <span className="tasks-map-toolbar-search-count">
+            {searchMatches === 0
+              ? "No matches"
+              : searchIndex === -1
+                ? `${searchMatches}`
+                : `${searchIndex + 1}/${searchMatches}`}
+          </span>
+        )}
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={onNewTask}
+          title="New task"
+        >
+          <Plus size={16} />
+        </button>
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={onRelayout}
+          title={
+            hasSelection ? "Re-layout selected tasks" : "Re-layout all tasks"
+          }
+        >
+          <Network size={16} />
+        </button>
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={onFitView}
+          title="Fit view"
+        >
+          <Maximize size={16} />
+        </button>
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={onToggleDirection}
+          title={`Layout direction: ${layoutDirection.toLowerCase()}`}
+        >
+          {layoutDirection === "Horizontal" ? (
+            <ArrowRightLeft size={16} />
+          ) : (
+            <ArrowUpDown size={16} />
+          )}
+        </button>
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={reloadTasks}
+          title="Reload tasks"
+        >
+          <RefreshCw size={16} />
+        </button>
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={loadSavedData}
+          title="Load saved layout"
+        >
+          <FolderOpen size={16} />
+        </button>
+      </div>
+      <div className="tasks-map-toolbar-row">
+        <select
+          className="dropdown tasks-map-filter-preset-select"
+          value={activePreset ?? ""}
+          onChange={(e) => onPresetSelect(e.target.value || undefined)}
+          title="Filter presets"
+        >
+          <option value="">
+            {filterQuery ? "Custom filter" : "All tasks"}
+          </option>
+          {filterPresets.map((preset) => (
+            <option key={preset.name} value={preset.name}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <button
+          className="tasks-map-toolbar-button"
+          onClick={onPresetSave}
+          disabled={!filterQuery}
+          title="Save filter as preset"
+        >
+          <Save size={16} />
+        </button>
+        {activePreset && (
+          <button
+            className="tasks-map-toolbar-button"
+            onClick={() => onPresetDelete(activePreset)}
+            title={`Delete preset "${activePreset}"`}
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+      <FilterQueryInput
+        query={filterQuery}
+        onQueryChange={onFilterQueryChange}
+        sources={completionSources}
+      />
+      <TagSelect
+        allTags={allTags}
+        selectedTags={selectedTags}
+        setSelectedTags={setSelectedTags}
+      />
+      <MultiSelect
+        options={ALL_STATUSES}
+        selected={selectedStatuses}
+        setSelected={setSelectedStatuses}
+        placeholder="Filter by status..."
+      />
+    </div>
+  );
 }
@@ -24,6 +24,18 @@ export default function HashEdge({
     targetPosition,
   });
 
+  // Edges that exist only on the canvas or only in the task files
+  const syncClass = data?.sync ? ` tasks-map-hash-edge-${data.sync}` : "";
+  const criticalClass = data?.critical ? " tasks-map-hash-edge-critical" : "";
+  const cycleClass = data?.cycle ? " tasks-map-hash-edge-cycle" : "";
+  const title = data?.cycle
+    ? "Part of a dependency cycle"
+    : data?.sync === "canvas-only"
+      ? "Only on the canvas, not written to the task files"
+      : data?.sync === "markdown-only"
+        ? "Only in the task files, not saved on the canvas"
+        : undefined;
+
   return (
     <g>
       {/* Invisible thick path for easier selection */}
@@ -36,10 +48,12 @@ export default function HashEdge({
       />
       <path
         id={id}
-        className="react-flow__edge-path"
+        className={`react-flow__edge-path${syncClass}${criticalClass}${cycleClass}`}
         d={edgePath}
         markerEnd={markerEnd}
-      />
+      >
+        {title && <title>{title}</title>}
+      </path>
       {data?.debugVisualization && (
         <text
           x={labelX}
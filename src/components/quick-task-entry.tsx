@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useApp } from "src/hooks/hooks";
+import {
+  NewTaskInput,
+  NewTaskType,
+  parseTagInput,
+} from "src/lib/task-creation";
+
+const PRIORITY_OPTIONS = [
+  { value: "", label: "Normal priority" },
+  { value: "🔺", label: "🔺 Highest" },
+  { value: "⏫", label: "⏫ High" },
+  { value: "🔼", label: "🔼 Medium" },
+  { value: "🔽", label: "🔽 Low" },
+  { value: "⏬", label: "⏬ Lowest" },
+];
+
+// Keeps the form inside the window near its edges
+const EDGE_MARGIN = 8;
+
+interface QuickTaskEntryProps {
+  x: number; // Screen position of the form
+  y: number;
+  allTags: string[];
+  dependsOn?: string; // Summary of the task the new one depends on
+  defaultType: NewTaskType;
+  defaultTargets: Record<NewTaskType, string>; // Inbox note and note task folder
+  onSubmit: (input: NewTaskInput) => void; // eslint-disable-line no-unused-vars
+  onCancel: () => void;
+}
+
+/**
+ * Form for a new task on the canvas: summary, tags, priority and the note
+ * it is written to. Enter creates the task, Escape cancels.
+ */
+export function QuickTaskEntry({
+  x,
+  y,
+  allTags,
+  dependsOn,
+  defaultType,
+  defaultTargets,
+  onSubmit,
+  onCancel,
+}: QuickTaskEntryProps) {
+  const app = useApp();
+  const [summary, setSummary] = useState("");
+  const [tags, setTags] = useState("");
+  const [priority, setPriority] = useState("");
+  const [type, setType] = useState<NewTaskType>(defaultType);
+  const [targets, setTargets] = useState(defaultTargets);
+  const summaryRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    summaryRef.current?.focus();
+  }, []);
+
+  // Notes for task lines, folders for note tasks
+  const targetOptions = useMemo(
+    () =>
+      type === "line"
+        ? app.vault.getMarkdownFiles().map((file) => file.path)
+        : app.vault.getAllFolders(false).map((folder) => folder.path),
+    [app, type]
+  );
+
+  const submit = () => {
+    if (!summary.trim()) {
+      summaryRef.current?.focus();
+      return;
+    }
+    onSubmit({
+      summary: summary.trim(),
+      tags: parseTagInput(tags),
+      priority,
+      type,
+      target: targets[type].trim() || defaultTargets[type],
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      className="tasks-map-quick-entry"
+      ref={(el) => {
+        if (!el) return;
+        const left = Math.min(
+          x,
+          window.innerWidth - el.offsetWidth - EDGE_MARGIN
+        );
+        const top = Math.min(
+          y,
+          window.innerHeight - el.offsetHeight - EDGE_MARGIN
+        );
+        el.style.left = `${Math.max(EDGE_MARGIN, left)}px`;
+        el.style.top = `${Math.max(EDGE_MARGIN, top)}px`;
+      }}
+      onKeyDown={handleKeyDown}
+    >
+      {dependsOn && (
+        <div className="tasks-map-quick-entry-depends-on">
+          Depends on: {dependsOn}
+        </div>
+      )}
+      <input
+        ref={summaryRef}
+        type="text"
+        className="tasks-map-quick-entry-summary"
+        placeholder="New task"
+        value={summary}
+        onChange={(e) => setSummary(e.target.value)}
+      />
+      <div className="tasks-map-quick-entry-row">
+        <input
+          type="text"
+          placeholder="#tags"
+          list="tasks-map-quick-entry-tags"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+        <datalist id="tasks-map-quick-entry-tags">
+          {allTags.map((tag) => (
+            <option key={tag} value={`#${tag}`} />
+          ))}
+        </datalist>
+        <select
+          className="dropdown"
+          value={priority}
+          onChange={(e) => setPriority(e.target.value)}
+        >
+          {PRIORITY_OPTIONS.map((option) => (
+            <option key={option.label} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="tasks-map-quick-entry-row">
+        <select
+          className="dropdown"
+          value={type}
+          onChange={(e) => setType(e.target.value as NewTaskType)}
+        >
+          <option value="line">Task line in</option>
+          <option value="note">Note task in</option>
+        </select>
+        <input
+          type="text"
+          placeholder={type === "line" ? "Note" : "Folder"}
+          list="tasks-map-quick-entry-targets"
+          value={targets[type]}
+          onChange={(e) => setTargets({ ...targets, [type]: e.target.value })}
+        />
+        <datalist id="tasks-map-quick-entry-targets">
+          {targetOptions.map((path) => (
+            <option key={path} value={path} />
+          ))}
+        </datalist>
+      </div>
+      <div className="tasks-map-quick-entry-buttons">
+        <button onClick={onCancel}>Cancel</button>
+        <button className="mod-cta" onClick={submit}>
+          Create task
+        </button>
+      </div>
+    </div>
+  );
+}
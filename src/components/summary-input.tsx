@@ -0,0 +1,53 @@
+import React, { useEffect, useRef, useState } from "react";
+
+interface SummaryInputProps {
+  summary: string;
+  onSave: (summary: string) => void; // eslint-disable-line no-unused-vars
+  onCancel: () => void;
+}
+
+/**
+ * Inline editor for the summary of a task node. Enter or leaving the field
+ * saves, Escape cancels.
+ */
+export function SummaryInput({ summary, onSave, onCancel }: SummaryInputProps) {
+  const [value, setValue] = useState(summary);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const doneRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  // Save or cancel once, as Enter and Escape also blur the field
+  const finish = (save: boolean) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    if (save) onSave(value);
+    else onCancel();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      finish(true);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      finish(false);
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      className="tasks-map-task-node-summary-input nodrag"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => finish(true)}
+    />
+  );
+}
@@ -1,11 +1,14 @@
 import React from "react";
 import { TaskStatus } from "src/types/task";
+import { DueState } from "../lib/task-dates";
 
 interface TaskBackgroundProps {
   status: TaskStatus;
   starred?: boolean;
   expanded?: boolean;
   debugVisualization?: boolean;
+  dueState?: DueState;
+  critical?: boolean;
   children: React.ReactNode;
 }
 
@@ -14,6 +17,8 @@ export function TaskBackground({
   starred = false,
   expanded,
   debugVisualization,
+  dueState,
+  critical = false,
   children,
 }: TaskBackgroundProps) {
   const getStatusClass = () => {
@@ -35,6 +40,8 @@ export function TaskBackground({
     starred && "tasks-map-task-background--starred",
     expanded && "tasks-map-task-background--expanded",
     debugVisualization && "tasks-map-task-background--debug",
+    dueState && `tasks-map-task-background--${dueState}`,
+    critical && "tasks-map-task-background--critical",
   ]
     .filter(Boolean)
     .join(" ");
@@ -0,0 +1,51 @@
+import React from "react";
+import { Task } from "src/types/task";
+import { getDueState } from "../lib/task-dates";
+import { formatEstimate } from "../lib/critical-path";
+
+interface TaskDatesProps {
+  task: Task;
+}
+
+export function TaskDates({ task }: TaskDatesProps) {
+  const dueState = getDueState(task);
+  const dates = [
+    { icon: "🛫", title: "Start", date: task.startDate },
+    { icon: "⏳", title: "Scheduled", date: task.scheduledDate },
+    { icon: "📅", title: "Due", date: task.dueDate },
+    { icon: "✅", title: "Done", date: task.doneDate },
+    { icon: "❌", title: "Cancelled", date: task.cancelledDate },
+    { icon: "🔁", title: "Repeats", date: task.recurrence },
+    {
+      icon: "⏱",
+      title: "Estimate",
+      date: task.estimate !== undefined && formatEstimate(task.estimate),
+    },
+  ].filter((entry) => entry.date);
+
+  if (dates.length === 0) return null;
+
+  // The date that drives the due state gets the overdue/upcoming styling
+  const stateDate = task.dueDate ? "Due" : "Scheduled";
+
+  return (
+    <div className="tasks-map-task-dates">
+      {dates.map(({ icon, title, date }) => (
+        <span
+          key={title}
+          title={`${title}: ${date}`}
+          className={[
+            "tasks-map-task-date",
+            dueState &&
+              title === stateDate &&
+              `tasks-map-task-date--${dueState}`,
+          ]
+            .filter(Boolean)
+            .join(" ")}
+        >
+          {icon} {date}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -27,6 +27,12 @@ export function TaskDetails({ task, status }: TaskDetailsProps) {
       <div>
         <b>Link:</b> {task.link}
       </div>
+      <div>
+        <b>Due:</b> {task.dueDate || "-"}
+      </div>
+      <div>
+        <b>Scheduled:</b> {task.scheduledDate || "-"}
+      </div>
       <div>
         <b>Incoming links:</b> {task.incomingLinks?.join(", ") || "-"}
       </div>
@@ -1,7 +1,8 @@
 import React, { useState, useContext, useEffect } from "react";
 import { Handle, Position, NodeProps } from "reactflow";
 import { Plus } from "lucide-react";
-import { useApp } from "src/hooks/hooks";
+import { Notice } from "obsidian";
+import { useApp, useRecordedEdit } from "src/hooks/hooks";
 import { Task } from "src/types/task";
 import { TaskDetails } from "./task-details";
 import { ExpandButton } from "./expand-button";
@@ -11,7 +12,9 @@ import { Tag } from "./tag";
 import { TaskStatusToggle } from "./task-status";
 import { TaskBackground } from "./task-background";
 import { TaskPriority } from "./task-priority";
+import { TaskDates } from "./task-dates";
 import { TagInput } from "./tag-input";
+import { SummaryInput } from "./summary-input";
 import { useSummaryRenderer } from "../hooks/use-summary-renderer";
 import {
   removeTagFromTaskInVault,
@@ -19,7 +22,9 @@ import {
   addStarToTaskInVault,
   removeStarFromTaskInVault,
 } from "../lib/utils";
-import { TagsContext } from "../contexts/context";
+import { updateTaskSummaryInVault } from "../lib/task-summary";
+import { PluginContext, TagsContext } from "../contexts/context";
+import { getDueState } from "../lib/task-dates";
 
 export const NODEWIDTH = 250;
 export const NODEHEIGHT = 120;
@@ -33,9 +38,17 @@ interface TaskNodeData {
   tagColorMode?: "random" | "static";
   tagColorSeed?: number;
   tagStaticColor?: string;
+  critical?: boolean;
 }
 
-export default function TaskNode({ data }: NodeProps<TaskNodeData>) {
+// Gap between a completed recurring task and its next instance
+const NEXT_OCCURRENCE_GAP = 40;
+
+export default function TaskNode({
+  data,
+  xPos,
+  yPos,
+}: NodeProps<TaskNodeData>) {
   const {
     task,
     layoutDirection = "Horizontal",
@@ -45,6 +58,7 @@ export default function TaskNode({ data }: NodeProps<TaskNodeData>) {
     tagColorMode = "random",
     tagColorSeed = 42,
     tagStaticColor = "#3b82f6",
+    critical = false,
   } = data;
 
   const { allTags, updateTaskTags } = useContext(TagsContext);
@@ -54,8 +68,12 @@ export default function TaskNode({ data }: NodeProps<TaskNodeData>) {
   const [tags, setTags] = useState(task.tags || []);
   const [isAddingTag, setIsAddingTag] = useState(false);
   const [tagError, setTagError] = useState(false);
+  const [summary, setSummary] = useState(task.summary);
+  const [isEditingSummary, setIsEditingSummary] = useState(false);
   const app = useApp();
-  const summaryRef = useSummaryRenderer(task.summary);
+  const recordEdit = useRecordedEdit();
+  const plugin = useContext(PluginContext);
+  const summaryRef = useSummaryRenderer(summary);
 
   // Sync local state with task prop when it changes (e.g., after Update Nodes)
   useEffect(() => {
@@ -70,6 +88,10 @@ export default function TaskNode({ data }: NodeProps<TaskNodeData>) {
     setTags(task.tags || []);
   }, [task.tags]);
 
+  useEffect(() => {
+    setSummary(task.summary);
+  }, [task.summary]);
+
   const isVertical = layoutDirection === "Vertical";
   const targetPosition = isVertical ? Position.Top : Position.Left;
   const sourcePosition = isVertical ? Position.Bottom : Position.Right;
@@ -84,7 +106,9 @@ export default function TaskNode({ data }: NodeProps<TaskNodeData>) {
     });
 
     try {
-      await removeTagFromTaskInVault(task, tagToRemove, app);
+      await recordEdit("Remove tag", (app) =>
+        removeTagFromTaskInVault(task, tagToRemove, app)
+      );
     } catch {
       // Revert the visual change if the vault operation failed
       setTags((prevTags) => {
@@ -129,7 +153,9 @@ export default function TaskNode({ data }: NodeProps<TaskNodeData>) {
     });
 
     try {
-      await addTagToTaskInVault(task, cleanTag, app);
+      await recordEdit("Add tag", (app) =>
+        addTagToTaskInVault(task, cleanTag, app)
+      );
     } catch {
       // Revert the visual change if the vault operation failed
       setTags((prevTags) => {
@@ -154,23 +180,56 @@ export default function TaskNode({ data }: NodeProps<TaskNodeData>) {
     setStarred(newStarred);
 
     try {
-      if (newStarred) {
-        await addStarToTaskInVault(task, app);
-      } else {
-        await removeStarFromTaskInVault(task, app);
-      }
+      await recordEdit(newStarred ? "Star task" : "Unstar task", (app) =>
+        newStarred
+          ? addStarToTaskInVault(task, app)
+          : removeStarFromTaskInVault(task, app)
+      );
     } catch {
       // Revert the visual change if the vault operation failed
       setStarred(!newStarred);
     }
   };
 
+  const handleSummarySave = async (newSummary: string) => {
+    setIsEditingSummary(false);
+    const trimmed = newSummary.trim();
+    if (!trimmed || trimmed === summary) return;
+
+    // Immediately update the visual state
+    const previous = summary;
+    setSummary(trimmed);
+
+    try {
+      const saved = await recordEdit("Edit summary", (app) =>
+        updateTaskSummaryInVault({ ...task, summary: previous }, trimmed, app)
+      );
+      if (!saved) {
+        setSummary(previous);
+        new Notice("Cannot edit the summary: task not found in its file");
+      }
+    } catch {
+      // Revert the visual change if the vault operation failed
+      setSummary(previous);
+    }
+  };
+
+  // Place the next instance of a recurring task beside the completed one
+  const handleNextOccurrence = (nextTask: Task) => {
+    const position = isVertical
+      ? { x: xPos + NODEWIDTH + NEXT_OCCURRENCE_GAP, y: yPos }
+      : { x: xPos, y: yPos + NODEHEIGHT + NEXT_OCCURRENCE_GAP };
+    plugin?.addTaskToCanvas(nextTask.id, position, nextTask);
+  };
+
   return (
     <TaskBackground
       status={status}
       starred={starred}
       expanded={expanded}
       debugVisualization={debugVisualization}
+      dueState={getDueState({ ...task, status })}
+      critical={critical}
     >
       <Handle type="target" position={targetPosition} />
       <Handle type="source" position={sourcePosition} />
@@ -180,14 +239,34 @@ export default function TaskNode({ data }: NodeProps<TaskNodeData>) {
           status={status}
           task={task}
           onStatusChange={setStatus}
+          onNextOccurrence={handleNextOccurrence}
         />
         {showPriorities && <TaskPriority priority={task.priority} />}
-        <span ref={summaryRef} className="tasks-map-task-node-summary" />
+        {isEditingSummary && (
+          <SummaryInput
+            summary={summary}
+            onSave={handleSummarySave}
+            onCancel={() => setIsEditingSummary(false)}
+          />
+        )}
+        {/* Kept mounted while editing so the rendered links survive */}
+        <span
+          ref={summaryRef}
+          className="tasks-map-task-node-summary"
+          hidden={isEditingSummary}
+          title="Double-click to edit"
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            setIsEditingSummary(true);
+          }}
+        />
         <StarButton starred={starred} onClick={handleStarToggle} />
         <LinkButton link={task.link} app={app} taskStatus={status} />
       </div>
 
       <div className="tasks-map-task-node-content">
+        <TaskDates task={{ ...task, status }} />
+
         {showTags && (
           <div className="task-tags-container">
             {tags.map((tag) => (
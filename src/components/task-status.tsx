@@ -1,12 +1,13 @@
 import React from "react";
 import { Task, TaskStatus } from "src/types/task";
 import { updateTaskStatusInVault } from "src/lib/utils";
-import { useApp } from "src/hooks/hooks";
+import { useRecordedEdit } from "src/hooks/hooks";
 
 interface TaskStatusProps {
   status: TaskStatus;
   task: Task;
   onStatusChange: (newStatus: TaskStatus) => void; // eslint-disable-line no-unused-vars
+  onNextOccurrence?: (nextTask: Task) => void; // eslint-disable-line no-unused-vars
 }
 
 const statusIcons = {
@@ -20,8 +21,9 @@ export function TaskStatusToggle({
   status,
   task,
   onStatusChange,
+  onNextOccurrence,
 }: TaskStatusProps) {
-  const app = useApp();
+  const recordEdit = useRecordedEdit();
 
   const handleToggleStatus = async (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -30,8 +32,12 @@ export function TaskStatusToggle({
     const statusCycle: TaskStatus[] = ["todo", "in_progress", "done"];
     const currentIndex = statusCycle.indexOf(status);
     const newStatus = statusCycle[(currentIndex + 1) % statusCycle.length];
-    await updateTaskStatusInVault(task, newStatus, app);
+    const nextTask = await recordEdit("Change status", (app) =>
+      updateTaskStatusInVault(task, newStatus, app)
+    );
     onStatusChange(newStatus);
+    // Completing a recurring task created its next instance
+    if (nextTask) onNextOccurrence?.(nextTask);
   };
 
   return (
@@ -0,0 +1,79 @@
+import React from "react";
+import { NodeProps } from "reactflow";
+import { addDays, daysBetween } from "../lib/task-dates";
+
+export interface TimelineAxisData {
+  origin: string;
+  days: number;
+  dayWidth: number;
+  height: number; // Height of the rows below the axis (for the today marker)
+  today: string;
+}
+
+export interface TimelineLaneData {
+  label: string;
+  width: number;
+}
+
+function formatTick(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// Sets a dynamic left offset / size without inline style props
+function setBox(left: number, width?: number, height?: number) {
+  return (el: HTMLDivElement | null) => {
+    if (!el) return;
+    el.style.left = `${left}px`;
+    if (width !== undefined) el.style.width = `${width}px`;
+    if (height !== undefined) el.style.height = `${height}px`;
+  };
+}
+
+export default function TimelineAxis({ data }: NodeProps<TimelineAxisData>) {
+  const { origin, days, dayWidth, height, today } = data;
+  const weeks = Array.from({ length: Math.ceil(days / 7) }, (_, i) => i * 7);
+  const todayOffset = daysBetween(origin, today);
+
+  return (
+    <div
+      className="tasks-map-timeline-axis"
+      ref={(el) => {
+        if (el) el.style.width = `${days * dayWidth}px`;
+      }}
+    >
+      {weeks.map((offset) => (
+        <div
+          key={offset}
+          className="tasks-map-timeline-tick"
+          ref={setBox(offset * dayWidth)}
+        >
+          {formatTick(addDays(origin, offset))}
+        </div>
+      ))}
+      {todayOffset >= 0 && todayOffset <= days && (
+        <div
+          className="tasks-map-timeline-today"
+          title={`Today: ${today}`}
+          ref={setBox(todayOffset * dayWidth, undefined, height)}
+        />
+      )}
+    </div>
+  );
+}
+
+export function TimelineLane({ data }: NodeProps<TimelineLaneData>) {
+  return (
+    <div
+      className="tasks-map-timeline-lane"
+      ref={(el) => {
+        if (el) el.style.width = `${data.width}px`;
+      }}
+    >
+      {data.label}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { createContext } from "react";
 import { App } from "obsidian";
 import TasksMapPlugin from "../main";
+import { Task } from "../types/task";
+import { DependencyEdge } from "../lib/critical-path";
+import { ImageGraph } from "../lib/graph-image";
 
 export const AppContext = createContext<App | undefined>(undefined);
 export const PluginContext = createContext<TasksMapPlugin | undefined>(undefined);
@@ -15,10 +18,30 @@ export const TagsContext = createContext<TagsContextValue>({
   updateTaskTags: () => {},
 });
 
-// Canvas operations context for sidebar integration
+// Canvas operations registered with the plugin (sidebar and command integration)
 export interface CanvasOperations {
-  addTaskToCanvas: (taskId: string, position: { x: number; y: number }) => void;
+  addTaskToCanvas: (taskId: string, position: { x: number; y: number }, taskData?: unknown) => void; // eslint-disable-line no-unused-vars
+  addTasksToCanvas?: (entries: { task: Task; position: { x: number; y: number } }[], dependencies: DependencyEdge[]) => number; // eslint-disable-line no-unused-vars
   getCanvasTaskIds: () => string[];
+  clearCanvasNodes?: () => void;
+  reconcileEdges?: () => void;
+  revealTask?: (taskId: string) => boolean; // eslint-disable-line no-unused-vars
+  saveNow?: () => void;
+  reload?: () => void;
+  getVisibleGraph?: () => { tasks: Task[]; edges: DependencyEdge[] }; // Nodes and edges passing the filters
+  getImageGraph?: (selectedOnly: boolean) => ImageGraph; // eslint-disable-line no-unused-vars
+  undo?: () => void;
+  redo?: () => void;
 }
 
 export const CanvasContext = createContext<CanvasOperations | null>(null);
+
+// Undo history of the map view. Vault edits made through the app passed to
+// the action are recorded under the label and can be undone.
+export type RecordEdit = <T>(label: string, action: (app: App) => Promise<T>) => Promise<T>; // eslint-disable-line no-unused-vars
+
+export interface HistoryOperations {
+  record: RecordEdit;
+}
+
+export const HistoryContext = createContext<HistoryOperations | null>(null);
@@ -1,5 +1,5 @@
 import { useContext } from "react";
-import { AppContext } from "../contexts/context";
+import { AppContext, HistoryContext, RecordEdit } from "../contexts/context";
 import { App } from "obsidian";
 
 export const useApp = (): App => {
@@ -11,3 +11,15 @@ export const useApp = (): App => {
 
   return app;
 };
+
+/**
+ * Run a vault edit so the map view can undo it; outside of a map view the
+ * edit is made directly
+ */
+export const useRecordedEdit = (): RecordEdit => {
+  const app = useApp();
+  const history = useContext(HistoryContext);
+
+  return (label, action) =>
+    history ? history.record(label, action) : action(app);
+};
@@ -0,0 +1,107 @@
+import {
+  Board,
+  DEFAULT_BOARD,
+  DEFAULT_GRAPH_DATA,
+  DEFAULT_SETTINGS,
+  GraphData,
+  PluginData,
+} from "src/types/settings";
+
+/**
+ * Named boards (canvases). Each board has its own graph data; data.json files
+ * from before boards existed hold a single `graphData` that becomes the
+ * default board.
+ */
+
+/**
+ * Read plugin data in any of its stored formats:
+ * - settings only (oldest)
+ * - settings + graphData (single canvas)
+ * - settings + boards
+ */
+export function migratePluginData(data: unknown): PluginData {
+  if (!data || typeof data !== "object") {
+    return {
+      settings: { ...DEFAULT_SETTINGS },
+      boards: [DEFAULT_BOARD],
+      activeBoardId: DEFAULT_BOARD.id,
+    };
+  }
+
+  const stored = data as Record<string, unknown>;
+  if (!stored.settings) {
+    // Legacy format: data is just settings
+    return {
+      settings: Object.assign({}, DEFAULT_SETTINGS, stored),
+      boards: [DEFAULT_BOARD],
+      activeBoardId: DEFAULT_BOARD.id,
+    };
+  }
+
+  const settings = Object.assign({}, DEFAULT_SETTINGS, stored.settings);
+  let boards = Array.isArray(stored.boards)
+    ? (stored.boards as Board[])
+        .filter((board) => board && typeof board.id === "string")
+        .map((board) => ({
+          id: board.id,
+          name: board.name || board.id,
+          graphData: Object.assign({}, DEFAULT_GRAPH_DATA, board.graphData),
+        }))
+    : [];
+
+  if (boards.length === 0) {
+    // Single canvas format: its graph data becomes the default board
+    boards = [
+      {
+        ...DEFAULT_BOARD,
+        graphData: Object.assign(
+          {},
+          DEFAULT_GRAPH_DATA,
+          (stored.graphData as GraphData) || {}
+        ),
+      },
+    ];
+  }
+
+  const activeBoardId = boards.some((b) => b.id === stored.activeBoardId)
+    ? (stored.activeBoardId as string)
+    : boards[0].id;
+
+  return { settings, boards, activeBoardId };
+}
+
+/**
+ * A board ID derived from the name, unique among the existing boards
+ */
+export function createBoardId(name: string, boards: Board[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "board";
+
+  let id = base;
+  for (let n = 2; boards.some((board) => board.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * A board name that is not in use yet ("Name", "Name 2", ...)
+ */
+export function getUniqueBoardName(name: string, boards: Board[]): string {
+  const taken = new Set(boards.map((board) => board.name));
+  let unique = name;
+  for (let n = 2; taken.has(unique); n++) {
+    unique = `${name} ${n}`;
+  }
+  return unique;
+}
+
+/**
+ * Deep copy of a board's graph data, for duplicating boards
+ */
+export function copyGraphData(graphData: GraphData): GraphData {
+  return JSON.parse(JSON.stringify(graphData));
+}
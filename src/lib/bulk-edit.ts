@@ -0,0 +1,118 @@
+import { App } from "obsidian";
+import { Task, TaskStatus } from "src/types/task";
+import {
+  addStarToTaskInContent,
+  addTagToTaskInContent,
+  removeStarFromTaskInContent,
+  removeTagFromTaskInContent,
+  setTaskPriorityInContent,
+  updateTaskStatusInContent,
+} from "./utils";
+
+/**
+ * Edits applied to a selection of tasks at once. The tasks are grouped by
+ * file, so each file is rewritten once however many of its tasks are
+ * selected.
+ */
+export type BulkEdit =
+  | { type: "status"; status: TaskStatus }
+  | { type: "add-tag"; tag: string } // Without the leading #
+  | { type: "remove-tag"; tag: string }
+  | { type: "star"; starred: boolean }
+  | { type: "priority"; priority: string }; // Tasks plugin emoji, "" for normal
+
+/**
+ * The tasks an edit changes, e.g. only the unstarred ones when starring
+ */
+export function getBulkEditTargets(tasks: Task[], edit: BulkEdit): Task[] {
+  return tasks.filter((task) => {
+    if (!task.link || !task.text) return false;
+    switch (edit.type) {
+      case "status":
+        return task.status !== edit.status;
+      case "add-tag":
+        return !task.tags.includes(edit.tag);
+      case "remove-tag":
+        return task.tags.includes(edit.tag);
+      case "star":
+        return task.starred !== edit.starred;
+      case "priority":
+        return task.priority !== edit.priority;
+    }
+  });
+}
+
+/**
+ * Label of an edit for notices and the undo history
+ */
+export function describeBulkEdit(edit: BulkEdit, count: number): string {
+  const tasks = count === 1 ? "1 task" : `${count} tasks`;
+  switch (edit.type) {
+    case "status":
+      return `Set status of ${tasks}`;
+    case "add-tag":
+      return `Tag ${tasks} #${edit.tag}`;
+    case "remove-tag":
+      return `Remove #${edit.tag} from ${tasks}`;
+    case "star":
+      return `${edit.starred ? "Star" : "Unstar"} ${tasks}`;
+    case "priority":
+      return `Set priority of ${tasks}`;
+  }
+}
+
+export function groupTasksByFile(tasks: Task[]): Map<string, Task[]> {
+  const groups = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    groups.set(task.link, [...(groups.get(task.link) ?? []), task]);
+  });
+  return groups;
+}
+
+/**
+ * Apply an edit to the tasks of one file
+ */
+export function applyBulkEditToContent(
+  content: string,
+  tasks: Task[],
+  edit: BulkEdit
+): string {
+  return tasks.reduce((current, task) => {
+    switch (edit.type) {
+      case "status":
+        return updateTaskStatusInContent(current, task, edit.status).content;
+      case "add-tag":
+        return addTagToTaskInContent(current, task, edit.tag);
+      case "remove-tag":
+        return removeTagFromTaskInContent(current, task, edit.tag);
+      case "star":
+        return edit.starred
+          ? addStarToTaskInContent(current, task)
+          : removeStarFromTaskInContent(current, task);
+      case "priority":
+        return setTaskPriorityInContent(current, task, edit.priority);
+    }
+  }, content);
+}
+
+/**
+ * Apply an edit to tasks in the vault, with one `vault.process` per file
+ * @returns The number of tasks changed
+ */
+export async function applyBulkEditInVault(
+  tasks: Task[],
+  edit: BulkEdit,
+  app: App
+): Promise<number> {
+  const targets = getBulkEditTargets(tasks, edit);
+  let changed = 0;
+  for (const [path, fileTasks] of groupTasksByFile(targets)) {
+    const file = app.vault.getFileByPath(path);
+    if (!file) continue;
+    await app.vault.process(file, (content) =>
+      applyBulkEditToContent(content, fileTasks, edit)
+    );
+    changed += fileTasks.length;
+  }
+  return changed;
+}
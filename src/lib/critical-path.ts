@@ -0,0 +1,194 @@
+import { Task } from "src/types/task";
+
+/**
+ * Critical path analysis over the dependency graph (edges from
+ * `createEdgesFromTasks` or the canvas). Task weights come from their
+ * estimate; the critical path is the longest chain of work that ends at the
+ * selected target, and slack is how much a task can slip without delaying it.
+ */
+
+// Hours per unit of an estimate ("3h", "90m", "2d", "1w")
+const ESTIMATE_UNITS: Record<string, number> = {
+  m: 1 / 60,
+  min: 1 / 60,
+  h: 1,
+  hr: 1,
+  d: 8,
+  day: 8,
+  w: 40,
+  wk: 40,
+  week: 40,
+};
+
+// Weight of open tasks without an estimate
+export const DEFAULT_ESTIMATE_HOURS = 1;
+
+export interface DependencyEdge {
+  source: string;
+  target: string;
+}
+
+export interface CriticalPathResult {
+  targetId: string;
+  duration: number; // Hours until the target can finish
+  earliestStart: Map<string, number>;
+  slack: Map<string, number>;
+  criticalNodes: Set<string>;
+  criticalEdges: Set<string>; // `${source}-${target}`
+}
+
+/**
+ * Parse an estimate ("3h", "1.5 d", "90m" or a number of hours) into hours
+ */
+export function parseEstimate(value: unknown): number | undefined {
+  if (typeof value === "number") return value >= 0 ? value : undefined;
+  if (typeof value !== "string") return undefined;
+
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/);
+  if (!match) return undefined;
+
+  const unit = match[2].replace(/s$/, "") || "h";
+  const hours = ESTIMATE_UNITS[unit];
+  return hours === undefined ? undefined : parseFloat(match[1]) * hours;
+}
+
+/**
+ * Format hours as a short estimate string
+ */
+export function formatEstimate(hours: number): string {
+  if (hours > 0 && hours < 1) return `${Math.round(hours * 60)}m`;
+  return `${Math.round(hours * 10) / 10}h`;
+}
+
+/**
+ * Weight of a task: finished tasks take no more time
+ */
+export function getTaskWeight(task: Pick<Task, "status" | "estimate">): number {
+  if (task.status === "done" || task.status === "canceled") return 0;
+  return task.estimate ?? DEFAULT_ESTIMATE_HOURS;
+}
+
+/**
+ * Compute the critical path to a target task and the slack of every task it
+ * depends on. Returns null if the target is unknown or its dependencies
+ * contain a cycle.
+ */
+export function computeCriticalPath(
+  tasks: Task[],
+  edges: DependencyEdge[],
+  targetId: string
+): CriticalPathResult | null {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  if (!tasksById.has(targetId)) return null;
+
+  const predecessors = new Map<string, string[]>();
+  edges.forEach(({ source, target }) => {
+    if (!tasksById.has(source) || !tasksById.has(target)) return;
+    const list = predecessors.get(target) || [];
+    list.push(source);
+    predecessors.set(target, list);
+  });
+
+  // Everything the target (transitively) depends on
+  const relevant = new Set<string>([targetId]);
+  const stack = [targetId];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    (predecessors.get(id) || []).forEach((source) => {
+      if (relevant.has(source)) return;
+      relevant.add(source);
+      stack.push(source);
+    });
+  }
+
+  const relevantEdges = edges.filter(
+    ({ source, target }) => relevant.has(source) && relevant.has(target)
+  );
+  const successors = new Map<string, string[]>();
+  const inDegree = new Map<string, number>();
+  relevant.forEach((id) => inDegree.set(id, 0));
+  relevantEdges.forEach(({ source, target }) => {
+    const list = successors.get(source) || [];
+    list.push(target);
+    successors.set(source, list);
+    inDegree.set(target, (inDegree.get(target) ?? 0) + 1);
+  });
+
+  // Topological order (Kahn); leftovers mean a cycle
+  const order: string[] = [];
+  const queue = Array.from(relevant).filter((id) => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    order.push(id);
+    (successors.get(id) || []).forEach((next) => {
+      const degree = (inDegree.get(next) ?? 0) - 1;
+      inDegree.set(next, degree);
+      if (degree === 0) queue.push(next);
+    });
+  }
+  if (order.length !== relevant.size) return null;
+
+  const weight = (id: string) =>
+    getTaskWeight(tasksById.get(id) as Pick<Task, "status" | "estimate">);
+
+  // Forward pass: earliest start and finish
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  order.forEach((id) => {
+    const start = Math.max(
+      0,
+      ...relevantEdges
+        .filter(({ target }) => target === id)
+        .map(({ source }) => earliestFinish.get(source) ?? 0)
+    );
+    earliestStart.set(id, start);
+    earliestFinish.set(id, start + weight(id));
+  });
+  const duration = earliestFinish.get(targetId) ?? 0;
+
+  // Backward pass: latest start without delaying the target
+  const latestStart = new Map<string, number>();
+  [...order].reverse().forEach((id) => {
+    const next = successors.get(id) || [];
+    const latestFinish =
+      next.length === 0
+        ? duration
+        : Math.min(...next.map((s) => latestStart.get(s) ?? duration));
+    latestStart.set(id, latestFinish - weight(id));
+  });
+
+  const slack = new Map<string, number>();
+  const criticalNodes = new Set<string>();
+  order.forEach((id) => {
+    const value = (latestStart.get(id) ?? 0) - (earliestStart.get(id) ?? 0);
+    // Round away floating point noise from fractional estimates
+    const rounded = Math.round(value * 1000) / 1000;
+    slack.set(id, rounded);
+    if (rounded === 0) criticalNodes.add(id);
+  });
+
+  const criticalEdges = new Set<string>();
+  relevantEdges.forEach(({ source, target }) => {
+    if (
+      criticalNodes.has(source) &&
+      criticalNodes.has(target) &&
+      Math.abs(
+        (earliestFinish.get(source) ?? 0) - (earliestStart.get(target) ?? 0)
+      ) < 0.001
+    ) {
+      criticalEdges.add(`${source}-${target}`);
+    }
+  });
+
+  return {
+    targetId,
+    duration,
+    earliestStart,
+    slack,
+    criticalNodes,
+    criticalEdges,
+  };
+}
@@ -0,0 +1,176 @@
+import { DependencyEdge } from "./critical-path";
+
+/**
+ * Dependency cycle detection. Cycles are reported per strongly connected
+ * component, each as one closed walk through its tasks (A → B → C → A).
+ */
+
+function buildAdjacency(edges: DependencyEdge[]): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>();
+  edges.forEach(({ source, target }) => {
+    const list = adjacency.get(source) || [];
+    if (!list.includes(target)) list.push(target);
+    adjacency.set(source, list);
+    if (!adjacency.has(target)) adjacency.set(target, []);
+  });
+  return adjacency;
+}
+
+/**
+ * Strongly connected components that contain a cycle (Tarjan's algorithm)
+ */
+function findCyclicComponents(adjacency: Map<string, string[]>): Set<string>[] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: Set<string>[] = [];
+  let counter = 0;
+
+  const visit = (node: string) => {
+    index.set(node, counter);
+    lowLink.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+
+    (adjacency.get(node) || []).forEach((next) => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(
+          node,
+          Math.min(lowLink.get(node) ?? 0, lowLink.get(next) ?? 0)
+        );
+      } else if (onStack.has(next)) {
+        lowLink.set(
+          node,
+          Math.min(lowLink.get(node) ?? 0, index.get(next) ?? 0)
+        );
+      }
+    });
+
+    if (lowLink.get(node) !== index.get(node)) return;
+    const component = new Set<string>();
+    let member: string | undefined;
+    do {
+      member = stack.pop() as string;
+      onStack.delete(member);
+      component.add(member);
+    } while (member !== node);
+
+    const selfLoop = (adjacency.get(node) || []).includes(node);
+    if (component.size > 1 || selfLoop) components.push(component);
+  };
+
+  adjacency.forEach((_, node) => {
+    if (!index.has(node)) visit(node);
+  });
+  return components;
+}
+
+/**
+ * Find a path from `from` to `to` (breadth first), optionally restricted to
+ * a set of nodes
+ */
+function findPath(
+  adjacency: Map<string, string[]>,
+  from: string,
+  to: string,
+  within?: Set<string>
+): string[] | null {
+  const previous = new Map<string, string>();
+  const queue = [from];
+  const seen = new Set([from]);
+
+  while (queue.length > 0) {
+    const node = queue.shift() as string;
+    for (const next of adjacency.get(node) || []) {
+      if (within && !within.has(next)) continue;
+      if (next === to) {
+        const path = [to];
+        let current: string | undefined = node;
+        while (current !== undefined) {
+          path.unshift(current);
+          current = previous.get(current);
+        }
+        return path;
+      }
+      if (seen.has(next)) continue;
+      seen.add(next);
+      previous.set(next, node);
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the dependency cycles. Each cycle is a list of task IDs where the
+ * last entry repeats the first one.
+ */
+export function findCycles(edges: DependencyEdge[]): string[][] {
+  const adjacency = buildAdjacency(edges);
+  return findCyclicComponents(adjacency).map((component) => {
+    const start = Array.from(component).sort()[0];
+    return findPath(adjacency, start, start, component) ?? [start, start];
+  });
+}
+
+export interface BoardCycle {
+  board?: string; // Name of the board, none for the task files alone
+  cycle: string[];
+}
+
+/**
+ * Find the cycles of each board, among the task file dependencies and that
+ * board's connections. Boards are independent, so connections of different
+ * boards never form a cycle together. Cycles of the task file dependencies
+ * alone are reported once, without a board.
+ */
+export function findBoardCycles(
+  fileEdges: DependencyEdge[],
+  boards: { name: string; edges: DependencyEdge[] }[]
+): BoardCycle[] {
+  const fileEdgeIds = new Set(
+    fileEdges.map(({ source, target }) => `${source}-${target}`)
+  );
+  const inFiles = (cycle: string[]) =>
+    cycle.slice(1).every((id, i) => fileEdgeIds.has(`${cycle[i]}-${id}`));
+
+  return [
+    ...findCycles(fileEdges).map((cycle) => ({ cycle })),
+    ...boards.flatMap(({ name, edges }) =>
+      findCycles([...fileEdges, ...edges])
+        .filter((cycle) => !inFiles(cycle))
+        .map((cycle) => ({ board: name, cycle }))
+    ),
+  ];
+}
+
+/**
+ * IDs (`${source}-${target}`) of the edges that are part of a cycle
+ */
+export function getCycleEdgeIds(edges: DependencyEdge[]): Set<string> {
+  const components = findCyclicComponents(buildAdjacency(edges));
+  const ids = new Set<string>();
+  edges.forEach(({ source, target }) => {
+    if (components.some((c) => c.has(source) && c.has(target))) {
+      ids.add(`${source}-${target}`);
+    }
+  });
+  return ids;
+}
+
+/**
+ * Check whether adding source → target would close a cycle.
+ * @returns The resulting cycle (source → target → … → source), or null
+ */
+export function findCycleForNewEdge(
+  edges: DependencyEdge[],
+  source: string,
+  target: string
+): string[] | null {
+  if (source === target) return [source, source];
+  const path = findPath(buildAdjacency(edges), target, source);
+  return path ? [source, ...path] : null;
+}
@@ -0,0 +1,90 @@
+import { Task } from "src/types/task";
+import {
+  EdgePersistenceMode,
+  GraphData,
+  TasksMapSettings,
+} from "src/types/settings";
+
+export type EdgeSyncState = "canvas-only" | "markdown-only";
+
+export interface SimpleEdge {
+  source: string;
+  target: string;
+}
+
+export interface EdgeReconciliation {
+  canvasOnly: SimpleEdge[];
+  markdownOnly: SimpleEdge[];
+}
+
+/**
+ * Resolve the edge persistence mode of a canvas (per-canvas override or global)
+ */
+export function resolveEdgePersistence(
+  settings: Pick<TasksMapSettings, "edgePersistence">,
+  graphData: Pick<GraphData, "edgePersistence">
+): EdgePersistenceMode {
+  return graphData.edgePersistence ?? settings.edgePersistence;
+}
+
+export function writesEdgesToMarkdown(mode: EdgePersistenceMode): boolean {
+  return mode === "markdown" || mode === "both";
+}
+
+export function storesEdgesOnCanvas(mode: EdgePersistenceMode): boolean {
+  return mode === "canvas" || mode === "both";
+}
+
+function edgeKey(edge: SimpleEdge): string {
+  return `${edge.source}->${edge.target}`;
+}
+
+/**
+ * Get the dependencies written in the task files between tasks on the canvas
+ */
+export function getMarkdownEdges(
+  tasks: Task[],
+  nodeIds: Set<string>
+): SimpleEdge[] {
+  const edges: SimpleEdge[] = [];
+  tasks.forEach((task) => {
+    if (!nodeIds.has(task.id)) return;
+    task.incomingLinks.forEach((source) => {
+      if (nodeIds.has(source)) {
+        edges.push({ source, target: task.id });
+      }
+    });
+  });
+  return edges;
+}
+
+/**
+ * Compare the canvas edges with the dependencies in the task files
+ */
+export function reconcileEdges(
+  canvasEdges: SimpleEdge[],
+  markdownEdges: SimpleEdge[]
+): EdgeReconciliation {
+  const canvasKeys = new Set(canvasEdges.map(edgeKey));
+  const markdownKeys = new Set(markdownEdges.map(edgeKey));
+
+  return {
+    canvasOnly: canvasEdges.filter((edge) => !markdownKeys.has(edgeKey(edge))),
+    markdownOnly: markdownEdges.filter(
+      (edge) => !canvasKeys.has(edgeKey(edge))
+    ),
+  };
+}
+
+/**
+ * Which mismatches are worth flagging in a mode: canvas-only edges are
+ * expected with "canvas", markdown-only edges are expected with "markdown".
+ */
+export function getEdgeSyncFlag(
+  state: EdgeSyncState,
+  mode: EdgePersistenceMode
+): EdgeSyncState | undefined {
+  if (state === "canvas-only" && mode === "canvas") return undefined;
+  if (state === "markdown-only" && mode === "markdown") return undefined;
+  return state;
+}
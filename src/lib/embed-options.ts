@@ -0,0 +1,162 @@
+import { Task } from "src/types/task";
+
+/**
+ * Options of a `tasks-map` code block, one `key: value` per line:
+ *
+ * ```tasks-map
+ * folder: Projects/Alpha
+ * tag: #alpha
+ * project: Alpha
+ * direction: vertical
+ * height: 400
+ * completed: false
+ * mode: readonly
+ * ```
+ */
+
+export interface EmbedOptions {
+  folder?: string; // Path prefix of the task files
+  tags: string[]; // Tasks need one of these tags (without #)
+  project?: string; // Project frontmatter property of the task files
+  direction: "Horizontal" | "Vertical";
+  height: number; // px
+  showCompleted: boolean; // Show done and canceled tasks
+  interactive: boolean; // Allow dragging and task actions
+}
+
+export const DEFAULT_EMBED_HEIGHT = 400;
+const MIN_EMBED_HEIGHT = 100;
+
+const TRUE_VALUES = ["true", "yes", "show", "on"];
+const FALSE_VALUES = ["false", "no", "hide", "off"];
+
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return undefined;
+}
+
+/**
+ * Parse the code block source. Invalid lines are reported in `errors` and
+ * leave the defaults in place.
+ */
+export function parseEmbedOptions(
+  source: string,
+  defaultDirection: "Horizontal" | "Vertical" = "Horizontal"
+): { options: EmbedOptions; errors: string[] } {
+  const options: EmbedOptions = {
+    tags: [],
+    direction: defaultDirection,
+    height: DEFAULT_EMBED_HEIGHT,
+    showCompleted: true,
+    interactive: true,
+  };
+  const errors: string[] = [];
+
+  source.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("%%")) return;
+
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) {
+      errors.push(`Cannot read "${line}", expected "option: value"`);
+      return;
+    }
+    const key = match[1].toLowerCase();
+    const value = match[2].trim().replace(/^["'](.*)["']$/, "$1");
+
+    switch (key) {
+      case "folder":
+      case "path":
+        options.folder = value.replace(/^\/+|\/+$/g, "") || undefined;
+        break;
+      case "tag":
+      case "tags":
+        options.tags.push(
+          ...value
+            .split(/[\s,]+/)
+            .map((tag) => tag.replace(/^#/, ""))
+            .filter(Boolean)
+        );
+        break;
+      case "project":
+        options.project = value || undefined;
+        break;
+      case "direction":
+      case "layout": {
+        const direction = value.toLowerCase();
+        if (["horizontal", "lr"].includes(direction)) {
+          options.direction = "Horizontal";
+        } else if (["vertical", "tb", "td"].includes(direction)) {
+          options.direction = "Vertical";
+        } else {
+          errors.push(`Unknown direction "${value}" (horizontal or vertical)`);
+        }
+        break;
+      }
+      case "height": {
+        const height = parseInt(value.replace(/px$/i, ""), 10);
+        if (isNaN(height) || height < MIN_EMBED_HEIGHT) {
+          errors.push(
+            `Invalid height "${value}" (a number of pixels, at least ${MIN_EMBED_HEIGHT})`
+          );
+        } else {
+          options.height = height;
+        }
+        break;
+      }
+      case "completed":
+      case "show-completed": {
+        const show = parseBoolean(value);
+        if (show === undefined) {
+          errors.push(`Invalid value "${value}" for completed (true or false)`);
+        } else {
+          options.showCompleted = show;
+        }
+        break;
+      }
+      case "mode": {
+        const mode = value.toLowerCase();
+        if (mode === "interactive") options.interactive = true;
+        else if (["readonly", "read-only"].includes(mode)) {
+          options.interactive = false;
+        } else {
+          errors.push(`Unknown mode "${value}" (interactive or readonly)`);
+        }
+        break;
+      }
+      default:
+        errors.push(`Unknown option "${match[1]}"`);
+    }
+  });
+
+  return { options, errors };
+}
+
+function hasTag(task: Task, tag: string): boolean {
+  const wanted = tag.toLowerCase();
+  return task.tags.some((taskTag) => {
+    const normalized = taskTag.replace(/^#/, "").toLowerCase();
+    return normalized === wanted || normalized.startsWith(`${wanted}/`);
+  });
+}
+
+/**
+ * The tasks matching the source query of a code block
+ */
+export function selectEmbedTasks(tasks: Task[], options: EmbedOptions): Task[] {
+  const folder = options.folder ? `${options.folder}/` : undefined;
+  return tasks.filter(
+    (task) =>
+      (!folder ||
+        task.link.startsWith(folder) ||
+        task.link === options.folder) &&
+      (options.tags.length === 0 ||
+        options.tags.some((tag) => hasTag(task, tag))) &&
+      (!options.project ||
+        task.project?.toLowerCase() === options.project.toLowerCase()) &&
+      (options.showCompleted ||
+        (task.status !== "done" && task.status !== "canceled"))
+  );
+}
@@ -0,0 +1,70 @@
+import { FilterPreset, GraphData } from "src/types/settings";
+import { getSavedFilterQuery } from "./filter-query";
+
+/**
+ * Named filter queries saved with a canvas. Applying a preset remembers its
+ * name in the canvas filters, so the preset is active again when the canvas
+ * is reopened; editing the query deactivates it.
+ */
+
+function isSameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function findFilterPreset(
+  presets: FilterPreset[] | undefined,
+  name: string
+): FilterPreset | undefined {
+  return presets?.find((preset) => isSameName(preset.name, name));
+}
+
+/**
+ * Add a preset, or replace the one with the same name in place
+ */
+export function upsertFilterPreset(
+  presets: FilterPreset[] | undefined,
+  preset: FilterPreset
+): FilterPreset[] {
+  const current = presets ?? [];
+  return findFilterPreset(current, preset.name)
+    ? current.map((p) => (isSameName(p.name, preset.name) ? preset : p))
+    : [...current, preset];
+}
+
+export function removeFilterPreset(
+  presets: FilterPreset[] | undefined,
+  name: string
+): FilterPreset[] {
+  return (presets ?? []).filter((preset) => !isSameName(preset.name, name));
+}
+
+/**
+ * The filter of a canvas: the query of its active preset, or the query it
+ * was left with
+ */
+export function getActiveFilter(graphData: GraphData): {
+  query: string;
+  preset?: string;
+} {
+  const { filters, filterPresets } = graphData;
+  const preset = filters?.preset
+    ? findFilterPreset(filterPresets, filters.preset)
+    : undefined;
+  return preset
+    ? { query: preset.query, preset: preset.name }
+    : { query: getSavedFilterQuery(filters) };
+}
+
+/**
+ * ID of the command applying presets with this name, stable across restarts
+ * so hotkeys stay bound
+ */
+export function getFilterPresetCommandId(name: string): string {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    // Keep letters of any script, e.g. for Chinese names
+    .replace(/[^0-9a-z\u00c0-\uffff]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `filter-preset-${slug || "unnamed"}`;
+}
@@ -0,0 +1,555 @@
+import { Task, TaskStatus } from "src/types/task";
+import { SavedFilters } from "src/types/settings";
+import { addDays, formatDate } from "./task-dates";
+import { getPriorityRank, PRIORITY_ORDER } from "./next-actions";
+
+/**
+ * Filter queries for the map and the sidebar, e.g.
+ * `tag:#work status:todo,in_progress due<7d path:Projects/ -starred`.
+ *
+ * Terms are separated by spaces and must all match. A term is `field:value`
+ * (values separated by commas match any), a comparison (`due<7d`), the
+ * `starred` flag or plain text searched in the summary. `-` negates a term.
+ */
+
+export type FilterField =
+  | "tag"
+  | "status"
+  | "priority"
+  | "path"
+  | "project"
+  | "due"
+  | "scheduled"
+  | "start"
+  | "starred"
+  | "text";
+
+export type FilterOperator = ":" | "<" | "<=" | ">" | ">=";
+
+export interface FilterTerm {
+  field: FilterField;
+  operator: FilterOperator;
+  values: string[]; // Normalized values
+  negated: boolean;
+}
+
+export interface FilterError {
+  message: string;
+  from: number; // Offsets in the query
+  to: number;
+}
+
+export interface FilterQuery {
+  terms: FilterTerm[];
+}
+
+export interface FilterCompletion {
+  from: number; // Range of the query replaced by the completion
+  to: number;
+  options: { value: string; description?: string }[];
+}
+
+export const FILTER_FIELDS: Record<FilterField, string> = {
+  tag: "Has one of the tags (tag:none for untagged)",
+  status: "todo, in_progress, done or canceled",
+  priority: "highest, high, medium, normal, low or lowest",
+  path: "File path starts with",
+  project: "Project of the file",
+  due: "Due date, e.g. due<7d, due:today, due:none",
+  scheduled: "Scheduled date",
+  start: "Start date",
+  starred: "Starred tasks",
+  text: "Summary contains",
+};
+
+const STATUSES: TaskStatus[] = ["todo", "in_progress", "done", "canceled"];
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  "in-progress": "in_progress",
+  doing: "in_progress",
+  cancelled: "canceled",
+};
+
+const PRIORITY_NAMES = ["highest", "high", "medium", "normal", "low", "lowest"];
+const DATE_FIELDS: FilterField[] = ["due", "scheduled", "start"];
+const DATE_KEYWORDS = [
+  "today",
+  "tomorrow",
+  "yesterday",
+  "overdue",
+  "none",
+  "any",
+];
+const DATE_FIELD_KEYS: Record<string, keyof Task> = {
+  due: "dueDate",
+  scheduled: "scheduledDate",
+  start: "startDate",
+};
+
+// "No tags" entry of the former tag select
+const LEGACY_NO_TAGS_VALUE = "__NO_TAGS__";
+
+const TERM_PATTERN = /^(-?)([a-z]+)(:|<=|>=|<|>)(.*)$/i;
+const RELATIVE_DATE_PATTERN = /^([+-]?\d+)([dwmy])$/i;
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, "$1");
+}
+
+/**
+ * Split the values of a term on the commas outside quotes
+ */
+function splitValues(values: string): string[] {
+  const parts = [""];
+  let quoted = false;
+  for (const char of values) {
+    if (char === '"') quoted = !quoted;
+    if (char === "," && !quoted) {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Split a query into terms with their offsets; quotes keep spaces in a term
+ */
+export function tokenizeFilterQuery(
+  query: string
+): { text: string; from: number; to: number }[] {
+  const tokens: { text: string; from: number; to: number }[] = [];
+  const pattern = /(?:[^\s"]+|"[^"]*"?)+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    tokens.push({
+      text: match[0],
+      from: match.index,
+      to: match.index + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Resolve a date value (YYYY-MM-DD, today, 7d, -2w, 1m...) to YYYY-MM-DD
+ */
+export function resolveFilterDate(
+  value: string,
+  today: string
+): string | undefined {
+  const lower = value.toLowerCase();
+  if (lower === "today") return today;
+  if (lower === "tomorrow") return addDays(today, 1);
+  if (lower === "yesterday") return addDays(today, -1);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const relative = lower.match(RELATIVE_DATE_PATTERN);
+  if (!relative) return undefined;
+  const amount = parseInt(relative[1], 10);
+  switch (relative[2]) {
+    case "d":
+      return addDays(today, amount);
+    case "w":
+      return addDays(today, amount * 7);
+    case "m":
+    case "y": {
+      const [year, month, day] = today.split("-").map(Number);
+      const months = relative[2] === "m" ? amount : amount * 12;
+      return formatDate(new Date(year, month - 1 + months, day));
+    }
+  }
+  return undefined;
+}
+
+function normalizeValues(
+  field: FilterField,
+  operator: FilterOperator,
+  rawValues: string[]
+): { values: string[]; error?: string } {
+  const values = rawValues.map(unquote).filter((value) => value !== "");
+  if (values.length === 0 && field !== "starred") {
+    return { values, error: `Missing value for ${field}` };
+  }
+  if (operator !== ":" && (values.length !== 1 || !isComparable(field))) {
+    return {
+      values,
+      error: isComparable(field)
+        ? `Compare ${field} with a single value`
+        : `${field} can't be compared with ${operator}`,
+    };
+  }
+
+  switch (field) {
+    case "tag":
+      return {
+        values: values.map((tag) => tag.replace(/^#/, "").toLowerCase()),
+      };
+    case "status": {
+      const statuses = values.map(
+        (value) => STATUS_ALIASES[value.toLowerCase()] ?? value.toLowerCase()
+      );
+      const invalid = statuses.find(
+        (status) => !STATUSES.includes(status as TaskStatus)
+      );
+      return invalid
+        ? { values, error: `Unknown status "${invalid}"` }
+        : { values: statuses };
+    }
+    case "priority": {
+      const priorities = values.map((value) => {
+        const index = PRIORITY_NAMES.indexOf(value.toLowerCase());
+        return index === -1 ? value : PRIORITY_ORDER[index];
+      });
+      const invalid = priorities.find(
+        (priority) => !PRIORITY_ORDER.includes(priority)
+      );
+      return invalid !== undefined
+        ? { values, error: `Unknown priority "${invalid}"` }
+        : { values: priorities };
+    }
+    case "due":
+    case "scheduled":
+    case "start": {
+      const invalid = values.find(
+        (value) =>
+          !DATE_KEYWORDS.includes(value.toLowerCase()) &&
+          resolveFilterDate(value, "2000-01-01") === undefined
+      );
+      if (invalid) return { values, error: `Invalid date "${invalid}"` };
+      if (
+        operator !== ":" &&
+        ["overdue", "none", "any"].includes(values[0].toLowerCase())
+      ) {
+        return { values, error: `Compare ${field} with a date` };
+      }
+      return { values: values.map((value) => value.toLowerCase()) };
+    }
+    case "path":
+      return { values: values.map((path) => path.replace(/^\/+/, "")) };
+    default:
+      return { values: values.map((value) => value.toLowerCase()) };
+  }
+}
+
+function isComparable(field: FilterField): boolean {
+  return DATE_FIELDS.includes(field) || field === "priority";
+}
+
+/**
+ * Parse a query. Terms with errors are left out of the filter, so the rest
+ * of the query keeps working while it is being typed.
+ */
+export function parseFilterQuery(query: string): {
+  filter: FilterQuery;
+  errors: FilterError[];
+} {
+  const terms: FilterTerm[] = [];
+  const errors: FilterError[] = [];
+
+  tokenizeFilterQuery(query).forEach(({ text, from, to }) => {
+    const match = text.match(TERM_PATTERN);
+    const negated = text.startsWith("-") && text.length > 1;
+    const bare = negated ? text.slice(1) : text;
+
+    if (!match) {
+      if (bare.toLowerCase() === "starred") {
+        terms.push({ field: "starred", operator: ":", values: [], negated });
+      } else if (bare !== "-") {
+        terms.push({
+          field: "text",
+          operator: ":",
+          values: [unquote(bare).toLowerCase()],
+          negated,
+        });
+      }
+      return;
+    }
+
+    const field = match[2].toLowerCase() as FilterField;
+    const operator = match[3] as FilterOperator;
+    if (!(field in FILTER_FIELDS)) {
+      errors.push({ message: `Unknown filter "${match[2]}"`, from, to });
+      return;
+    }
+    if (field === "starred") {
+      errors.push({ message: `Use "starred" or "-starred"`, from, to });
+      return;
+    }
+
+    const { values, error } = normalizeValues(
+      field,
+      operator,
+      splitValues(match[4])
+    );
+    if (error) {
+      errors.push({ message: error, from, to });
+      return;
+    }
+    terms.push({ field, operator, values, negated: match[1] === "-" });
+  });
+
+  return { filter: { terms }, errors };
+}
+
+function compare(a: number | string, b: number | string, operator: string) {
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    default:
+      return a === b;
+  }
+}
+
+function matchesDate(
+  date: string | undefined,
+  term: FilterTerm,
+  today: string
+): boolean {
+  if (term.operator === ":") {
+    return term.values.some((value) => {
+      if (value === "none") return !date;
+      if (value === "any") return !!date;
+      if (!date) return false;
+      if (value === "overdue") return date < today;
+      return date === resolveFilterDate(value, today);
+    });
+  }
+  const limit = resolveFilterDate(term.values[0], today);
+  return !!date && !!limit && compare(date, limit, term.operator);
+}
+
+function matchesTerm(task: Task, term: FilterTerm, today: string): boolean {
+  switch (term.field) {
+    case "tag": {
+      const tags = task.tags.map((tag) => tag.replace(/^#/, "").toLowerCase());
+      return term.values.some((value) =>
+        value === "none"
+          ? tags.length === 0
+          : tags.some((tag) => tag === value || tag.startsWith(`${value}/`))
+      );
+    }
+    case "status":
+      return term.values.includes(task.status);
+    case "priority":
+      if (term.operator === ":") return term.values.includes(task.priority);
+      // Higher priority has a lower rank
+      return compare(
+        getPriorityRank(term.values[0]),
+        getPriorityRank(task.priority),
+        term.operator
+      );
+    case "path":
+      return term.values.some((path) =>
+        task.link.toLowerCase().startsWith(path.toLowerCase())
+      );
+    case "project":
+      return term.values.includes((task.project ?? "").toLowerCase());
+    case "due":
+    case "scheduled":
+    case "start":
+      return matchesDate(
+        task[DATE_FIELD_KEYS[term.field]] as string | undefined,
+        term,
+        today
+      );
+    case "starred":
+      return task.starred;
+    case "text": {
+      const summary = (task.summary || task.text).toLowerCase();
+      return term.values.every((value) => summary.includes(value));
+    }
+  }
+}
+
+export function matchesFilter(
+  task: Task,
+  filter: FilterQuery,
+  today: string = formatDate(new Date())
+): boolean {
+  return filter.terms.every(
+    (term) => matchesTerm(task, term, today) !== term.negated
+  );
+}
+
+export function isEmptyFilter(filter: FilterQuery): boolean {
+  return filter.terms.length === 0;
+}
+
+/**
+ * The query of saved filters; converts the tag and status selections saved
+ * before filter queries
+ */
+export function getSavedFilterQuery(filters: SavedFilters | undefined): string {
+  if (!filters) return "";
+  if (filters.query !== undefined) return filters.query;
+
+  const terms: string[] = [];
+  if (filters.tags && filters.tags.length > 0) {
+    const tags = filters.tags.map((tag) =>
+      tag === LEGACY_NO_TAGS_VALUE ? "none" : `#${tag}`
+    );
+    terms.push(`tag:${tags.join(",")}`);
+  }
+  if (
+    filters.statuses &&
+    filters.statuses.length > 0 &&
+    filters.statuses.length < STATUSES.length
+  ) {
+    terms.push(`status:${filters.statuses.join(",")}`);
+  }
+  return terms.join(" ");
+}
+
+/**
+ * Values of the first `field:value` term of a query (not negated), e.g. the
+ * tags of `tag:#work,home` for the tag select
+ */
+export function getFilterTermValues(
+  query: string,
+  field: FilterField
+): string[] {
+  const term = parseFilterQuery(query).filter.terms.find(
+    (t) => t.field === field && t.operator === ":" && !t.negated
+  );
+  return term ? term.values : [];
+}
+
+/**
+ * Replace the values of the first `field:value` term of a query, appending
+ * the term if there is none and removing it for no values. The rest of the
+ * query is kept as typed.
+ */
+export function setFilterTermValues(
+  query: string,
+  field: FilterField,
+  values: string[]
+): string {
+  const pattern = new RegExp(`^${field}:`, "i");
+  const token = tokenizeFilterQuery(query).find(({ text }) =>
+    pattern.test(text)
+  );
+  const term = values.length > 0 ? `${field}:${values.join(",")}` : "";
+
+  if (!token) return term ? [query.trimEnd(), term].join(" ").trim() : query;
+  const before = query.slice(0, token.from);
+  const after = query.slice(token.to);
+  return term
+    ? before + term + after
+    : (before.trimEnd() + " " + after.trimStart()).trim();
+}
+
+/**
+ * Tags, folders and projects of the tasks, for completions
+ */
+export function getFilterCompletionSources(tasks: Task[]): {
+  tags: string[];
+  paths: string[];
+  projects: string[];
+} {
+  const tags = new Set<string>();
+  const paths = new Set<string>();
+  const projects = new Set<string>();
+  tasks.forEach((task) => {
+    task.tags.forEach((tag) => tags.add(tag.replace(/^#/, "")));
+    const parts = task.link.split("/").slice(0, -1);
+    parts.forEach((_, i) => paths.add(parts.slice(0, i + 1).join("/") + "/"));
+    if (task.project && task.project !== "none") projects.add(task.project);
+  });
+  const sorted = (set: Set<string>) =>
+    Array.from(set).sort((a, b) => a.localeCompare(b));
+  return {
+    tags: sorted(tags),
+    paths: sorted(paths),
+    projects: sorted(projects),
+  };
+}
+
+function quoteIfNeeded(value: string): string {
+  return /[\s,]/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Completions for the term at the cursor: field names, then their values
+ */
+export function getFilterCompletions(
+  query: string,
+  cursor: number,
+  sources: { tags: string[]; paths: string[]; projects: string[] },
+  limit = 20
+): FilterCompletion | null {
+  const token = tokenizeFilterQuery(query).find(
+    ({ from, to }) => from <= cursor && cursor <= to
+  ) ?? { text: "", from: cursor, to: cursor };
+  const typed = token.text.slice(0, cursor - token.from);
+  const offset = typed.startsWith("-") ? 1 : 0;
+  const match = typed.slice(offset).match(/^([a-z]+)(:|<=|>=|<|>)(.*)$/i);
+
+  if (!match) {
+    const prefix = typed.slice(offset).toLowerCase();
+    const options = (Object.keys(FILTER_FIELDS) as FilterField[])
+      .filter((field) => field !== "text" && field.startsWith(prefix))
+      .map((field) => ({
+        value: field === "starred" ? field : `${field}:`,
+        description: FILTER_FIELDS[field],
+      }));
+    return options.length > 0 &&
+      !(options.length === 1 && options[0].value === prefix)
+      ? { from: token.from + offset, to: cursor, options }
+      : null;
+  }
+
+  const field = match[1].toLowerCase();
+  const typedValue = splitValues(match[3]).pop() ?? "";
+  // The value being typed may not have its closing quote yet
+  const current = unquote(typedValue).replace(/^"/, "").toLowerCase();
+  const from = cursor - typedValue.length;
+
+  let candidates: string[];
+  switch (field) {
+    case "tag":
+      candidates = ["none", ...sources.tags.map((tag) => `#${tag}`)];
+      break;
+    case "status":
+      candidates = STATUSES;
+      break;
+    case "priority":
+      candidates = PRIORITY_NAMES;
+      break;
+    case "path":
+      candidates = sources.paths.map(quoteIfNeeded);
+      break;
+    case "project":
+      candidates = sources.projects.map(quoteIfNeeded);
+      break;
+    case "due":
+    case "scheduled":
+    case "start":
+      candidates =
+        match[2] === ":"
+          ? ["today", "tomorrow", "overdue", "none", "any"]
+          : ["today", "7d", "14d", "1m"];
+      break;
+    default:
+      return null;
+  }
+
+  const options = candidates
+    .filter((candidate) => {
+      const normalized = unquote(candidate).toLowerCase();
+      return (
+        normalized !== current &&
+        (normalized.startsWith(current) ||
+          normalized.replace(/^#/, "").startsWith(current.replace(/^#/, "")))
+      );
+    })
+    .slice(0, limit)
+    .map((value) => ({ value }));
+  return options.length > 0 ? { from, to: cursor, options } : null;
+}
@@ -0,0 +1,230 @@
+import { Task, TaskStatus } from "src/types/task";
+import { DependencyEdge } from "./critical-path";
+
+/**
+ * Serialize the visible part of a map for docs and PRs: Mermaid flowcharts,
+ * Graphviz DOT and a JSON format (documented in the README). Status is shown
+ * as the node fill, priority as the node border.
+ */
+
+export type ExportFormat = "mermaid" | "dot" | "json";
+export type ExportDirection = "Horizontal" | "Vertical";
+
+export const EXPORT_FORMAT_NAMES: Record<ExportFormat, string> = {
+  mermaid: "Mermaid",
+  dot: "DOT",
+  json: "JSON",
+};
+
+export const EXPORT_JSON_VERSION = 1;
+
+export interface ExportedNode {
+  id: string;
+  summary: string;
+  status: TaskStatus;
+  priority: string; // Priority emoji, "" for normal
+  tags: string[];
+  file: string;
+  line?: number; // 0-based, line tasks only
+  due?: string; // YYYY-MM-DD
+}
+
+export interface ExportedGraph {
+  version: number;
+  direction: "LR" | "TB";
+  nodes: ExportedNode[];
+  edges: DependencyEdge[]; // source must be done before target
+}
+
+interface NodeStyle {
+  fill: string;
+  color: string;
+  dashed?: boolean;
+}
+
+const STATUS_STYLES: Record<TaskStatus, NodeStyle> = {
+  todo: { fill: "#ffffff", color: "#1f2937" },
+  in_progress: { fill: "#dbeafe", color: "#1e3a8a" },
+  done: { fill: "#dcfce7", color: "#166534" },
+  canceled: { fill: "#f3f4f6", color: "#6b7280", dashed: true },
+};
+
+const PRIORITY_STYLES: Record<
+  string,
+  { name: string; stroke: string; width: number }
+> = {
+  "🔺": { name: "highest", stroke: "#dc2626", width: 3 },
+  "⏫": { name: "high", stroke: "#f97316", width: 2 },
+  "🔼": { name: "medium", stroke: "#eab308", width: 2 },
+  "": { name: "normal", stroke: "#9ca3af", width: 1 },
+  "🔽": { name: "low", stroke: "#60a5fa", width: 1 },
+  "⏬": { name: "lowest", stroke: "#cbd5e1", width: 1 },
+};
+
+function getPriorityStyle(priority: string) {
+  return PRIORITY_STYLES[priority] ?? PRIORITY_STYLES[""];
+}
+
+function getLabel(task: Task): string {
+  return (task.summary || task.text || task.id).replace(/\s+/g, " ").trim();
+}
+
+// Only edges between exported tasks
+function getExportedEdges(
+  tasks: Task[],
+  edges: DependencyEdge[]
+): DependencyEdge[] {
+  const ids = new Set(tasks.map((task) => task.id));
+  const seen = new Set<string>();
+  return edges.filter(({ source, target }) => {
+    const key = `${source}-${target}`;
+    if (!ids.has(source) || !ids.has(target) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Escape text for a quoted Mermaid label (entity codes)
+ */
+export function escapeMermaidLabel(text: string): string {
+  return text
+    .replace(/#/g, "#35;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;");
+}
+
+/**
+ * Escape text for a quoted DOT string
+ */
+export function escapeDotString(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+export function toMermaid(
+  tasks: Task[],
+  edges: DependencyEdge[],
+  direction: ExportDirection = "Horizontal"
+): string {
+  // Task IDs may contain characters Mermaid doesn't accept, use short IDs
+  const mermaidIds = new Map(tasks.map((task, i) => [task.id, `t${i}`]));
+  const lines = [`flowchart ${direction === "Vertical" ? "TB" : "LR"}`];
+
+  tasks.forEach((task) => {
+    lines.push(
+      `  ${mermaidIds.get(task.id)}["${escapeMermaidLabel(getLabel(task))}"]`
+    );
+  });
+  getExportedEdges(tasks, edges).forEach(({ source, target }) => {
+    lines.push(`  ${mermaidIds.get(source)} --> ${mermaidIds.get(target)}`);
+  });
+
+  // Status classes set the fill, priority classes the border
+  const classes = new Map<string, string[]>();
+  const addToClass = (name: string, id: string) =>
+    classes.set(name, [...(classes.get(name) || []), id]);
+  tasks.forEach((task) => {
+    const id = mermaidIds.get(task.id) as string;
+    addToClass(task.status, id);
+    addToClass(`priority_${getPriorityStyle(task.priority).name}`, id);
+  });
+
+  (Object.keys(STATUS_STYLES) as TaskStatus[]).forEach((status) => {
+    if (!classes.has(status)) return;
+    const { fill, color, dashed } = STATUS_STYLES[status];
+    lines.push(
+      `  classDef ${status} fill:${fill},color:${color}${dashed ? ",stroke-dasharray:4 4" : ""}`
+    );
+  });
+  Object.values(PRIORITY_STYLES).forEach(({ name, stroke, width }) => {
+    if (!classes.has(`priority_${name}`)) return;
+    lines.push(
+      `  classDef priority_${name} stroke:${stroke},stroke-width:${width}px`
+    );
+  });
+  classes.forEach((ids, name) => {
+    lines.push(`  class ${ids.join(",")} ${name}`);
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+export function toDot(
+  tasks: Task[],
+  edges: DependencyEdge[],
+  direction: ExportDirection = "Horizontal"
+): string {
+  const quote = (text: string) => `"${escapeDotString(text)}"`;
+  const lines = [
+    "digraph tasks {",
+    `  rankdir=${direction === "Vertical" ? "TB" : "LR"};`,
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+
+  tasks.forEach((task) => {
+    const { fill, color, dashed } = STATUS_STYLES[task.status];
+    const { stroke, width } = getPriorityStyle(task.priority);
+    const style = dashed ? ', style="rounded,filled,dashed"' : "";
+    lines.push(
+      `  ${quote(task.id)} [label=${quote(getLabel(task))}, fillcolor="${fill}", fontcolor="${color}", color="${stroke}", penwidth=${width}${style}];`
+    );
+  });
+  getExportedEdges(tasks, edges).forEach(({ source, target }) => {
+    lines.push(`  ${quote(source)} -> ${quote(target)};`);
+  });
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+export function toExportedGraph(
+  tasks: Task[],
+  edges: DependencyEdge[],
+  direction: ExportDirection = "Horizontal"
+): ExportedGraph {
+  return {
+    version: EXPORT_JSON_VERSION,
+    direction: direction === "Vertical" ? "TB" : "LR",
+    nodes: tasks.map((task) => ({
+      id: task.id,
+      summary: getLabel(task),
+      status: task.status,
+      priority: task.priority,
+      tags: task.tags,
+      file: task.link,
+      ...(task.line !== undefined && { line: task.line }),
+      ...(task.dueDate && { due: task.dueDate }),
+    })),
+    edges: getExportedEdges(tasks, edges).map(({ source, target }) => ({
+      source,
+      target,
+    })),
+  };
+}
+
+export function toJson(
+  tasks: Task[],
+  edges: DependencyEdge[],
+  direction: ExportDirection = "Horizontal"
+): string {
+  return (
+    JSON.stringify(toExportedGraph(tasks, edges, direction), null, 2) + "\n"
+  );
+}
+
+export function exportGraph(
+  format: ExportFormat,
+  tasks: Task[],
+  edges: DependencyEdge[],
+  direction: ExportDirection = "Horizontal"
+): string {
+  switch (format) {
+    case "mermaid":
+      return toMermaid(tasks, edges, direction);
+    case "dot":
+      return toDot(tasks, edges, direction);
+    case "json":
+      return toJson(tasks, edges, direction);
+  }
+}
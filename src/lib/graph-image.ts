@@ -0,0 +1,346 @@
+import { Task, TaskStatus } from "src/types/task";
+import { DependencyEdge } from "./critical-path";
+
+/**
+ * Render the map as an SVG image (and from there a PNG), independent of the
+ * React Flow DOM. Theme colors are resolved from the CSS variables of the
+ * plugin and the Obsidian theme when exporting, so the image looks like the
+ * canvas without depending on the stylesheet.
+ */
+
+export type ImageFormat = "svg" | "png";
+
+export const IMAGE_FORMAT_NAMES: Record<ImageFormat, string> = {
+  svg: "SVG",
+  png: "PNG",
+};
+
+export const IMAGE_SCALES = [1, 2, 3, 4];
+
+export interface ImageNode {
+  task: Task;
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+}
+
+export interface ImageGraph {
+  nodes: ImageNode[];
+  edges: DependencyEdge[];
+}
+
+export interface NodeColors {
+  fill: string;
+  stroke: string;
+  text: string;
+}
+
+export interface ImageTheme {
+  background: string;
+  edge: string;
+  mutedText: string;
+  fontFamily: string;
+  statuses: Record<TaskStatus, NodeColors>;
+}
+
+export interface SvgOptions {
+  scale: number;
+  direction: "Horizontal" | "Vertical";
+  padding?: number;
+}
+
+// Used when a CSS variable is not set (e.g. outside of Obsidian)
+export const DEFAULT_IMAGE_THEME: ImageTheme = {
+  background: "#ffffff",
+  edge: "#9ca3af",
+  mutedText: "#6b7280",
+  fontFamily: "sans-serif",
+  statuses: {
+    todo: { fill: "#f6f6f6", stroke: "#e0e0e0", text: "#222222" },
+    in_progress: { fill: "#77b4d3", stroke: "#086ddd", text: "#086ddd" },
+    done: { fill: "#6de27b", stroke: "#08b94e", text: "#08b94e" },
+    canceled: { fill: "#ff6b6b", stroke: "#e93147", text: "#e93147" },
+  },
+};
+
+const FONT_SIZE = 14;
+const SMALL_FONT_SIZE = 11;
+const LINE_HEIGHT = 18;
+const NODE_PADDING = 12;
+const MAX_SUMMARY_LINES = 3;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Break text into lines of at most `maxChars` characters (word-wise),
+ * ending the last line with … if the text doesn't fit
+ */
+export function wrapText(
+  text: string,
+  maxChars: number,
+  maxLines: number
+): string[] {
+  const lines: string[] = [];
+  let current = "";
+  const words = text.split(/\s+/).filter(Boolean);
+
+  for (let i = 0; i < words.length; i++) {
+    let word = words[i];
+    while (word.length > maxChars) {
+      // Break words longer than a line
+      if (current) {
+        lines.push(current);
+        current = "";
+      }
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+    }
+    if (!current) current = word;
+    else if (current.length + 1 + word.length <= maxChars) {
+      current += " " + word;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  const last = kept[maxLines - 1];
+  kept[maxLines - 1] =
+    (last.length >= maxChars ? last.slice(0, maxChars - 1) : last) + "…";
+  return kept;
+}
+
+/**
+ * Bounding box of the nodes, with padding
+ */
+export function getGraphBounds(
+  nodes: ImageNode[],
+  padding: number
+): { x: number; y: number; width: number; height: number } {
+  if (nodes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const minX = Math.min(...nodes.map((n) => n.position.x));
+  const minY = Math.min(...nodes.map((n) => n.position.y));
+  const maxX = Math.max(...nodes.map((n) => n.position.x + n.width));
+  const maxY = Math.max(...nodes.map((n) => n.position.y + n.height));
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2,
+  };
+}
+
+function renderEdge(
+  source: ImageNode,
+  target: ImageNode,
+  vertical: boolean
+): string {
+  const from = vertical
+    ? {
+        x: source.position.x + source.width / 2,
+        y: source.position.y + source.height,
+      }
+    : {
+        x: source.position.x + source.width,
+        y: source.position.y + source.height / 2,
+      };
+  const to = vertical
+    ? { x: target.position.x + target.width / 2, y: target.position.y }
+    : { x: target.position.x, y: target.position.y + target.height / 2 };
+  const offset = Math.max(
+    40,
+    Math.abs(vertical ? to.y - from.y : to.x - from.x) / 2
+  );
+  const c1 = vertical
+    ? `${from.x},${from.y + offset}`
+    : `${from.x + offset},${from.y}`;
+  const c2 = vertical ? `${to.x},${to.y - offset}` : `${to.x - offset},${to.y}`;
+  return `<path d="M${from.x},${from.y} C${c1} ${c2} ${to.x},${to.y}" fill="none" marker-end="url(#arrow)"/>`;
+}
+
+function renderNode(node: ImageNode, theme: ImageTheme): string {
+  const { task, position, width, height } = node;
+  const colors = theme.statuses[task.status] ?? theme.statuses.todo;
+  const maxChars = Math.max(
+    8,
+    Math.floor((width - NODE_PADDING * 2) / (FONT_SIZE * 0.55))
+  );
+  const summary = [task.priority, task.summary || task.text]
+    .filter(Boolean)
+    .join(" ");
+  const lines = wrapText(summary, maxChars, MAX_SUMMARY_LINES);
+  const x = position.x + NODE_PADDING;
+  let y = position.y + NODE_PADDING + FONT_SIZE;
+
+  const parts = [
+    `<g class="task task-${task.status}">`,
+    `<rect x="${position.x}" y="${position.y}" width="${width}" height="${height}" rx="8" fill="${escapeXml(colors.fill)}" stroke="${escapeXml(colors.stroke)}"/>`,
+  ];
+  lines.forEach((line) => {
+    parts.push(
+      `<text x="${x}" y="${y}" font-size="${FONT_SIZE}" fill="${escapeXml(colors.text)}">${escapeXml(line)}</text>`
+    );
+    y += LINE_HEIGHT;
+  });
+
+  const details = [
+    task.dueDate && `📅 ${task.dueDate}`,
+    ...task.tags.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`)),
+  ].filter(Boolean) as string[];
+  if (details.length > 0) {
+    const detailLine = wrapText(
+      details.join(" "),
+      Math.floor((width - NODE_PADDING * 2) / (SMALL_FONT_SIZE * 0.55)),
+      1
+    )[0];
+    parts.push(
+      `<text x="${x}" y="${position.y + height - NODE_PADDING}" font-size="${SMALL_FONT_SIZE}" fill="${escapeXml(theme.mutedText)}">${escapeXml(detailLine)}</text>`
+    );
+  }
+  parts.push("</g>");
+  return parts.join("");
+}
+
+/**
+ * Render the nodes and the edges between them as a standalone SVG document
+ */
+export function renderGraphSvg(
+  graph: ImageGraph,
+  theme: ImageTheme,
+  options: SvgOptions
+): { svg: string; width: number; height: number } {
+  const padding = options.padding ?? 24;
+  const bounds = getGraphBounds(graph.nodes, padding);
+  const width = Math.ceil(bounds.width * options.scale);
+  const height = Math.ceil(bounds.height * options.scale);
+  const vertical = options.direction === "Vertical";
+  const nodesById = new Map(graph.nodes.map((node) => [node.task.id, node]));
+
+  const edges = graph.edges
+    .map(({ source, target }) => {
+      const from = nodesById.get(source);
+      const to = nodesById.get(target);
+      return from && to ? renderEdge(from, to, vertical) : "";
+    })
+    .filter(Boolean);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}" font-family="${escapeXml(theme.fontFamily)}">`,
+    `<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${escapeXml(theme.edge)}"/></marker></defs>`,
+    `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${escapeXml(theme.background)}"/>`,
+    `<g stroke="${escapeXml(theme.edge)}" stroke-width="2">${edges.join("")}</g>`,
+    ...graph.nodes.map((node) => renderNode(node, theme)),
+    "</svg>",
+  ].join("\n");
+
+  return { svg: svg + "\n", width, height };
+}
+
+/**
+ * Resolve the theme colors from the CSS variables in effect for an element
+ */
+export function resolveImageTheme(element: HTMLElement): ImageTheme {
+  const style = getComputedStyle(element);
+  const resolve = (fallback: string, ...names: string[]) => {
+    for (const name of names) {
+      const value = style.getPropertyValue(name).trim();
+      if (value) return value;
+    }
+    return fallback;
+  };
+  const defaults = DEFAULT_IMAGE_THEME.statuses;
+
+  return {
+    background: resolve(DEFAULT_IMAGE_THEME.background, "--background-primary"),
+    edge: resolve(DEFAULT_IMAGE_THEME.edge, "--text-faint"),
+    mutedText: resolve(DEFAULT_IMAGE_THEME.mutedText, "--text-muted"),
+    fontFamily: style.fontFamily || DEFAULT_IMAGE_THEME.fontFamily,
+    statuses: {
+      todo: {
+        fill: resolve(defaults.todo.fill, "--background-secondary"),
+        stroke: resolve(defaults.todo.stroke, "--background-modifier-border"),
+        text: resolve(defaults.todo.text, "--text-normal"),
+      },
+      in_progress: {
+        fill: resolve(
+          defaults.in_progress.fill,
+          "--tasks-map-task-in-progress-blue"
+        ),
+        stroke: resolve(
+          defaults.in_progress.stroke,
+          "--tasks-map-color-blue",
+          "--color-blue"
+        ),
+        text: resolve(
+          defaults.in_progress.text,
+          "--tasks-map-color-blue",
+          "--color-blue"
+        ),
+      },
+      done: {
+        fill: resolve(defaults.done.fill, "--tasks-map-task-completed-green"),
+        stroke: resolve(
+          defaults.done.stroke,
+          "--tasks-map-color-green",
+          "--color-green"
+        ),
+        text: resolve(defaults.done.text, "--text-success"),
+      },
+      canceled: {
+        fill: resolve(defaults.canceled.fill, "--tasks-map-task-canceled-red"),
+        stroke: resolve(
+          defaults.canceled.stroke,
+          "--tasks-map-color-red",
+          "--color-red"
+        ),
+        text: resolve(defaults.canceled.text, "--text-error"),
+      },
+    },
+  };
+}
+
+/**
+ * Rasterize an SVG document to PNG data
+ */
+export async function svgToPng(
+  svg: string,
+  width: number,
+  height: number
+): Promise<ArrayBuffer> {
+  const url = URL.createObjectURL(
+    new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+  );
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Failed to render the map image"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas rendering is not available");
+    context.drawImage(image, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png")
+    );
+    if (!blob) throw new Error("Failed to encode the map image");
+    return await blob.arrayBuffer();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,320 @@
+import { DependencyEdge } from "./critical-path";
+
+/**
+ * Import of Mermaid flowcharts (`flowchart`/`graph` code blocks) as tasks:
+ * one task per node, one dependency per arrow (A --> B: B depends on A).
+ */
+
+export interface FlowchartNode {
+  id: string; // Mermaid node ID
+  label: string;
+}
+
+export interface Flowchart {
+  direction: "LR" | "RL" | "TB" | "BT";
+  nodes: FlowchartNode[]; // In order of first appearance
+  edges: DependencyEdge[];
+}
+
+const HEADER_PATTERN = /^(?:flowchart|graph)(?:\s+(LR|RL|TB|TD|BT))?\s*$/i;
+
+// Statements that don't declare nodes or arrows
+const IGNORED_STATEMENT_PATTERN =
+  /^(?:classDef|class|style|linkStyle|click|subgraph|end|direction)\b/;
+
+// Node shapes, longest delimiters first: A[[..]], A((..)), A([..]), A{{..}}, ...
+const NODE_SHAPES: [string, string][] = [
+  ["(((", ")))"],
+  ["[[", "]]"],
+  ["((", "))"],
+  ["([", "])"],
+  ["[(", ")]"],
+  ["{{", "}}"],
+  ["[/", "/]"],
+  ["[\\", "\\]"],
+  ["[/", "\\]"],
+  ["[\\", "/]"],
+  ["[", "]"],
+  ["(", ")"],
+  ["{", "}"],
+  [">", "]"],
+];
+
+// Links between nodes, with an optional |label|; only arrows (-->, ==>,
+// -.->, -- text -->) are dependencies
+const ARROW_PATTERN =
+  /\s*(?:<?--+>|<?==+>|<?-\.+->|--+\s[^-]*?\s--+>|==+\s[^=]*?\s==+>|-\.\s[^.]*?\s\.->|---+|===+|-\.+-)\s*(?:\|[^|]*\|)?\s*/;
+
+const NODE_ID_PATTERN = /^[A-Za-z0-9_]+/;
+
+/**
+ * Decode Mermaid entity codes (#quot; #35; ...) in labels
+ */
+export function decodeMermaidLabel(text: string): string {
+  const named: Record<string, string> = {
+    quot: '"',
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    nbsp: " ",
+  };
+  return text
+    .replace(/#(\d+|[a-z]+);/gi, (match, code: string) =>
+      /^\d+$/.test(code)
+        ? String.fromCharCode(parseInt(code, 10))
+        : (named[code.toLowerCase()] ?? match)
+    )
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parse one node reference (`A`, `A[Label]`, `A("Label"):::cls`) at the start
+ * of the text
+ * @returns The node and the remaining text, or null
+ */
+function parseNodeRef(
+  text: string
+): { id: string; label?: string; rest: string } | null {
+  const idMatch = text.match(NODE_ID_PATTERN);
+  if (!idMatch) return null;
+  const id = idMatch[0];
+  let rest = text.slice(id.length);
+  let label: string | undefined;
+
+  for (const [open, close] of NODE_SHAPES) {
+    if (!rest.startsWith(open)) continue;
+    const end = rest.indexOf(close, open.length);
+    if (end === -1) continue;
+    label = rest.slice(open.length, end).trim();
+    if (label.startsWith('"') && label.endsWith('"') && label.length >= 2) {
+      label = label.slice(1, -1);
+    }
+    rest = rest.slice(end + close.length);
+    break;
+  }
+
+  // Inline class (A:::important)
+  rest = rest.replace(/^:::[\w-]+/, "");
+  return {
+    id,
+    label: label === undefined ? undefined : decodeMermaidLabel(label),
+    rest,
+  };
+}
+
+/**
+ * Parse a group of nodes joined by `&` (A & B)
+ */
+function parseNodeGroup(
+  text: string
+): { nodes: { id: string; label?: string }[]; rest: string } | null {
+  const nodes: { id: string; label?: string }[] = [];
+  let rest = text;
+  for (;;) {
+    const node = parseNodeRef(rest.trimStart());
+    if (!node) return null;
+    nodes.push({ id: node.id, label: node.label });
+    rest = node.rest;
+    const more = rest.match(/^\s*&\s*/);
+    if (!more) return { nodes, rest };
+    rest = rest.slice(more[0].length);
+  }
+}
+
+/**
+ * Split into statements at line ends and at `;` outside of labels
+ */
+function splitStatements(source: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quoted = false;
+
+  for (const char of source) {
+    if (char === "\n") {
+      statements.push(current);
+      current = "";
+      depth = 0;
+      quoted = false;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && "[({".includes(char)) depth++;
+    else if (!quoted && "])}".includes(char)) depth = Math.max(0, depth - 1);
+    else if (char === ";" && !quoted && depth === 0) {
+      statements.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  statements.push(current);
+  return statements;
+}
+
+/**
+ * Parse a Mermaid flowchart. Returns null if the source isn't a flowchart.
+ */
+export function parseMermaidFlowchart(source: string): Flowchart | null {
+  const statements = splitStatements(source)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("%%"));
+
+  const header = statements.shift()?.match(HEADER_PATTERN);
+  if (!header) return null;
+  const rawDirection = (header[1] || "TB").toUpperCase();
+  const direction = (
+    rawDirection === "TD" ? "TB" : rawDirection
+  ) as Flowchart["direction"];
+
+  const nodes = new Map<string, FlowchartNode>();
+  const edges: DependencyEdge[] = [];
+  const addNode = ({ id, label }: { id: string; label?: string }) => {
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, { id, label: label || id });
+    } else if (label) {
+      existing.label = label;
+    }
+  };
+
+  statements.forEach((statement) => {
+    if (IGNORED_STATEMENT_PATTERN.test(statement)) return;
+
+    let group = parseNodeGroup(statement);
+    if (!group) return;
+    group.nodes.forEach(addNode);
+
+    // Chains: A --> B --> C
+    while (group) {
+      const arrow = group.rest.match(ARROW_PATTERN);
+      if (!arrow || arrow.index !== 0) return;
+      const next = parseNodeGroup(group.rest.slice(arrow[0].length));
+      if (!next) return;
+      next.nodes.forEach(addNode);
+
+      // Only directed arrows are dependencies; <--> goes both ways and
+      // plain links (---) carry no order
+      const symbol = arrow[0].replace(/\|[^|]*\|/, "").trim();
+      if (symbol.endsWith(">") && !symbol.startsWith("<")) {
+        group.nodes.forEach((from) =>
+          next.nodes.forEach((to) => {
+            if (
+              !edges.some((e) => e.source === from.id && e.target === to.id)
+            ) {
+              edges.push({ source: from.id, target: to.id });
+            }
+          })
+        );
+      }
+      group = next;
+    }
+  });
+
+  return { direction, nodes: Array.from(nodes.values()), edges };
+}
+
+/**
+ * The mermaid code blocks of a note, with their first content line
+ */
+export function extractMermaidBlocks(
+  markdown: string
+): { source: string; startLine: number; endLine: number }[] {
+  const blocks: { source: string; startLine: number; endLine: number }[] = [];
+  const lines = markdown.split(/\r?\n/);
+  let start = -1;
+  let fence = "";
+
+  lines.forEach((line, i) => {
+    if (start === -1) {
+      const open = line.match(/^\s*(```+|~~~+)\s*mermaid\s*$/);
+      if (open) {
+        start = i + 1;
+        fence = open[1];
+      }
+    } else if (line.trim().startsWith(fence) && /^(`+|~+)$/.test(line.trim())) {
+      blocks.push({
+        source: lines.slice(start, i).join("\n"),
+        startLine: start,
+        endLine: i - 1,
+      });
+      start = -1;
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Initial canvas positions in Mermaid order: nodes are ranked by their
+ * longest chain of dependencies, and keep their order of appearance within
+ * a rank. Cycles fall back to the order of appearance.
+ */
+export function layoutFlowchart(
+  flowchart: Flowchart,
+  options: {
+    vertical: boolean;
+    nodeWidth: number;
+    nodeHeight: number;
+    gap: number;
+  }
+): Map<string, { x: number; y: number }> {
+  const rank = new Map<string, number>();
+  const order = flowchart.nodes.map((node) => node.id);
+  order.forEach((id) => rank.set(id, 0));
+
+  // Longest path ranks; bounded passes so cycles terminate
+  for (let pass = 0; pass < order.length; pass++) {
+    let changed = false;
+    flowchart.edges.forEach(({ source, target }) => {
+      const next = (rank.get(source) ?? 0) + 1;
+      if (next > (rank.get(target) ?? 0) && next < order.length) {
+        rank.set(target, next);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  const slots = new Map<number, number>();
+  const positions = new Map<string, { x: number; y: number }>();
+  const { vertical, nodeWidth, nodeHeight, gap } = options;
+  order.forEach((id) => {
+    const r = rank.get(id) ?? 0;
+    const slot = slots.get(r) ?? 0;
+    slots.set(r, slot + 1);
+    positions.set(
+      id,
+      vertical
+        ? { x: slot * (nodeWidth + gap), y: r * (nodeHeight + gap * 2) }
+        : { x: r * (nodeWidth + gap * 2), y: slot * (nodeHeight + gap) }
+    );
+  });
+  return positions;
+}
+
+/**
+ * The task line for an imported node, with its ID and the IDs of the tasks
+ * it depends on in the configured format. Like the links drawn on the
+ * canvas, the Dataview style uses `[[id::]]` and `[[dependsOn::]]` fields
+ * instead of 🆔 and ⛔.
+ */
+export function formatImportedTaskLine(
+  label: string,
+  id: string,
+  dependsOn: string[],
+  linkingStyle: "individual" | "csv" | "dataview"
+): string {
+  const signs = linkingStyle === "dataview" ? [`[[id:: ${id}]]`] : [`🆔 ${id}`];
+  if (dependsOn.length > 0) {
+    if (linkingStyle === "dataview") {
+      signs.push(`[[dependsOn:: ${dependsOn.join(", ")}]]`);
+    } else if (linkingStyle === "csv") {
+      signs.push(`⛔ ${dependsOn.join(",")}`);
+    } else {
+      signs.push(...dependsOn.map((dependency) => `⛔ ${dependency}`));
+    }
+  }
+  return `- [ ] ${label} ${signs.join(" ")}`;
+}
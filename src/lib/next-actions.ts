@@ -0,0 +1,56 @@
+import { Task } from "src/types/task";
+
+/**
+ * Next actions: open tasks whose dependencies are all finished, i.e. what can
+ * be worked on right now.
+ */
+
+// Obsidian Tasks priority emoji from highest to lowest; "" is normal priority
+export const PRIORITY_ORDER = ["🔺", "⏫", "🔼", "", "🔽", "⏬"];
+
+export function getPriorityRank(priority: string): number {
+  const rank = PRIORITY_ORDER.indexOf(priority);
+  return rank === -1 ? PRIORITY_ORDER.indexOf("") : rank;
+}
+
+function isFinished(task: Task): boolean {
+  return task.status === "done" || task.status === "canceled";
+}
+
+/**
+ * Whether a task still waits for one of its dependencies. Dependencies that
+ * are not in the index (deleted tasks, stale IDs) don't block.
+ */
+export function isBlocked(task: Task, tasksById: Map<string, Task>): boolean {
+  return task.incomingLinks.some((id) => {
+    const dependency = tasksById.get(id);
+    return dependency !== undefined && !isFinished(dependency);
+  });
+}
+
+/**
+ * Open (todo or in progress) tasks without unfinished dependencies, sorted
+ * by priority, then due date (undated last), then summary
+ */
+export function getNextActions(tasks: Task[]): Task[] {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+  return tasks
+    .filter(
+      (task) =>
+        (task.status === "todo" || task.status === "in_progress") &&
+        !isBlocked(task, tasksById)
+    )
+    .sort((a, b) => {
+      const byPriority =
+        getPriorityRank(a.priority) - getPriorityRank(b.priority);
+      if (byPriority !== 0) return byPriority;
+
+      if (a.dueDate !== b.dueDate) {
+        if (!a.dueDate) return 1;
+        if (!b.dueDate) return -1;
+        return a.dueDate < b.dueDate ? -1 : 1;
+      }
+      return (a.summary || a.text).localeCompare(b.summary || b.text);
+    });
+}
@@ -0,0 +1,218 @@
+import { TaskFactory } from "./task-factory";
+import {
+  addDays,
+  daysBetween,
+  formatDate,
+  updateTaskLineDates,
+} from "./task-dates";
+import { generateTaskId } from "./task-identity";
+import {
+  RECURRENCE_PATTERN,
+  EMOJI_ID_PATTERN,
+  DATAVIEW_ID_PATTERN,
+} from "./task-regex";
+
+/**
+ * Recurrence rules (🔁) in the Tasks plugin format, e.g. "every week",
+ * "every 2 days", "every week on Monday, Friday", "every month on the 1st",
+ * "every month on the last", "every year", with an optional "when done".
+ */
+
+export type RecurrenceUnit = "day" | "week" | "month" | "year";
+
+export interface RecurrenceRule {
+  interval: number;
+  unit: RecurrenceUnit;
+  weekdays?: number[]; // 0 = Sunday ... 6 = Saturday
+  monthDay?: number; // 1-31, or -1 for the last day of the month
+  whenDone: boolean;
+}
+
+export interface NextOccurrence {
+  line: string;
+  id: string;
+}
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const RULE_PATTERN =
+  /^every\s+(?:(\d+)\s+)?(day|week|month|year)s?(?:\s+on\s+(.+))?$/;
+
+// Full names or 3-letter abbreviations, optionally plural ("mondays")
+function parseWeekday(text: string): number {
+  const day = text.replace(/s$/, "");
+  return WEEKDAYS.findIndex((name) => day === name || day === name.slice(0, 3));
+}
+
+function parseWeekdays(text: string): number[] | null {
+  const days = text
+    .split(/\s*(?:,|\band\b)\s*/)
+    .filter(Boolean)
+    .map(parseWeekday);
+  if (days.length === 0 || days.some((day) => day === -1)) return null;
+  return [...new Set(days)].sort();
+}
+
+function parseMonthDay(text: string): number | null {
+  if (/^(?:the\s+)?last(?:\s+day)?$/.test(text)) return -1;
+  const match = text.match(/^(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (!match) return null;
+  const day = parseInt(match[1], 10);
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+/**
+ * Parse the rule text after 🔁 ("every month on the 1st when done")
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule | null {
+  let rule = text.trim().toLowerCase().replace(/\s+/g, " ");
+  const whenDone = / when done$/.test(rule);
+  if (whenDone) rule = rule.replace(/ when done$/, "");
+
+  if (rule === "every weekday") {
+    return { interval: 1, unit: "week", weekdays: [1, 2, 3, 4, 5], whenDone };
+  }
+
+  const match = rule.match(RULE_PATTERN);
+  if (!match) return null;
+
+  const interval = match[1] ? parseInt(match[1], 10) : 1;
+  if (interval < 1) return null;
+  const unit = match[2] as RecurrenceUnit;
+  const on = match[3];
+  if (!on) return { interval, unit, whenDone };
+
+  if (unit === "week") {
+    const weekdays = parseWeekdays(on);
+    return weekdays ? { interval, unit, weekdays, whenDone } : null;
+  }
+  if (unit === "month") {
+    const monthDay = parseMonthDay(on);
+    return monthDay !== null ? { interval, unit, monthDay, whenDone } : null;
+  }
+  return null;
+}
+
+/**
+ * Get the recurrence rule of a task line, if it has a valid 🔁 rule
+ */
+export function getRecurrenceRule(text: string): RecurrenceRule | null {
+  const match = text.match(RECURRENCE_PATTERN);
+  return match ? parseRecurrenceRule(match[1]) : null;
+}
+
+function toDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// Day in the given month, clamped to its length (-1 = last day)
+function dayInMonth(year: number, month: number, day: number): Date {
+  const lastDay = daysInMonth(year, month);
+  return new Date(year, month, day === -1 ? lastDay : Math.min(day, lastDay));
+}
+
+/**
+ * Get the first date after `date` (YYYY-MM-DD) that matches the rule
+ */
+export function getNextDate(date: string, rule: RecurrenceRule): string {
+  const base = toDate(date);
+  const year = base.getFullYear();
+  const month = base.getMonth();
+
+  switch (rule.unit) {
+    case "day":
+      return addDays(date, rule.interval);
+
+    case "week": {
+      if (!rule.weekdays) return addDays(date, 7 * rule.interval);
+      // A later matching day in the same week (weeks start on Monday)
+      const weekday = (base.getDay() + 6) % 7;
+      const mondayBased = rule.weekdays.map((day) => (day + 6) % 7);
+      const laterThisWeek = mondayBased.find((day) => day > weekday);
+      if (laterThisWeek !== undefined) {
+        return addDays(date, laterThisWeek - weekday);
+      }
+      // Otherwise the first matching day `interval` weeks later
+      const monday = addDays(date, -weekday + 7 * rule.interval);
+      return addDays(monday, Math.min(...mondayBased));
+    }
+
+    case "month": {
+      if (rule.monthDay === undefined) {
+        return formatDate(
+          dayInMonth(year, month + rule.interval, base.getDate())
+        );
+      }
+      const thisMonth = dayInMonth(year, month, rule.monthDay);
+      if (thisMonth > base) return formatDate(thisMonth);
+      return formatDate(dayInMonth(year, month + rule.interval, rule.monthDay));
+    }
+
+    case "year":
+      return formatDate(
+        dayInMonth(year + rule.interval, month, base.getDate())
+      );
+  }
+}
+
+/**
+ * Build the next instance of a recurring task line: status reset, start,
+ * scheduled and due dates shifted, done/cancelled dates removed and a fresh
+ * ID. Returns null if the line has no valid recurrence rule.
+ */
+export function createNextOccurrence(
+  line: string,
+  today: string = formatDate(new Date())
+): NextOccurrence | null {
+  const statusMatch = line.match(/^(\s*- \[)(.)(\]\s*)(.*)$/);
+  if (!statusMatch) return null;
+  const [, prefix, , separator, text] = statusMatch;
+
+  const rule = getRecurrenceRule(text);
+  if (!rule) return null;
+
+  const dates = new TaskFactory().parse({
+    status: " ",
+    text,
+    link: { path: "" },
+  });
+  const reference = dates.dueDate ?? dates.scheduledDate ?? dates.startDate;
+
+  // "when done" recurs from the completion date, otherwise from the
+  // reference date. Other dates keep their offset to the reference date.
+  let shift = 0;
+  if (reference) {
+    const next = getNextDate(rule.whenDone ? today : reference, rule);
+    shift = daysBetween(reference, next);
+  }
+
+  let nextText = updateTaskLineDates(text, (field, date) => {
+    if (field === "doneDate" || field === "cancelledDate") return null;
+    if (field === "createdDate") return today;
+    return addDays(date, shift);
+  });
+
+  const id = generateTaskId();
+  if (EMOJI_ID_PATTERN.test(nextText)) {
+    nextText = nextText.replace(EMOJI_ID_PATTERN, `🆔 ${id}`);
+  } else if (DATAVIEW_ID_PATTERN.test(nextText)) {
+    nextText = nextText.replace(DATAVIEW_ID_PATTERN, `[[id:: ${id}]]`);
+  } else {
+    nextText = `${nextText} 🆔 ${id}`;
+  }
+
+  return { line: `${prefix} ${separator}${nextText}`, id };
+}
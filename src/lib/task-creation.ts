@@ -0,0 +1,206 @@
+import { App, normalizePath } from "obsidian";
+import { Task } from "src/types/task";
+import { TasksMapSettings } from "src/types/settings";
+import { TaskFactory } from "./task-factory";
+import { generateTaskId } from "./task-identity";
+import { TASK_LINE_PREFIX } from "./task-regex";
+import { normalizeNotePriority, toNotePriority } from "./utils";
+
+/**
+ * Tasks created from the canvas: a `- [ ]` line appended to a note (the
+ * inbox by default), or a note task of its own
+ */
+
+export type NewTaskType = "line" | "note";
+
+export interface NewTaskInput {
+  summary: string;
+  tags: string[]; // Without the leading #
+  priority: string; // Tasks plugin emoji, "" for normal
+  type: NewTaskType;
+  target: string; // Note to append the line to, or folder of the note task
+}
+
+type LinkingStyle = TasksMapSettings["linkingStyle"];
+
+type NewTaskSettings = Pick<
+  TasksMapSettings,
+  "newTaskType" | "inboxFile" | "noteTaskFolder" | "dependentTaskLocation"
+>;
+
+/**
+ * Type and target of a task that depends on `source`: a line in the same
+ * note, or a note task in the same folder, unless the settings say to use
+ * the default location
+ */
+export function getDependentTaskDefaults(
+  source: Task,
+  settings: NewTaskSettings
+): { type: NewTaskType; targets: Record<NewTaskType, string> } {
+  const targets = { line: settings.inboxFile, note: settings.noteTaskFolder };
+  if (settings.dependentTaskLocation === "default" || !source.link) {
+    return { type: settings.newTaskType, targets };
+  }
+  if (source.type === "note") {
+    const folder = source.link.split("/").slice(0, -1).join("/");
+    return { type: "note", targets: { ...targets, note: folder } };
+  }
+  return { type: "line", targets: { ...targets, line: source.link } };
+}
+
+/**
+ * Tags typed as "#work, home #errand" without the #, duplicates and empty
+ * entries
+ */
+export function parseTagInput(text: string): string[] {
+  const tags = text
+    .split(/[\s,]+/)
+    .map((tag) => tag.replace(/^#+/, ""))
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * The markdown line of a new task, with a stable ID so it can be placed on
+ * the canvas right away
+ */
+export function formatTaskLine(
+  input: Pick<NewTaskInput, "summary" | "tags" | "priority">,
+  id: string,
+  linkingStyle: LinkingStyle
+): string {
+  const parts = [
+    "- [ ]",
+    input.summary.trim(),
+    ...input.tags.map((tag) => `#${tag}`),
+  ];
+  if (input.priority) parts.push(input.priority);
+  parts.push(linkingStyle === "dataview" ? `[[id:: ${id}]]` : `🆔 ${id}`);
+  return parts.join(" ");
+}
+
+/**
+ * Append a line to the end of a note, after its last non-empty line
+ */
+export function appendLine(
+  content: string,
+  line: string
+): { content: string; line: number } {
+  const lines = content.replace(/\s+$/, "").split("\n");
+  if (lines.length === 1 && lines[0] === "") {
+    return { content: `${line}\n`, line: 0 };
+  }
+  return { content: `${lines.join("\n")}\n${line}\n`, line: lines.length };
+}
+
+// Note tasks are recognized by their `task` tag
+function getNoteTaskTags(tags: string[]): string[] {
+  return ["task", ...tags.filter((tag) => tag !== "task")];
+}
+
+/**
+ * Frontmatter of a new note task
+ */
+export function formatNoteTask(
+  input: Pick<NewTaskInput, "tags" | "priority">
+): string {
+  const lines = [
+    "---",
+    "tags:",
+    ...getNoteTaskTags(input.tags).map((tag) => `  - ${tag}`),
+    "status: open",
+  ];
+  if (input.priority) {
+    lines.push(`priority: ${toNotePriority(input.priority)}`);
+  }
+  lines.push("---", "");
+  return lines.join("\n");
+}
+
+/**
+ * A free path for a note task named after its summary
+ */
+export function getNoteTaskPath(
+  folder: string,
+  summary: string,
+  exists: (path: string) => boolean // eslint-disable-line no-unused-vars
+): string {
+  const name =
+    summary
+      .replace(/[\\/:*?"<>|#^[\]]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 100)
+      .trim() || "Untitled task";
+  const prefix = folder.replace(/^\/+|\/+$/g, "");
+  const pathFor = (suffix: string) =>
+    `${prefix ? `${prefix}/` : ""}${name}${suffix}.md`;
+
+  let path = pathFor("");
+  for (let i = 2; exists(path); i++) path = pathFor(` ${i}`);
+  return path;
+}
+
+async function ensureFolder(app: App, path: string) {
+  const folder = path.split("/").slice(0, -1).join("/");
+  if (folder && !app.vault.getAbstractFileByPath(folder)) {
+    await app.vault.createFolder(folder);
+  }
+}
+
+/**
+ * Write a new task to the vault
+ * @returns The task as it will be indexed, to place it on the canvas
+ */
+export async function createTaskInVault(
+  input: NewTaskInput,
+  app: App,
+  linkingStyle: LinkingStyle
+): Promise<Task> {
+  const factory = new TaskFactory();
+
+  if (input.type === "note") {
+    const path = getNoteTaskPath(
+      normalizePath(input.target || "/"),
+      input.summary,
+      (candidate) => !!app.vault.getAbstractFileByPath(candidate)
+    );
+    await ensureFolder(app, path);
+    const file = await app.vault.create(path, formatNoteTask(input));
+    const task = factory.parse(
+      { status: " ", text: file.basename, link: { path } },
+      "note"
+    );
+    return {
+      ...task,
+      id: path,
+      tags: getNoteTaskTags(input.tags),
+      priority: normalizeNotePriority(toNotePriority(input.priority)),
+    };
+  }
+
+  const id = generateTaskId();
+  const taskLine = formatTaskLine(input, id, linkingStyle);
+  const path = normalizePath(
+    /\.md$/i.test(input.target) ? input.target : `${input.target}.md`
+  );
+  const existing = app.vault.getFileByPath(path);
+  let line = 0;
+  if (existing) {
+    await app.vault.process(existing, (content) => {
+      const result = appendLine(content, taskLine);
+      line = result.line;
+      return result.content;
+    });
+  } else {
+    await ensureFolder(app, path);
+    await app.vault.create(path, `${taskLine}\n`);
+  }
+
+  const task = factory.parse({
+    status: " ",
+    text: taskLine.replace(TASK_LINE_PREFIX, ""),
+    link: { path },
+  });
+  return { ...task, id, line };
+}
@@ -0,0 +1,123 @@
+import { Task, TaskDates } from "src/types/task";
+import {
+  DUE_DATE_PATTERN,
+  SCHEDULED_DATE_PATTERN,
+  START_DATE_PATTERN,
+  CREATED_DATE_PATTERN,
+  DONE_DATE_PATTERN,
+  CANCELLED_DATE_PATTERN,
+  DATAVIEW_DATE_PATTERN_GLOBAL,
+} from "./task-regex";
+
+export type DueState = "overdue" | "today" | "upcoming";
+
+// Open tasks due within this many days are shown as upcoming
+export const UPCOMING_DAYS = 7;
+
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+
+// Task date field -> Tasks plugin emoji pattern
+export const DATE_FIELD_PATTERNS: [keyof TaskDates, RegExp][] = [
+  ["dueDate", DUE_DATE_PATTERN],
+  ["scheduledDate", SCHEDULED_DATE_PATTERN],
+  ["startDate", START_DATE_PATTERN],
+  ["createdDate", CREATED_DATE_PATTERN],
+  ["doneDate", DONE_DATE_PATTERN],
+  ["cancelledDate", CANCELLED_DATE_PATTERN],
+];
+
+// Dataview inline field name -> Task date field
+export const DATAVIEW_DATE_FIELDS: Record<string, keyof TaskDates> = {
+  due: "dueDate",
+  scheduled: "scheduledDate",
+  start: "startDate",
+  created: "createdDate",
+  completion: "doneDate",
+  cancelled: "cancelledDate",
+};
+
+/**
+ * Format a Date as YYYY-MM-DD in local time
+ */
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add (or subtract) days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatDate(new Date(year, month - 1, day + days));
+}
+
+/**
+ * Normalize a frontmatter date value (string, Date or datetime) to YYYY-MM-DD
+ */
+export function parseDateValue(value: unknown): string | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : formatDate(value);
+  }
+  if (typeof value !== "string") return undefined;
+  return value.trim().match(DATE_PATTERN)?.[1];
+}
+
+/**
+ * Classify an open task by its due date (or scheduled date if it has none)
+ */
+export function getDueState(
+  task: Pick<Task, "status" | "dueDate" | "scheduledDate">,
+  today: string = formatDate(new Date())
+): DueState | undefined {
+  if (task.status === "done" || task.status === "canceled") return undefined;
+
+  const date = task.dueDate ?? task.scheduledDate;
+  if (!date) return undefined;
+
+  // YYYY-MM-DD strings compare chronologically
+  if (date < today) return "overdue";
+  if (date === today) return "today";
+  if (date <= addDays(today, UPCOMING_DAYS)) return "upcoming";
+  return undefined;
+}
+
+/**
+ * Days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split("-").map(Number);
+  const [toYear, toMonth, toDay] = to.split("-").map(Number);
+  const diff =
+    Date.UTC(toYear, toMonth - 1, toDay) -
+    Date.UTC(fromYear, fromMonth - 1, fromDay);
+  return Math.round(diff / 86400000);
+}
+
+/**
+ * Rewrite the dates of a task line (emoji and Dataview formats).
+ * Return null from `update` to remove a date.
+ */
+export function updateTaskLineDates(
+  text: string,
+  update: (field: keyof TaskDates, date: string) => string | null // eslint-disable-line no-unused-vars
+): string {
+  let result = text;
+
+  DATE_FIELD_PATTERNS.forEach(([field, pattern]) => {
+    const globalPattern = new RegExp(`\\s*${pattern.source}`, "gu");
+    result = result.replace(globalPattern, (match, date: string) => {
+      const next = update(field, date);
+      return next === null ? "" : match.replace(date, next);
+    });
+  });
+
+  return result.replace(
+    new RegExp(`\\s*${DATAVIEW_DATE_PATTERN_GLOBAL.source}`, "gi"),
+    (match, name: string, date: string) => {
+      const next = update(DATAVIEW_DATE_FIELDS[name.toLowerCase()], date);
+      return next === null ? "" : match.replace(date, next);
+    }
+  );
+}
@@ -1,4 +1,4 @@
-import { Task, TaskStatus, RawTask } from "src/types/task";
+import { Task, TaskStatus, RawTask, TaskDates } from "src/types/task";
 
 import {
   EMOJI_ID_PATTERN,
@@ -12,7 +12,15 @@ import {
   DATAVIEW_DEPENDS_PATTERN,
   STAR_PATTERN,
   STAR_PATTERN_GLOBAL,
+  EMOJI_DATE_PATTERN_GLOBAL,
+  DATAVIEW_DATE_PATTERN_GLOBAL,
+  RECURRENCE_PATTERN,
+  RECURRENCE_PATTERN_GLOBAL,
+  ESTIMATE_PATTERN,
+  ESTIMATE_PATTERN_GLOBAL,
 } from "./task-regex";
+import { DATE_FIELD_PATTERNS, DATAVIEW_DATE_FIELDS } from "./task-dates";
+import { parseEstimate } from "./critical-path";
 
 export class TaskFactory {
   public parse(rawTask: RawTask, type: "dataview" | "note" = "dataview"): Task {
@@ -30,6 +38,9 @@ export class TaskFactory {
       link: rawTask.link.path,
       incomingLinks: this.parseIncomingLinks(text),
       starred: this.parseStarred(text),
+      ...this.parseDates(text),
+      ...this.parseRecurrence(text),
+      ...this.parseEstimate(text),
     };
   }
 
@@ -78,6 +89,34 @@ export class TaskFactory {
     return STAR_PATTERN.test(text);
   }
 
+  private parseDates(text: string): TaskDates {
+    const dates: TaskDates = {};
+
+    for (const [field, pattern] of DATE_FIELD_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) dates[field] = match[1];
+    }
+
+    // Dataview inline fields: [due:: 2024-01-31]
+    for (const match of text.matchAll(DATAVIEW_DATE_PATTERN_GLOBAL)) {
+      const field = DATAVIEW_DATE_FIELDS[match[1].toLowerCase()];
+      if (!dates[field]) dates[field] = match[2];
+    }
+
+    return dates;
+  }
+
+  private parseRecurrence(text: string): Pick<Task, "recurrence"> {
+    const match = text.match(RECURRENCE_PATTERN);
+    return match ? { recurrence: match[1].trim() } : {};
+  }
+
+  private parseEstimate(text: string): Pick<Task, "estimate"> {
+    const match = text.match(ESTIMATE_PATTERN);
+    const estimate = match ? parseEstimate(match[1]) : undefined;
+    return estimate !== undefined ? { estimate } : {};
+  }
+
   private parseTags(text: string): string[] {
     // Tag must be preceded by whitespace or line start, and is any non-whitespace after #
     const tags = Array.from(text.matchAll(TAG_PATTERN)).map((m) => m[1]);
@@ -158,6 +197,10 @@ export class TaskFactory {
       .replace(INDIVIDUAL_LINKS_PATTERN, "") // Remove individual links: ⛔ abc123
       .replace(DATAVIEW_DEPENDS_PATTERN, "") // Remove Dataview dependencies: [[dependsOn:: abc123,def456]]
       .replace(STAR_PATTERN_GLOBAL, "") // Remove star emoji: ⭐
+      .replace(EMOJI_DATE_PATTERN_GLOBAL, "") // Remove dates: 📅 2024-01-31
+      .replace(DATAVIEW_DATE_PATTERN_GLOBAL, "") // Remove Dataview dates: [due:: 2024-01-31]
+      .replace(RECURRENCE_PATTERN_GLOBAL, "") // Remove recurrence: 🔁 every week
+      .replace(ESTIMATE_PATTERN_GLOBAL, "") // Remove estimates: [estimate:: 3h]
       .replace(/([\p{Extended_Pictographic}]+(\s*[#a-zA-Z0-9_-]+)?)/gu, "") // Remove other emojis
       .replace(/([\p{Extended_Pictographic}]+)/gu, "") // Remove remaining emojis
       .trim();
@@ -0,0 +1,199 @@
+import { Task } from "src/types/task";
+import { GraphData } from "src/types/settings";
+import { EMOJI_ID_PATTERN, DATAVIEW_ID_PATTERN } from "./task-regex";
+
+/**
+ * Stable task identity
+ *
+ * - Line tasks with a 🆔 or [[id:: ]] use that ID.
+ * - Note tasks use their file path (renames are followed through the index).
+ * - Other line tasks temporarily use `path:line` until they get an ID
+ *   assigned (on first placement on the canvas).
+ * - If a key can't be found anymore, nodes are matched by content fingerprint.
+ */
+
+const LOCATION_ID_PATTERN = /^(.+):(\d+)$/;
+
+/**
+ * Generate a short random ID (6 characters)
+ */
+export function generateTaskId(): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  let result = "";
+  for (let i = 0; i < 6; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+/**
+ * Extract an existing 🆔 or [[id:: ]] from the task text
+ */
+export function getExplicitTaskId(text: string): string | undefined {
+  const emojiMatch = text.match(EMOJI_ID_PATTERN);
+  if (emojiMatch) return emojiMatch[1];
+
+  const dataviewMatch = text.match(DATAVIEW_ID_PATTERN);
+  if (dataviewMatch) return dataviewMatch[1];
+
+  return undefined;
+}
+
+/**
+ * Parse a temporary `path:line` ID
+ */
+export function parseLocationId(
+  id: string
+): { path: string; line: number } | null {
+  const match = id.match(LOCATION_ID_PATTERN);
+  if (!match) return null;
+  return { path: match[1], line: parseInt(match[2], 10) };
+}
+
+/**
+ * Whether the task's ID survives line insertions (and, for notes, renames)
+ */
+export function hasStableId(task: Task): boolean {
+  return task.type === "note" || getExplicitTaskId(task.text) !== undefined;
+}
+
+/**
+ * Get the ID to use when linking from this task. Returns undefined if the
+ * task has no ID yet and one must be generated.
+ */
+export function getLinkingId(task: Task): string | undefined {
+  if (task.type === "note") return task.id;
+  return getExplicitTaskId(task.text);
+}
+
+/**
+ * Content fingerprint used as a fallback when a task's key changed
+ */
+export function getTaskFingerprint(task: Pick<Task, "summary">): string {
+  return task.summary.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+interface KeyedNode {
+  id: string;
+  task?: Task;
+}
+
+/**
+ * Match canvas nodes to the current tasks. Tries the node key first, then
+ * the content fingerprint in the same file (closest line wins), then a
+ * unique fingerprint match anywhere in the vault.
+ * @returns Map from node ID to the matched task (task.id is the new key)
+ */
+export function resolveNodeKeys(
+  nodes: KeyedNode[],
+  tasks: Task[]
+): Map<string, Task> {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const tasksByFingerprint = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    const fingerprint = getTaskFingerprint(task);
+    if (!fingerprint) return;
+    const list = tasksByFingerprint.get(fingerprint) || [];
+    list.push(task);
+    tasksByFingerprint.set(fingerprint, list);
+  });
+
+  const result = new Map<string, Task>();
+  const claimed = new Set<string>();
+
+  // Exact key matches first, so fingerprint matches can't steal them.
+  // A path:line key only matches if the line still holds the same task.
+  nodes.forEach((node) => {
+    const task = tasksById.get(node.id);
+    const lineChanged =
+      task &&
+      node.task &&
+      parseLocationId(node.id) &&
+      getTaskFingerprint(task) !== getTaskFingerprint(node.task);
+    if (task && !lineChanged) {
+      result.set(node.id, task);
+      claimed.add(task.id);
+    }
+  });
+
+  nodes.forEach((node) => {
+    if (result.has(node.id) || !node.task) return;
+
+    const candidates = (
+      tasksByFingerprint.get(getTaskFingerprint(node.task)) || []
+    ).filter((task) => !claimed.has(task.id));
+    if (candidates.length === 0) return;
+
+    const location = parseLocationId(node.id);
+    const previousPath = location?.path ?? node.task.link;
+    const previousLine = location?.line ?? node.task.line ?? 0;
+    const sameFile = candidates
+      .filter((task) => task.link === previousPath)
+      .sort(
+        (a, b) =>
+          Math.abs((a.line ?? 0) - previousLine) -
+          Math.abs((b.line ?? 0) - previousLine)
+      );
+
+    const match =
+      sameFile[0] || (candidates.length === 1 ? candidates[0] : undefined);
+    if (match) {
+      result.set(node.id, match);
+      claimed.add(match.id);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Re-key node IDs after a file rename (note paths and `path:line` IDs)
+ */
+export function renameLocationKey(
+  id: string,
+  oldPath: string,
+  newPath: string
+): string {
+  if (id === oldPath) return newPath;
+  if (id.startsWith(oldPath + ":") && parseLocationId(id)) {
+    return newPath + id.slice(oldPath.length);
+  }
+  return id;
+}
+
+/**
+ * Migrate saved graph data onto the current task keys
+ */
+export function migrateGraphData(data: GraphData, tasks: Task[]): GraphData {
+  const matches = resolveNodeKeys(
+    data.nodes.map((node) => ({
+      id: node.id,
+      task: node.taskData as Task | undefined,
+    })),
+    tasks
+  );
+  if (matches.size === 0) return data;
+
+  const newIds = new Map<string, string>();
+  const nodes = data.nodes.map((node) => {
+    const task = matches.get(node.id);
+    if (!task || task.id === node.id) return node;
+    newIds.set(node.id, task.id);
+    return {
+      ...node,
+      id: task.id,
+      taskId: task.id,
+      taskData: node.taskData && { ...node.taskData, ...task },
+    };
+  });
+  if (newIds.size === 0) return data;
+
+  const edges = data.edges.map((edge) => {
+    const source = newIds.get(edge.source) ?? edge.source;
+    const target = newIds.get(edge.target) ?? edge.target;
+    if (source === edge.source && target === edge.target) return edge;
+    return { ...edge, id: `${source}-${target}`, source, target };
+  });
+
+  return { ...data, nodes, edges };
+}
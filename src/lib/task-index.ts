@@ -0,0 +1,209 @@
+import { App, CachedMetadata, EventRef, Events, TFile } from "obsidian";
+import { Task } from "src/types/task";
+import {
+  TaskSourceSettings,
+  getTaskSourceFiles,
+  isTaskSourcePath,
+  parseTaskSourceFile,
+} from "./task-sources";
+
+export type TaskIndexChange =
+  | { type: "rebuilt"; tasks: Task[] }
+  | { type: "file-updated"; path: string; tasks: Task[]; previous: Task[] }
+  | { type: "file-removed"; path: string; previous: Task[] }
+  | { type: "file-renamed"; oldPath: string; path: string; tasks: Task[] };
+
+/**
+ * Single source of truth for the tasks shown in the sidebar and on the canvas.
+ * The index is built once from the metadata cache and then kept up to date
+ * file by file, emitting a "changed" event for every update.
+ */
+export class TaskIndex extends Events {
+  private app: App;
+  private getSettings: () => TaskSourceSettings;
+  private tasksByFile = new Map<string, Task[]>();
+  private ready = false;
+  private rebuilding = false;
+  // Bumped by every update of a file, so that an update finishing after a
+  // newer one, or a rebuild started before it, doesn't overwrite it
+  private fileVersions = new Map<string, number>();
+  private rebuildGeneration = 0;
+
+  constructor(app: App, getSettings: () => TaskSourceSettings) {
+    super();
+    this.app = app;
+    this.getSettings = getSettings;
+  }
+
+  on(
+    name: "changed",
+    callback: (change: TaskIndexChange) => unknown, // eslint-disable-line no-unused-vars
+    ctx?: unknown
+  ): EventRef {
+    return super.on(name, callback as Parameters<Events["on"]>[1], ctx);
+  }
+
+  private emitChange(change: TaskIndexChange) {
+    this.trigger("changed", change);
+  }
+
+  private bumpVersion(path: string): number {
+    const version = (this.fileVersions.get(path) ?? 0) + 1;
+    this.fileVersions.set(path, version);
+    return version;
+  }
+
+  // Updates are applied once the index is ready, or while it is built so
+  // that the rebuild keeps them
+  private acceptsUpdates(): boolean {
+    return this.ready || this.rebuilding;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getTasks(): Task[] {
+    return Array.from(this.tasksByFile.values()).flat();
+  }
+
+  getTask(id: string): Task | undefined {
+    for (const tasks of this.tasksByFile.values()) {
+      const task = tasks.find((t) => t.id === id);
+      if (task) return task;
+    }
+    return undefined;
+  }
+
+  getTasksInFile(path: string): Task[] {
+    return this.tasksByFile.get(path) || [];
+  }
+
+  /**
+   * Build the whole index from the metadata cache (also used when the task
+   * source settings change)
+   */
+  async rebuild(): Promise<void> {
+    const generation = ++this.rebuildGeneration;
+    const startVersions = new Map(this.fileVersions);
+    const tasksByFile = new Map<string, Task[]>();
+    this.rebuilding = true;
+
+    try {
+      for (const file of getTaskSourceFiles(this.app, this.getSettings())) {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const tasks = await parseTaskSourceFile(this.app, file, cache);
+        if (tasks.length > 0) {
+          tasksByFile.set(file.path, tasks);
+        }
+      }
+    } finally {
+      if (generation === this.rebuildGeneration) this.rebuilding = false;
+    }
+    // A newer rebuild replaces this one
+    if (generation !== this.rebuildGeneration) return;
+
+    // Keep the files updated while the index was built
+    this.fileVersions.forEach((version, path) => {
+      if (startVersions.get(path) === version) return;
+      const tasks = this.tasksByFile.get(path);
+      if (tasks) {
+        tasksByFile.set(path, tasks);
+      } else {
+        tasksByFile.delete(path);
+      }
+    });
+
+    this.tasksByFile = tasksByFile;
+    this.ready = true;
+    this.emitChange({ type: "rebuilt", tasks: this.getTasks() });
+  }
+
+  /**
+   * Re-parse a single file, e.g. on metadataCache "changed"
+   */
+  async updateFile(
+    file: TFile,
+    content?: string,
+    cache?: CachedMetadata
+  ): Promise<void> {
+    if (!this.acceptsUpdates() || file.extension !== "md") return;
+
+    if (!isTaskSourcePath(file.path, this.getSettings())) {
+      // The file may have been moved out of the task sources
+      this.removeFile(file.path);
+      return;
+    }
+
+    const version = this.bumpVersion(file.path);
+    const tasks = await parseTaskSourceFile(
+      this.app,
+      file,
+      cache ?? this.app.metadataCache.getFileCache(file),
+      content
+    );
+    // A newer update of the file finished first
+    if (this.fileVersions.get(file.path) !== version) return;
+
+    const previous = this.getTasksInFile(file.path);
+    if (previous.length === 0 && tasks.length === 0) return;
+
+    if (tasks.length > 0) {
+      this.tasksByFile.set(file.path, tasks);
+    } else {
+      this.tasksByFile.delete(file.path);
+    }
+    if (this.ready) {
+      this.emitChange({
+        type: "file-updated",
+        path: file.path,
+        tasks,
+        previous,
+      });
+    }
+  }
+
+  removeFile(path: string): void {
+    this.bumpVersion(path);
+    const previous = this.tasksByFile.get(path);
+    if (!previous) return;
+
+    this.tasksByFile.delete(path);
+    if (this.ready) this.emitChange({ type: "file-removed", path, previous });
+  }
+
+  async renameFile(file: TFile, oldPath: string): Promise<void> {
+    if (!this.acceptsUpdates() || file.extension !== "md") return;
+
+    this.bumpVersion(oldPath);
+    const previous = this.getTasksInFile(oldPath);
+    const wasIndexed = this.tasksByFile.delete(oldPath);
+    if (!isTaskSourcePath(file.path, this.getSettings())) {
+      this.bumpVersion(file.path);
+      if (wasIndexed && this.ready) {
+        this.emitChange({ type: "file-removed", path: oldPath, previous });
+      }
+      return;
+    }
+
+    const version = this.bumpVersion(file.path);
+    const cache = this.app.metadataCache.getFileCache(file);
+    const parsed = await parseTaskSourceFile(this.app, file, cache);
+    // A newer update of the file already indexed its tasks
+    const tasks =
+      this.fileVersions.get(file.path) === version
+        ? parsed
+        : this.getTasksInFile(file.path);
+    if (tasks.length > 0) {
+      this.tasksByFile.set(file.path, tasks);
+    }
+    if (this.ready && (wasIndexed || tasks.length > 0)) {
+      this.emitChange({
+        type: "file-renamed",
+        oldPath,
+        path: file.path,
+        tasks,
+      });
+    }
+  }
+}
@@ -33,3 +33,31 @@ export const PRIORITY_PATTERN =
 // Star pattern - for detecting starred tasks
 export const STAR_PATTERN = /⭐/;
 export const STAR_PATTERN_GLOBAL = /⭐/g;
+
+// Task line patterns - for scanning `- [ ]` lines in markdown files
+export const TASK_LINE_PATTERN = /^[\s]*- \[(.)\]/;
+export const TASK_LINE_PREFIX = /^[\s]*- \[.\]\s*/;
+
+// Date patterns - Tasks plugin signifiers followed by a YYYY-MM-DD date
+export const DUE_DATE_PATTERN = /(?:📅|📆|🗓️?)\s*(\d{4}-\d{2}-\d{2})/u;
+export const SCHEDULED_DATE_PATTERN = /(?:⏳|⌛)\s*(\d{4}-\d{2}-\d{2})/u;
+export const START_DATE_PATTERN = /🛫\s*(\d{4}-\d{2}-\d{2})/u;
+export const CREATED_DATE_PATTERN = /➕\s*(\d{4}-\d{2}-\d{2})/u;
+export const DONE_DATE_PATTERN = /✅\s*(\d{4}-\d{2}-\d{2})/u;
+export const CANCELLED_DATE_PATTERN = /❌\s*(\d{4}-\d{2}-\d{2})/u;
+export const EMOJI_DATE_PATTERN_GLOBAL =
+  /(?:📅|📆|🗓️?|⏳|⌛|🛫|➕|✅|❌)\s*\d{4}-\d{2}-\d{2}/gu;
+
+// Dataview inline date fields: [due:: 2024-01-31], (due:: ...) or [[due:: ...]]
+export const DATAVIEW_DATE_PATTERN_GLOBAL =
+  /[[(]{1,2}(due|scheduled|start|created|completion|cancelled)::\s*(\d{4}-\d{2}-\d{2})\s*[\])]{1,2}/gi;
+
+// Recurrence pattern - 🔁 followed by a rule like "every week when done"
+export const RECURRENCE_PATTERN = /🔁\s*([a-zA-Z0-9, ]*[a-zA-Z0-9])/u;
+export const RECURRENCE_PATTERN_GLOBAL = /🔁\s*[a-zA-Z0-9, ]*[a-zA-Z0-9]/gu;
+
+// Estimate pattern - Dataview inline field: [estimate:: 3h]
+export const ESTIMATE_PATTERN =
+  /[[(]{1,2}estimate::\s*([^\])]+?)\s*[\])]{1,2}/i;
+export const ESTIMATE_PATTERN_GLOBAL =
+  /[[(]{1,2}estimate::\s*[^\])]+?\s*[\])]{1,2}/gi;
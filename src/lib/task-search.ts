@@ -0,0 +1,111 @@
+import { Task } from "src/types/task";
+
+/**
+ * Fuzzy search of tasks by summary, tags and file path, for jumping to a
+ * task on the canvas. Every word of the query has to match one of the
+ * fields, in order of its letters but not necessarily consecutively.
+ */
+
+export type TaskSearchField = "summary" | "tags" | "path";
+
+export interface TaskSearchMatch {
+  task: Task;
+  score: number;
+  field: TaskSearchField; // Field matching the query best
+}
+
+// Summary matches rank above tag and path matches of the same quality
+const FIELD_WEIGHTS: Record<TaskSearchField, number> = {
+  summary: 1,
+  tags: 0.9,
+  path: 0.7,
+};
+
+const WORD_SEPARATORS = " /-_#.";
+
+/**
+ * Score of `pattern` as a subsequence of `text` (case-insensitive), higher
+ * is better; null if it doesn't match. Consecutive letters, letters at word
+ * starts and whole substrings score extra.
+ */
+export function fuzzyScore(text: string, pattern: string): number | null {
+  const haystack = text.toLowerCase();
+  const needle = pattern.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let last = -2;
+  let from = 0;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === last + 1) score += 3;
+    if (index === 0 || WORD_SEPARATORS.includes(haystack[index - 1])) {
+      score += 2;
+    }
+    last = index;
+    from = index + 1;
+  }
+
+  if (haystack.includes(needle)) score += needle.length * 2;
+  // Prefer shorter texts among equal matches
+  return score - haystack.length / 1000;
+}
+
+function getFields(task: Task): Record<TaskSearchField, string> {
+  return {
+    summary: task.summary || task.text,
+    tags: task.tags.map((tag) => `#${tag.replace(/^#/, "")}`).join(" "),
+    path: task.link,
+  };
+}
+
+/**
+ * Tasks matching the query, best first
+ */
+export function searchTasks(
+  tasks: Task[],
+  query: string,
+  limit = Infinity
+): TaskSearchMatch[] {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const matches: TaskSearchMatch[] = [];
+  tasks.forEach((task) => {
+    const fields = getFields(task);
+    const fieldScores: Record<TaskSearchField, number> = {
+      summary: 0,
+      tags: 0,
+      path: 0,
+    };
+    let total = 0;
+
+    for (const word of words) {
+      let best: { field: TaskSearchField; score: number } | null = null;
+      for (const field of Object.keys(fields) as TaskSearchField[]) {
+        const score = fuzzyScore(fields[field], word);
+        if (score === null) continue;
+        const weighted = score * FIELD_WEIGHTS[field];
+        if (!best || weighted > best.score) best = { field, score: weighted };
+      }
+      if (!best) return;
+      total += best.score;
+      fieldScores[best.field] += best.score;
+    }
+
+    const field = (Object.keys(fieldScores) as TaskSearchField[]).reduce(
+      (a, b) => (fieldScores[b] > fieldScores[a] ? b : a)
+    );
+    matches.push({ task, score: total, field });
+  });
+
+  return matches
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        getFields(a.task).summary.localeCompare(getFields(b.task).summary)
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,180 @@
+import { App, CachedMetadata, TFile } from "obsidian";
+import { Task } from "src/types/task";
+import { TasksMapSettings } from "src/types/settings";
+import { TaskFactory } from "./task-factory";
+import { isTaskNote, parseTaskNote } from "./utils";
+import { getExplicitTaskId } from "./task-identity";
+import { TASK_LINE_PATTERN, TASK_LINE_PREFIX } from "./task-regex";
+
+export type TaskSourceSettings = Pick<
+  TasksMapSettings,
+  "includeFolders" | "excludeFolders" | "includePatterns" | "excludePatterns"
+>;
+
+/**
+ * Normalize a folder path from the settings: no leading/trailing slashes.
+ */
+export function normalizeFolderPath(folder: string): string {
+  return folder.trim().replace(/^\/+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Convert a glob pattern to a RegExp matched against the full vault path.
+ * Supports `**` (any number of folders), `*` (anything but "/") and `?`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  const source = glob.trim().replace(/^\/+/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "*") {
+      if (source[i + 1] === "*") {
+        // "**/" matches zero or more folders, a trailing "**" matches anything
+        if (source[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i += 1;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+function isInFolder(path: string, folder: string): boolean {
+  const normalized = normalizeFolderPath(folder);
+  if (!normalized) return true; // Empty folder or "/" means the whole vault
+  return path === normalized || path.startsWith(normalized + "/");
+}
+
+function matchesAnyPattern(path: string, patterns: string[]): boolean {
+  return patterns.some((glob) => glob.trim() && globToRegExp(glob).test(path));
+}
+
+/**
+ * Check whether a vault path is a task source according to the settings.
+ * With no include rules the whole vault is included; exclude rules always win.
+ */
+export function isTaskSourcePath(
+  path: string,
+  settings: TaskSourceSettings
+): boolean {
+  const includeFolders = settings.includeFolders.filter((f) => f.trim());
+  const includePatterns = settings.includePatterns.filter((p) => p.trim());
+
+  const hasIncludeRules =
+    includeFolders.length > 0 || includePatterns.length > 0;
+  const included =
+    !hasIncludeRules ||
+    includeFolders.some((folder) => isInFolder(path, folder)) ||
+    matchesAnyPattern(path, includePatterns);
+
+  if (!included) return false;
+
+  const excluded =
+    settings.excludeFolders
+      .filter((f) => normalizeFolderPath(f))
+      .some((folder) => isInFolder(path, folder)) ||
+    matchesAnyPattern(path, settings.excludePatterns);
+
+  return !excluded;
+}
+
+/**
+ * Get all markdown files that are task sources
+ */
+export function getTaskSourceFiles(
+  app: App,
+  settings: TaskSourceSettings
+): TFile[] {
+  return app.vault
+    .getMarkdownFiles()
+    .filter((file) => isTaskSourcePath(file.path, settings));
+}
+
+/**
+ * Parse the `- [ ]` task lines of a file's content.
+ * When `taskLines` is given (from the metadata cache), only those lines are parsed.
+ */
+export function parseTasksFromContent(
+  content: string,
+  path: string,
+  project?: string,
+  taskLines?: number[]
+): Task[] {
+  const factory = new TaskFactory();
+  const tasks: Task[] = [];
+  const wantedLines = taskLines ? new Set(taskLines) : null;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (wantedLines && !wantedLines.has(index)) return;
+    const taskMatch = line.match(TASK_LINE_PATTERN);
+    if (!taskMatch) return;
+
+    const task = factory.parse({
+      status: taskMatch[1],
+      text: line.replace(TASK_LINE_PREFIX, ""),
+      link: { path },
+    });
+    // Reuse an existing 🆔 / [[id:: ]], otherwise a temporary path:line key
+    task.id = getExplicitTaskId(task.text) ?? `${path}:${index}`;
+    task.line = index;
+    if (project) task.project = project;
+    tasks.push(task);
+  });
+
+  return tasks;
+}
+
+/**
+ * Get the task list item lines of a file from its metadata cache
+ */
+export function getTaskLinesFromCache(cache: CachedMetadata | null): number[] {
+  return (cache?.listItems || [])
+    .filter((item) => item.task !== undefined)
+    .map((item) => item.position.start.line);
+}
+
+/**
+ * Parse all tasks of a task source file: the note itself (if it is a task
+ * note) and its `- [ ]` lines. This is the single code path through which
+ * tasks from every included root flow, so all views share the same IDs.
+ */
+export async function parseTaskSourceFile(
+  app: App,
+  file: TFile,
+  cache: CachedMetadata | null,
+  content?: string
+): Promise<Task[]> {
+  const tasks: Task[] = [];
+  const project =
+    cache?.frontmatter?.Project || cache?.frontmatter?.project || "none";
+
+  if (cache && isTaskNote(cache)) {
+    const noteTask = parseTaskNote(file, cache, app);
+    if (noteTask) {
+      noteTask.project = project;
+      tasks.push(noteTask);
+    }
+  }
+
+  const taskLines = getTaskLinesFromCache(cache);
+  if (taskLines.length === 0) return tasks;
+
+  const fileContent = content ?? (await app.vault.cachedRead(file));
+  tasks.push(
+    ...parseTasksFromContent(fileContent, file.path, project, taskLines)
+  );
+
+  return tasks;
+}
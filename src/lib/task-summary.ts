@@ -0,0 +1,117 @@
+import { App } from "obsidian";
+import { Task } from "src/types/task";
+import { getNoteTaskPath } from "./task-creation";
+import { TASK_LINE_PREFIX } from "./task-regex";
+import { findTaskLineByIdOrText } from "./utils";
+
+/**
+ * Editing the summary of a task: the human text of its line, or the name of
+ * its note. Metadata (🆔, ⛔, tags, dates, priority...) is left untouched.
+ */
+
+/**
+ * Replace the human text of a task line. Each word of the current summary
+ * is looked up in order; the new summary takes the place of the first one
+ * and the metadata between and after them is kept.
+ * @returns The new line, or null if the summary isn't found in the line
+ */
+export function replaceTaskSummaryInLine(
+  line: string,
+  summary: string,
+  newSummary: string
+): string | null {
+  const prefix = line.match(TASK_LINE_PREFIX)?.[0] ?? "";
+  const body = line.slice(prefix.length);
+  const words = summary.split(/\s+/).filter(Boolean);
+  if (words.length === 0 || !newSummary.trim()) return null;
+
+  // Words of the summary, as whole words of the line
+  const spans: [number, number][] = [];
+  let cursor = 0;
+  for (const word of words) {
+    let start = body.indexOf(word, cursor);
+    while (
+      start !== -1 &&
+      ((start > 0 && !/\s/.test(body[start - 1])) ||
+        (start + word.length < body.length &&
+          !/\s/.test(body[start + word.length])))
+    ) {
+      start = body.indexOf(word, start + 1);
+    }
+    if (start === -1) return null;
+    spans.push([start, start + word.length]);
+    cursor = start + word.length;
+  }
+
+  const metadata = spans
+    .map(([, end], i) =>
+      body.slice(end, i + 1 < spans.length ? spans[i + 1][0] : undefined)
+    )
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  return [
+    prefix + body.slice(0, spans[0][0]) + newSummary.trim(),
+    ...metadata,
+  ].join(" ");
+}
+
+/**
+ * Replace the summary of a line task in the content of its file
+ * @returns The new content, or null if the task or its summary isn't found
+ */
+export function updateTaskSummaryInContent(
+  fileContent: string,
+  task: Task,
+  newSummary: string
+): string | null {
+  const lines = fileContent.split(/\r?\n/);
+  const taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
+  if (taskLineIdx === -1) return null;
+
+  const line = replaceTaskSummaryInLine(
+    lines[taskLineIdx],
+    task.summary,
+    newSummary
+  );
+  if (line === null) return null;
+  lines[taskLineIdx] = line;
+  return lines.join("\n");
+}
+
+/**
+ * Rewrite the summary of a task: its line, or for a note task the name of
+ * the note (links to it are updated by Obsidian)
+ * @returns Whether the summary was written
+ */
+export async function updateTaskSummaryInVault(
+  task: Task,
+  newSummary: string,
+  app: App
+): Promise<boolean> {
+  if (!task.link || !newSummary.trim()) return false;
+  const vault = app?.vault;
+  if (!vault) return false;
+  const file = vault.getFileByPath(task.link);
+  if (!file) return false;
+
+  if (task.type === "note") {
+    const folder = task.link.split("/").slice(0, -1).join("/");
+    const path = getNoteTaskPath(
+      folder,
+      newSummary,
+      (candidate) =>
+        candidate !== task.link && !!vault.getAbstractFileByPath(candidate)
+    );
+    if (path !== task.link) await app.fileManager.renameFile(file, path);
+    return true;
+  }
+
+  let updated = false;
+  await vault.process(file, (fileContent) => {
+    const content = updateTaskSummaryInContent(fileContent, task, newSummary);
+    updated = content !== null;
+    return content ?? fileContent;
+  });
+  return updated;
+}
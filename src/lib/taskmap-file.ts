@@ -0,0 +1,101 @@
+import { DEFAULT_GRAPH_DATA, GraphData } from "src/types/settings";
+
+/**
+ * `.taskmap` vault files: a board's GraphData as pretty-printed JSON, so
+ * layouts sync and version with the notes. Changes that arrive from sync
+ * while the map is open are merged with the unsaved canvas state.
+ */
+
+export const TASKMAP_EXTENSION = "taskmap";
+
+/**
+ * Parse the contents of a map file. Empty files are empty maps; returns null
+ * for content that is not a map (e.g. a half-synced file).
+ */
+export function parseTaskMapFile(text: string): GraphData | null {
+  if (text.trim() === "") return { ...DEFAULT_GRAPH_DATA };
+
+  try {
+    const data = JSON.parse(text);
+    if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+    return {
+      ...DEFAULT_GRAPH_DATA,
+      ...data,
+      nodes: Array.isArray(data.nodes) ? data.nodes : [],
+      edges: Array.isArray(data.edges) ? data.edges : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function serializeTaskMapFile(data: GraphData): string {
+  return JSON.stringify(data, null, 2) + "\n";
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way merge of items with IDs. Changes on one side win over the
+ * unchanged other side; when both sides changed an item, the local one wins.
+ */
+function mergeById<T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[]
+): T[] {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const remoteById = new Map(remote.map((item) => [item.id, item]));
+  const localIds = new Set(local.map((item) => item.id));
+  const merged: T[] = [];
+
+  local.forEach((item) => {
+    const original = baseById.get(item.id);
+    const remoteItem = remoteById.get(item.id);
+    if (remoteItem) {
+      merged.push(original && isSame(item, original) ? remoteItem : item);
+    } else if (!original || !isSame(item, original)) {
+      // Added locally, or changed locally while deleted remotely
+      merged.push(item);
+    }
+  });
+
+  remote.forEach((item) => {
+    if (localIds.has(item.id)) return;
+    const original = baseById.get(item.id);
+    // Skip items deleted locally that were not changed remotely
+    if (!original || !isSame(item, original)) merged.push(item);
+  });
+
+  return merged;
+}
+
+/**
+ * Merge the canvas state (`local`) with a new version of the file
+ * (`remote`); `base` is the file content both started from.
+ */
+export function mergeGraphData(
+  base: GraphData,
+  local: GraphData,
+  remote: GraphData
+): GraphData {
+  const pick = <K extends keyof GraphData>(key: K): GraphData[K] =>
+    isSame(local[key], base[key]) ? remote[key] : local[key];
+
+  return {
+    ...base,
+    ...remote,
+    ...local,
+    nodes: mergeById(base.nodes, local.nodes, remote.nodes),
+    edges: mergeById(base.edges, local.edges, remote.edges),
+    viewport: pick("viewport"),
+    edgePersistence: pick("edgePersistence"),
+    viewMode: pick("viewMode"),
+    filters: pick("filters"),
+    filterPresets: pick("filterPresets"),
+    layoutDirection: pick("layoutDirection"),
+    toolbarOpen: pick("toolbarOpen"),
+  };
+}
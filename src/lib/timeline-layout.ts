@@ -0,0 +1,121 @@
+import { Task } from "src/types/task";
+import { addDays, daysBetween, formatDate } from "./task-dates";
+
+/**
+ * Timeline (Gantt) layout: tasks are placed on a horizontal time axis by
+ * their start/scheduled/due dates and packed into rows so they don't
+ * overlap. Tasks without dates go into a separate lane below.
+ */
+
+export interface TimelineSpan {
+  start: string;
+  end: string;
+}
+
+export interface TimelineOptions {
+  dayWidth: number;
+  nodeWidth: number;
+  rowHeight: number;
+  gap: number;
+  today?: string;
+}
+
+export interface TimelineLayout {
+  positions: Map<string, { x: number; y: number }>;
+  origin: string; // Date at x = 0
+  days: number; // Length of the axis in days
+  undatedLaneY: number;
+  undatedIds: string[];
+}
+
+/**
+ * Get the time span of a task, or null if it has no dates
+ */
+export function getTimelineSpan(
+  task: Pick<Task, "startDate" | "scheduledDate" | "dueDate">
+): TimelineSpan | null {
+  const start = task.startDate ?? task.scheduledDate ?? task.dueDate;
+  const end = task.dueDate ?? task.scheduledDate ?? task.startDate;
+  if (!start || !end) return null;
+  return start <= end ? { start, end } : { start: end, end: start };
+}
+
+// Monday on or before the date, so axis ticks fall on week starts
+function startOfWeek(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = (new Date(year, month - 1, day).getDay() + 6) % 7;
+  return addDays(date, -weekday);
+}
+
+/**
+ * Lay out tasks on the time axis
+ */
+export function computeTimelineLayout(
+  tasks: Task[],
+  options: TimelineOptions
+): TimelineLayout {
+  const today = options.today ?? formatDate(new Date());
+  const dated = tasks
+    .map((task) => ({ task, span: getTimelineSpan(task) }))
+    .filter(
+      (entry): entry is { task: Task; span: TimelineSpan } => !!entry.span
+    )
+    .sort(
+      (a, b) =>
+        a.span.start.localeCompare(b.span.start) ||
+        a.span.end.localeCompare(b.span.end)
+    );
+  const undatedIds = tasks
+    .filter((task) => !getTimelineSpan(task))
+    .map((task) => task.id);
+
+  const first = dated[0]?.span.start ?? today;
+  const last = dated.reduce(
+    (max, { span }) => (span.end > max ? span.end : max),
+    first
+  );
+  const origin = startOfWeek(first < today ? first : today);
+  const days =
+    Math.max(daysBetween(origin, last), daysBetween(origin, today)) +
+    Math.ceil(options.nodeWidth / options.dayWidth) +
+    7;
+
+  // Greedy row packing: each task goes into the first row it fits in
+  const positions = new Map<string, { x: number; y: number }>();
+  const rowEnds: number[] = [];
+  dated.forEach(({ task, span }) => {
+    const x = daysBetween(origin, span.start) * options.dayWidth;
+    const width = Math.max(
+      options.nodeWidth,
+      (daysBetween(span.start, span.end) + 1) * options.dayWidth
+    );
+    let row = rowEnds.findIndex((end) => end + options.gap <= x);
+    if (row === -1) {
+      row = rowEnds.length;
+      rowEnds.push(0);
+    }
+    rowEnds[row] = x + width;
+    positions.set(task.id, { x, y: row * options.rowHeight });
+  });
+
+  const undatedLaneY = (rowEnds.length + 1) * options.rowHeight;
+  undatedIds.forEach((id, index) => {
+    positions.set(id, {
+      x: index * (options.nodeWidth + options.gap),
+      y: undatedLaneY,
+    });
+  });
+
+  return { positions, origin, days, undatedLaneY, undatedIds };
+}
+
+/**
+ * Convert an x position on the axis back to a date (snapped to days)
+ */
+export function getDateAtPosition(
+  x: number,
+  origin: string,
+  dayWidth: number
+): string {
+  return addDays(origin, Math.round(x / dayWidth));
+}
@@ -0,0 +1,330 @@
+import { App, TFile, Vault } from "obsidian";
+
+/**
+ * Undo/redo history of a map view. Entries hold the canvas changes of an
+ * operation and the line changes it made to task files, so undoing a vault
+ * edit only touches the lines it changed and keeps edits made elsewhere in
+ * the file since.
+ */
+
+/**
+ * Lines `before` of a file replaced by `after`, starting at line `start`
+ */
+export interface FileChange {
+  path: string;
+  start: number;
+  before: string[];
+  after: string[];
+}
+
+/**
+ * A file moved from `from` to `to`, e.g. a note task renamed after its summary
+ */
+export interface FileRename {
+  from: string;
+  to: string;
+}
+
+export interface HistoryEntry {
+  label: string; // Shown when undoing or redoing, e.g. "Delete node"
+  files: FileChange[]; // In the order they were made
+  renames?: FileRename[];
+  undoCanvas?: () => void;
+  redoCanvas?: () => void;
+}
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * The lines that differ between two versions of a file, or null if they
+ * are the same
+ */
+export function diffFileContent(
+  path: string,
+  before: string,
+  after: string
+): FileChange | null {
+  if (before === after) return null;
+  const beforeLines = before.split("\n");
+  const afterLines = after.split("\n");
+
+  let start = 0;
+  while (
+    start < beforeLines.length &&
+    start < afterLines.length &&
+    beforeLines[start] === afterLines[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < beforeLines.length - start &&
+    end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] ===
+      afterLines[afterLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    path,
+    start,
+    before: beforeLines.slice(start, beforeLines.length - end),
+    after: afterLines.slice(start, afterLines.length - end),
+  };
+}
+
+function matchesAt(lines: string[], block: string[], index: number) {
+  return block.every((line, i) => lines[index + i] === line);
+}
+
+/**
+ * Replace the `from` lines of a change by its `to` lines. The lines are
+ * looked up where the change was made, then anywhere in the file if lines
+ * above were added or removed since.
+ * @returns The new content, or null if the lines changed in the meantime
+ */
+export function applyFileChange(
+  content: string,
+  change: FileChange,
+  direction: "undo" | "redo"
+): string | null {
+  const lines = content.split("\n");
+  const from = direction === "undo" ? change.after : change.before;
+  const to = direction === "undo" ? change.before : change.after;
+
+  let index = -1;
+  if (change.start <= lines.length && matchesAt(lines, from, change.start)) {
+    index = change.start;
+  } else if (from.length > 0) {
+    // Only when the lines are unambiguous
+    const candidates: number[] = [];
+    for (let i = 0; i + from.length <= lines.length; i++) {
+      if (matchesAt(lines, from, i)) candidates.push(i);
+    }
+    if (candidates.length === 1) index = candidates[0];
+  }
+  if (index === -1) return null;
+
+  lines.splice(index, from.length, ...to);
+  return lines.join("\n");
+}
+
+/**
+ * A vault recording the changes made through `process` into `changes`
+ */
+export function createRecordingVault(
+  vault: Vault,
+  changes: FileChange[]
+): Vault {
+  return new Proxy(vault, {
+    get(target, property) {
+      if (property === "process") {
+        return (
+          file: TFile,
+          fn: (data: string) => string, // eslint-disable-line no-unused-vars
+          options?: Parameters<Vault["process"]>[2]
+        ) =>
+          target.process(
+            file,
+            (data) => {
+              const result = fn(data);
+              const change = diffFileContent(file.path, data, result);
+              if (change) changes.push(change);
+              return result;
+            },
+            options
+          );
+      }
+      const value = Reflect.get(target, property);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * The app with a recording vault, for the vault helpers taking an app.
+ * Files renamed through its file manager are recorded into `renames`.
+ */
+export function createRecordingApp(
+  app: App,
+  changes: FileChange[],
+  renames: FileRename[] = []
+): App {
+  const vault = createRecordingVault(app.vault, changes);
+  const fileManager = new Proxy(app.fileManager, {
+    get(target, property) {
+      if (property === "renameFile") {
+        return async (file: TFile, newPath: string) => {
+          const from = file.path;
+          await target.renameFile(file, newPath);
+          renames.push({ from, to: newPath });
+        };
+      }
+      const value = Reflect.get(target, property);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+  return new Proxy(app, {
+    get(target, property) {
+      if (property === "vault") return vault;
+      if (property === "fileManager") return fileManager;
+      return Reflect.get(target, property);
+    },
+  });
+}
+
+function applyPathChanges(
+  content: string,
+  changes: FileChange[],
+  path: string,
+  direction: "undo" | "redo"
+): string | null {
+  let result: string | null = content;
+  for (const change of changes) {
+    if (change.path !== path || result === null) continue;
+    result = applyFileChange(result, change, direction);
+  }
+  return result;
+}
+
+/**
+ * Apply the changes of an entry to the task files, the last change first
+ * when undoing. Every file is checked first, so nothing is written unless
+ * all changes apply.
+ * @returns Whether all changes were applied
+ */
+export async function applyFileChanges(
+  vault: Vault,
+  changes: FileChange[],
+  direction: "undo" | "redo"
+): Promise<boolean> {
+  const ordered = direction === "undo" ? [...changes].reverse() : changes;
+  const paths = Array.from(new Set(ordered.map((change) => change.path)));
+
+  const files: TFile[] = [];
+  for (const path of paths) {
+    const file = vault.getFileByPath(path);
+    if (!file) return false;
+    const content = await vault.read(file);
+    if (applyPathChanges(content, ordered, path, direction) === null) {
+      return false;
+    }
+    files.push(file);
+  }
+
+  let applied = true;
+  for (const file of files) {
+    await vault.process(file, (content) => {
+      const result = applyPathChanges(content, ordered, file.path, direction);
+      if (result === null) applied = false;
+      return result ?? content;
+    });
+  }
+  return applied;
+}
+
+/**
+ * Rename the files of an entry back, or again when redoing. Nothing is
+ * renamed unless every file is still where it was moved and its old path
+ * is free.
+ * @returns Whether all files were renamed
+ */
+export async function applyFileRenames(
+  app: App,
+  renames: FileRename[],
+  direction: "undo" | "redo"
+): Promise<boolean> {
+  const moves = (direction === "undo" ? [...renames].reverse() : renames).map(
+    (rename) =>
+      direction === "undo"
+        ? { from: rename.to, to: rename.from }
+        : { from: rename.from, to: rename.to }
+  );
+  const files: TFile[] = [];
+  for (const move of moves) {
+    const file = app.vault.getFileByPath(move.from);
+    if (!file || app.vault.getAbstractFileByPath(move.to)) return false;
+    files.push(file);
+  }
+  for (const [i, move] of moves.entries()) {
+    await app.fileManager.renameFile(files[i], move.to);
+  }
+  return true;
+}
+
+type ApplyEntry = (entry: HistoryEntry) => Promise<boolean>; // eslint-disable-line no-unused-vars
+
+/**
+ * Undo and redo stacks; recording a new entry clears the redo stack. An
+ * entry that fails to apply is dropped, as the files moved on without it.
+ */
+export class UndoHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+  private limit: number;
+  private busy = false;
+
+  constructor(limit = DEFAULT_LIMIT) {
+    this.limit = limit;
+  }
+
+  push(entry: HistoryEntry) {
+    if (
+      entry.files.length === 0 &&
+      !entry.renames?.length &&
+      !entry.undoCanvas
+    ) {
+      return;
+    }
+    this.past.push(entry);
+    if (this.past.length > this.limit) this.past.shift();
+    this.future = [];
+  }
+
+  canUndo() {
+    return this.past.length > 0;
+  }
+
+  canRedo() {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Undo the last entry with `apply`; undefined if there is nothing to undo
+   * or another undo or redo is still running
+   */
+  undo(apply: ApplyEntry) {
+    return this.move(this.past, this.future, apply);
+  }
+
+  /**
+   * Redo the last undone entry with `apply`
+   */
+  redo(apply: ApplyEntry) {
+    return this.move(this.future, this.past, apply);
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+  }
+
+  private async move(
+    from: HistoryEntry[],
+    to: HistoryEntry[],
+    apply: ApplyEntry
+  ): Promise<{ entry: HistoryEntry; applied: boolean } | undefined> {
+    if (this.busy) return undefined;
+    const entry = from.pop();
+    if (!entry) return undefined;
+    this.busy = true;
+    try {
+      const applied = await apply(entry);
+      if (applied) to.push(entry);
+      return { entry, applied };
+    } finally {
+      this.busy = false;
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import dagre from "@dagrejs/dagre";
-import { App, TFile, Vault } from "obsidian";
+import { App, CachedMetadata, TFile, Vault } from "obsidian";
 import { Task, TaskStatus, TaskNode, TaskEdge, RawTask } from "src/types/task";
 import { NODEHEIGHT, NODEWIDTH } from "src/components/task-node";
 import { TaskFactory } from "./task-factory";
@@ -9,7 +9,13 @@ import {
   DATAVIEW_ID_REMOVAL,
   TAG_REMOVAL,
   WHITESPACE_NORMALIZE,
+  TASK_LINE_PREFIX,
+  PRIORITY_PATTERN,
 } from "./task-regex";
+import { generateTaskId, getLinkingId, hasStableId } from "./task-identity";
+import { addDays, parseDateValue, updateTaskLineDates } from "./task-dates";
+import { createNextOccurrence } from "./recurrence";
+import { parseEstimate } from "./critical-path";
 
 const statusSymbols = {
   todo: "[ ]",
@@ -22,7 +28,7 @@ const statusSymbols = {
  * Find the index of a task line in an array of lines by its ID.
  * Supports both emoji format (🆔 abc123) and Dataview format ([[id:: abc123]])
  */
-function findTaskLineByIdOrText(
+export function findTaskLineByIdOrText(
   lines: string[],
   taskId: string,
   taskText: string
@@ -47,12 +53,138 @@ function findTaskLineByIdOrText(
   return taskLineIdx;
 }
 
+/**
+ * Find the line of a task by its known line number (if the line still holds
+ * the task text), falling back to a text search.
+ */
+function findTaskLine(lines: string[], task: Task): number {
+  if (task.line !== undefined && lines[task.line]?.includes(task.text)) {
+    return task.line;
+  }
+  return lines.findIndex((line) => line.includes(task.text));
+}
+
+/**
+ * Update the status of a task in the content of its file. Completing a
+ * recurring (🔁) line task inserts its next instance above it, like the
+ * Tasks plugin does.
+ */
+export function updateTaskStatusInContent(
+  fileContent: string,
+  task: Task,
+  newStatus: TaskStatus
+): { content: string; nextTask: Task | null } {
+  // Handle note-based tasks differently (they use frontmatter)
+  if (task.type === "note") {
+    const lines = fileContent.split(/\r?\n/);
+
+    // Find frontmatter boundaries
+    let frontmatterStart = -1;
+    let frontmatterEnd = -1;
+
+    if (lines[0] === "---") {
+      frontmatterStart = 0;
+      for (let i = 1; i < lines.length; i++) {
+        if (lines[i] === "---") {
+          frontmatterEnd = i;
+          break;
+        }
+      }
+    }
+
+    if (frontmatterStart === -1 || frontmatterEnd === -1) {
+      return { content: fileContent, nextTask: null };
+    }
+
+    // Map TaskStatus to note-based status format
+    const noteStatus =
+      newStatus === "todo"
+        ? "open"
+        : newStatus === "done"
+          ? "done"
+          : newStatus === "in_progress"
+            ? "in-progress"
+            : newStatus === "canceled"
+              ? "canceled"
+              : "open";
+
+    // Find and update status line
+    for (let i = frontmatterStart + 1; i < frontmatterEnd; i++) {
+      if (lines[i].startsWith("status:")) {
+        lines[i] = `status: ${noteStatus}`;
+        break;
+      }
+    }
+
+    return { content: lines.join("\n"), nextTask: null };
+  }
+
+  // Handle dataview tasks (inline status)
+  const lines = fileContent.split(/\r?\n/);
+  const taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
+
+  if (taskLineIdx === -1) return { content: fileContent, nextTask: null };
+
+  const originalLine = lines[taskLineIdx];
+  // TODO: Verify if the escape is really useless here (or change this parsing completely). It was added by the linter, but it seems necessary for correct regex.
+  lines[taskLineIdx] = originalLine.replace(
+    /\[([ x/\-])\]/, // eslint-disable-line no-useless-escape
+    statusSymbols[newStatus]
+  );
+
+  const next =
+    newStatus === "done" && task.status !== "done"
+      ? createNextOccurrence(originalLine)
+      : null;
+  if (next) {
+    lines.splice(taskLineIdx, 0, next.line);
+    const factory = new TaskFactory();
+    const nextTask = factory.parse({
+      status: " ",
+      text: next.line.replace(TASK_LINE_PREFIX, ""),
+      link: { path: task.link },
+    });
+    nextTask.id = next.id;
+    nextTask.line = taskLineIdx;
+    nextTask.project = task.project;
+    return { content: lines.join("\n"), nextTask };
+  }
+  return { content: lines.join("\n"), nextTask: null };
+}
+
+/**
+ * Update the status of a task in its file
+ * @returns The next instance of a recurring task, or null
+ */
 export async function updateTaskStatusInVault(
   task: Task,
   newStatus: TaskStatus,
   app: App
+): Promise<Task | null> {
+  if (!task.link || !task.text) return null;
+  const vault = app?.vault;
+  if (!vault) return null;
+  const file = vault.getFileByPath(task.link);
+  if (!file) return null;
+
+  let nextTask: Task | null = null;
+  await vault.process(file, (fileContent) => {
+    const result = updateTaskStatusInContent(fileContent, task, newStatus);
+    nextTask = result.nextTask;
+    return result.content;
+  });
+  return nextTask;
+}
+
+/**
+ * Move the start, scheduled and due dates of a task by a number of days
+ */
+export async function shiftTaskDatesInVault(
+  task: Task,
+  days: number,
+  app: App
 ): Promise<void> {
-  if (!task.link || !task.text) return;
+  if (!task.link || !task.text || days === 0) return;
   const vault = app?.vault;
   if (!vault) return;
   const file = vault.getFileByPath(task.link);
@@ -62,182 +194,150 @@ export async function updateTaskStatusInVault(
   if (task.type === "note") {
     await vault.process(file, (fileContent) => {
       const lines = fileContent.split(/\r?\n/);
+      if (lines[0] !== "---") return fileContent;
+      const frontmatterEnd = lines.indexOf("---", 1);
+      if (frontmatterEnd === -1) return fileContent;
 
-      // Find frontmatter boundaries
-      let frontmatterStart = -1;
-      let frontmatterEnd = -1;
-
-      if (lines[0] === "---") {
-        frontmatterStart = 0;
-        for (let i = 1; i < lines.length; i++) {
-          if (lines[i] === "---") {
-            frontmatterEnd = i;
-            break;
-          }
-        }
-      }
-
-      if (frontmatterStart === -1 || frontmatterEnd === -1) {
-        return fileContent;
-      }
-
-      // Map TaskStatus to note-based status format
-      const noteStatus =
-        newStatus === "todo"
-          ? "open"
-          : newStatus === "done"
-            ? "done"
-            : newStatus === "in_progress"
-              ? "in-progress"
-              : newStatus === "canceled"
-                ? "canceled"
-                : "open";
-
-      // Find and update status line
-      for (let i = frontmatterStart + 1; i < frontmatterEnd; i++) {
-        if (lines[i].startsWith("status:")) {
-          lines[i] = `status: ${noteStatus}`;
-          break;
+      for (let i = 1; i < frontmatterEnd; i++) {
+        const match = lines[i].match(
+          /^(due|scheduled):\s*(["']?)(\d{4}-\d{2}-\d{2})/
+        );
+        if (match) {
+          lines[i] = lines[i].replace(match[3], addDays(match[3], days));
         }
       }
-
       return lines.join("\n");
     });
     return;
   }
 
-  // Handle dataview tasks (inline status)
   await vault.process(file, (fileContent) => {
     const lines = fileContent.split(/\r?\n/);
-    const taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
-
+    const taskLineIdx = findTaskLine(lines, task);
     if (taskLineIdx === -1) return fileContent;
 
-    // TODO: Verify if the escape is really useless here (or change this parsing completely). It was added by the linter, but it seems necessary for correct regex.
-    lines[taskLineIdx] = lines[taskLineIdx].replace(
-      /\[([ x/\-])\]/, // eslint-disable-line no-useless-escape
-      statusSymbols[newStatus]
+    lines[taskLineIdx] = updateTaskLineDates(
+      lines[taskLineIdx],
+      (field, date) =>
+        field === "startDate" ||
+        field === "scheduledDate" ||
+        field === "dueDate"
+          ? addDays(date, days)
+          : date
     );
     return lines.join("\n");
   });
 }
 
-export async function removeTagFromTaskInVault(
+/**
+ * Remove a tag from a task in the content of its file
+ */
+export function removeTagFromTaskInContent(
+  fileContent: string,
   task: Task,
-  tagToRemove: string,
-  app: App
-): Promise<void> {
-  if (!task.link || !task.text) return;
-  const vault = app?.vault;
-  if (!vault) return;
-  const file = vault.getFileByPath(task.link);
-  if (!file) return;
-
+  tagToRemove: string
+): string {
   // Handle note-based tasks differently (they use frontmatter)
   if (task.type === "note") {
-    await vault.process(file, (fileContent) => {
-      const lines = fileContent.split(/\r?\n/);
+    const lines = fileContent.split(/\r?\n/);
 
-      // Find frontmatter boundaries
-      let frontmatterStart = -1;
-      let frontmatterEnd = -1;
+    // Find frontmatter boundaries
+    let frontmatterStart = -1;
+    let frontmatterEnd = -1;
 
-      if (lines[0] === "---") {
-        frontmatterStart = 0;
-        for (let i = 1; i < lines.length; i++) {
-          if (lines[i] === "---") {
-            frontmatterEnd = i;
-            break;
-          }
+    if (lines[0] === "---") {
+      frontmatterStart = 0;
+      for (let i = 1; i < lines.length; i++) {
+        if (lines[i] === "---") {
+          frontmatterEnd = i;
+          break;
         }
       }
+    }
 
-      if (frontmatterStart === -1 || frontmatterEnd === -1) {
-        return fileContent;
-      }
+    if (frontmatterStart === -1 || frontmatterEnd === -1) {
+      return fileContent;
+    }
 
-      // Find and remove the tag from the tags array
-      // Tags are stored as "  - tagname" under "tags:"
-      let i = frontmatterStart + 1;
-      while (i < frontmatterEnd) {
-        const line = lines[i];
-        if (line === "tags:") {
-          // Found tags section, look for the tag in the following lines
-          i++;
-          while (i < frontmatterEnd && lines[i].match(/^\s{2}- /)) {
-            const tagLine = lines[i];
-            const tagMatch = tagLine.match(/^\s{2}- (.+)$/);
-            if (tagMatch && tagMatch[1] === tagToRemove) {
-              // Found the tag, remove it
-              lines.splice(i, 1);
-              frontmatterEnd--;
-              break;
-            }
-            i++;
+    // Find and remove the tag from the tags array
+    // Tags are stored as "  - tagname" under "tags:"
+    let i = frontmatterStart + 1;
+    while (i < frontmatterEnd) {
+      const line = lines[i];
+      if (line === "tags:") {
+        // Found tags section, look for the tag in the following lines
+        i++;
+        while (i < frontmatterEnd && lines[i].match(/^\s{2}- /)) {
+          const tagLine = lines[i];
+          const tagMatch = tagLine.match(/^\s{2}- (.+)$/);
+          if (tagMatch && tagMatch[1] === tagToRemove) {
+            // Found the tag, remove it
+            lines.splice(i, 1);
+            frontmatterEnd--;
+            break;
           }
-          break;
+          i++;
         }
-        i++;
+        break;
       }
+      i++;
+    }
 
-      return lines.join("\n");
-    });
-    return;
+    return lines.join("\n");
   }
 
   // Handle dataview tasks (inline tags)
-  await vault.process(file, (fileContent) => {
-    const lines = fileContent.split(/\r?\n/);
+  const lines = fileContent.split(/\r?\n/);
 
-    let taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
+  let taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
 
-    if (taskLineIdx === -1) {
-      // Fallback: try to find by matching core task text (without tags/IDs)
-      const coreTaskText = task.text
-        .replace(EMOJI_ID_REMOVAL, "") // Remove emoji ID
-        .replace(DATAVIEW_ID_REMOVAL, "") // Remove Dataview ID
-        .replace(TAG_REMOVAL, "") // Remove tags
-        .replace(WHITESPACE_NORMALIZE, " ") // Normalize whitespace
-        .trim();
+  if (taskLineIdx === -1) {
+    // Fallback: try to find by matching core task text (without tags/IDs)
+    const coreTaskText = task.text
+      .replace(EMOJI_ID_REMOVAL, "") // Remove emoji ID
+      .replace(DATAVIEW_ID_REMOVAL, "") // Remove Dataview ID
+      .replace(TAG_REMOVAL, "") // Remove tags
+      .replace(WHITESPACE_NORMALIZE, " ") // Normalize whitespace
+      .trim();
 
-      taskLineIdx = lines.findIndex((line: string) => {
-        const coreLineText = line
-          .replace(EMOJI_ID_REMOVAL, "")
-          .replace(DATAVIEW_ID_REMOVAL, "")
-          .replace(TAG_REMOVAL, "")
-          .replace(WHITESPACE_NORMALIZE, " ")
-          .trim();
-        return (
-          coreLineText.includes(coreTaskText) ||
-          coreTaskText.includes(coreLineText)
-        );
-      });
+    taskLineIdx = lines.findIndex((line: string) => {
+      const coreLineText = line
+        .replace(EMOJI_ID_REMOVAL, "")
+        .replace(DATAVIEW_ID_REMOVAL, "")
+        .replace(TAG_REMOVAL, "")
+        .replace(WHITESPACE_NORMALIZE, " ")
+        .trim();
+      return (
+        coreLineText.includes(coreTaskText) ||
+        coreTaskText.includes(coreLineText)
+      );
+    });
 
-      if (taskLineIdx === -1) return fileContent;
-    }
+    if (taskLineIdx === -1) return fileContent;
+  }
 
-    // Remove the tag from the line
-    const currentLine = lines[taskLineIdx];
+  // Remove the tag from the line
+  const currentLine = lines[taskLineIdx];
 
-    // Match tags in format #tag or #tag/subtag, with optional leading/trailing whitespace
-    const tagPattern = new RegExp(
-      `\\s*#${tagToRemove.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:/\\S*)?(?=\\s|$)`,
-      "g"
-    );
+  // Match tags in format #tag or #tag/subtag, with optional leading/trailing whitespace
+  const tagPattern = new RegExp(
+    `\\s*#${tagToRemove.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:/\\S*)?(?=\\s|$)`,
+    "g"
+  );
 
-    const newLine = currentLine
-      .replace(tagPattern, "")
-      .replace(/\s+/g, " ")
-      .trim();
+  const newLine = currentLine
+    .replace(tagPattern, "")
+    .replace(/\s+/g, " ")
+    .trim();
 
-    lines[taskLineIdx] = newLine;
+  lines[taskLineIdx] = newLine;
 
-    return lines.join("\n");
-  });
+  return lines.join("\n");
 }
 
-export async function addStarToTaskInVault(
+export async function removeTagFromTaskInVault(
   task: Task,
+  tagToRemove: string,
   app: App
 ): Promise<void> {
   if (!task.link || !task.text) return;
@@ -246,75 +346,82 @@ export async function addStarToTaskInVault(
   const file = vault.getFileByPath(task.link);
   if (!file) return;
 
+  await vault.process(file, (fileContent) =>
+    removeTagFromTaskInContent(fileContent, task, tagToRemove)
+  );
+}
+
+/**
+ * Star a task in the content of its file
+ */
+export function addStarToTaskInContent(
+  fileContent: string,
+  task: Task
+): string {
   // Handle note-based tasks differently (they use frontmatter)
   if (task.type === "note") {
-    await vault.process(file, (fileContent) => {
-      const lines = fileContent.split(/\r?\n/);
+    const lines = fileContent.split(/\r?\n/);
 
-      // Find frontmatter boundaries
-      let frontmatterStart = -1;
-      let frontmatterEnd = -1;
+    // Find frontmatter boundaries
+    let frontmatterStart = -1;
+    let frontmatterEnd = -1;
 
-      if (lines[0] === "---") {
-        frontmatterStart = 0;
-        for (let i = 1; i < lines.length; i++) {
-          if (lines[i] === "---") {
-            frontmatterEnd = i;
-            break;
-          }
+    if (lines[0] === "---") {
+      frontmatterStart = 0;
+      for (let i = 1; i < lines.length; i++) {
+        if (lines[i] === "---") {
+          frontmatterEnd = i;
+          break;
         }
       }
+    }
 
-      if (frontmatterStart === -1 || frontmatterEnd === -1) {
-        return fileContent;
+    if (frontmatterStart === -1 || frontmatterEnd === -1) {
+      return fileContent;
+    }
+
+    // Check if starred field already exists
+    let starredIndex = -1;
+    for (let i = frontmatterStart + 1; i < frontmatterEnd; i++) {
+      if (lines[i].match(/^starred:\s*/)) {
+        starredIndex = i;
+        break;
       }
+    }
 
-      // Check if starred field already exists
-      let starredIndex = -1;
+    if (starredIndex !== -1) {
+      // Update existing starred field
+      lines[starredIndex] = "starred: true";
+    } else {
+      // Add starred field after priority if it exists, otherwise before tags
+      let insertIndex = frontmatterEnd;
       for (let i = frontmatterStart + 1; i < frontmatterEnd; i++) {
-        if (lines[i].match(/^starred:\s*/)) {
-          starredIndex = i;
+        if (lines[i].match(/^priority:\s*/)) {
+          insertIndex = i + 1;
           break;
         }
       }
+      lines.splice(insertIndex, 0, "starred: true");
+    }
 
-      if (starredIndex !== -1) {
-        // Update existing starred field
-        lines[starredIndex] = "starred: true";
-      } else {
-        // Add starred field after priority if it exists, otherwise before tags
-        let insertIndex = frontmatterEnd;
-        for (let i = frontmatterStart + 1; i < frontmatterEnd; i++) {
-          if (lines[i].match(/^priority:\s*/)) {
-            insertIndex = i + 1;
-            break;
-          }
-        }
-        lines.splice(insertIndex, 0, "starred: true");
-      }
-
-      return lines.join("\n");
-    });
-    return;
+    return lines.join("\n");
   }
 
   // Handle dataview tasks (inline star emoji)
-  await vault.process(file, (fileContent) => {
-    const lines = fileContent.split(/\r?\n/);
-    const taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
+  const lines = fileContent.split(/\r?\n/);
+  const taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
 
-    if (taskLineIdx === -1) return fileContent;
+  if (taskLineIdx === -1) return fileContent;
 
-    // Check if star already exists
-    if (lines[taskLineIdx].includes("⭐")) return fileContent;
+  // Check if star already exists
+  if (lines[taskLineIdx].includes("⭐")) return fileContent;
 
-    // Add star at the end of the line
-    lines[taskLineIdx] = lines[taskLineIdx] + " ⭐";
-    return lines.join("\n");
-  });
+  // Add star at the end of the line
+  lines[taskLineIdx] = lines[taskLineIdx] + " ⭐";
+  return lines.join("\n");
 }
 
-export async function removeStarFromTaskInVault(
+export async function addStarToTaskInVault(
   task: Task,
   app: App
 ): Promise<void> {
@@ -324,58 +431,64 @@ export async function removeStarFromTaskInVault(
   const file = vault.getFileByPath(task.link);
   if (!file) return;
 
+  await vault.process(file, (fileContent) =>
+    addStarToTaskInContent(fileContent, task)
+  );
+}
+
+/**
+ * Unstar a task in the content of its file
+ */
+export function removeStarFromTaskInContent(
+  fileContent: string,
+  task: Task
+): string {
   // Handle note-based tasks differently (they use frontmatter)
   if (task.type === "note") {
-    await vault.process(file, (fileContent) => {
-      const lines = fileContent.split(/\r?\n/);
+    const lines = fileContent.split(/\r?\n/);
 
-      // Find frontmatter boundaries
-      let frontmatterStart = -1;
-      let frontmatterEnd = -1;
+    // Find frontmatter boundaries
+    let frontmatterStart = -1;
+    let frontmatterEnd = -1;
 
-      if (lines[0] === "---") {
-        frontmatterStart = 0;
-        for (let i = 1; i < lines.length; i++) {
-          if (lines[i] === "---") {
-            frontmatterEnd = i;
-            break;
-          }
+    if (lines[0] === "---") {
+      frontmatterStart = 0;
+      for (let i = 1; i < lines.length; i++) {
+        if (lines[i] === "---") {
+          frontmatterEnd = i;
+          break;
         }
       }
+    }
 
-      if (frontmatterStart === -1 || frontmatterEnd === -1) {
-        return fileContent;
-      }
+    if (frontmatterStart === -1 || frontmatterEnd === -1) {
+      return fileContent;
+    }
 
-      // Find and update starred field
-      for (let i = frontmatterStart + 1; i < frontmatterEnd; i++) {
-        if (lines[i].match(/^starred:\s*/)) {
-          lines[i] = "starred: false";
-          break;
-        }
+    // Find and update starred field
+    for (let i = frontmatterStart + 1; i < frontmatterEnd; i++) {
+      if (lines[i].match(/^starred:\s*/)) {
+        lines[i] = "starred: false";
+        break;
       }
+    }
 
-      return lines.join("\n");
-    });
-    return;
+    return lines.join("\n");
   }
 
   // Handle dataview tasks (inline star emoji)
-  await vault.process(file, (fileContent) => {
-    const lines = fileContent.split(/\r?\n/);
-    const taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
+  const lines = fileContent.split(/\r?\n/);
+  const taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
 
-    if (taskLineIdx === -1) return fileContent;
+  if (taskLineIdx === -1) return fileContent;
 
-    // Remove star emoji
-    lines[taskLineIdx] = lines[taskLineIdx].replace(/\s*⭐\s*/g, " ").trim();
-    return lines.join("\n");
-  });
+  // Remove star emoji
+  lines[taskLineIdx] = lines[taskLineIdx].replace(/\s*⭐\s*/g, " ").trim();
+  return lines.join("\n");
 }
 
-export async function addTagToTaskInVault(
+export async function removeStarFromTaskInVault(
   task: Task,
-  tagToAdd: string,
   app: App
 ): Promise<void> {
   if (!task.link || !task.text) return;
@@ -384,104 +497,191 @@ export async function addTagToTaskInVault(
   const file = vault.getFileByPath(task.link);
   if (!file) return;
 
+  await vault.process(file, (fileContent) =>
+    removeStarFromTaskInContent(fileContent, task)
+  );
+}
+
+/**
+ * Add a tag to a task in the content of its file
+ */
+export function addTagToTaskInContent(
+  fileContent: string,
+  task: Task,
+  tagToAdd: string
+): string {
   // Handle note-based tasks differently (they use frontmatter)
   if (task.type === "note") {
-    await vault.process(file, (fileContent) => {
-      const lines = fileContent.split(/\r?\n/);
+    const lines = fileContent.split(/\r?\n/);
 
-      // Find frontmatter boundaries
-      let frontmatterStart = -1;
-      let frontmatterEnd = -1;
+    // Find frontmatter boundaries
+    let frontmatterStart = -1;
+    let frontmatterEnd = -1;
 
-      if (lines[0] === "---") {
-        frontmatterStart = 0;
-        for (let i = 1; i < lines.length; i++) {
-          if (lines[i] === "---") {
-            frontmatterEnd = i;
-            break;
-          }
+    if (lines[0] === "---") {
+      frontmatterStart = 0;
+      for (let i = 1; i < lines.length; i++) {
+        if (lines[i] === "---") {
+          frontmatterEnd = i;
+          break;
         }
       }
+    }
 
-      if (frontmatterStart === -1 || frontmatterEnd === -1) {
-        return fileContent;
-      }
+    if (frontmatterStart === -1 || frontmatterEnd === -1) {
+      return fileContent;
+    }
 
-      // Find the tags section and add the tag
-      // Tags are stored as "  - tagname" under "tags:"
-      let i = frontmatterStart + 1;
-      let tagsIndex = -1;
-
-      while (i < frontmatterEnd) {
-        const line = lines[i];
-        if (line === "tags:") {
-          tagsIndex = i;
-          // Check if tag already exists
-          let j = i + 1;
-          while (j < frontmatterEnd && lines[j].match(/^\s{2}- /)) {
-            const tagLine = lines[j];
-            const tagMatch = tagLine.match(/^\s{2}- (.+)$/);
-            if (tagMatch && tagMatch[1] === tagToAdd) {
-              // Tag already exists
-              return fileContent;
-            }
-            j++;
+    // Find the tags section and add the tag
+    // Tags are stored as "  - tagname" under "tags:"
+    let i = frontmatterStart + 1;
+    let tagsIndex = -1;
+
+    while (i < frontmatterEnd) {
+      const line = lines[i];
+      if (line === "tags:") {
+        tagsIndex = i;
+        // Check if tag already exists
+        let j = i + 1;
+        while (j < frontmatterEnd && lines[j].match(/^\s{2}- /)) {
+          const tagLine = lines[j];
+          const tagMatch = tagLine.match(/^\s{2}- (.+)$/);
+          if (tagMatch && tagMatch[1] === tagToAdd) {
+            // Tag already exists
+            return fileContent;
           }
-          // Add the tag after the last tag in the list
-          lines.splice(j, 0, `  - ${tagToAdd}`);
-          break;
+          j++;
         }
-        i++;
+        // Add the tag after the last tag in the list
+        lines.splice(j, 0, `  - ${tagToAdd}`);
+        break;
       }
+      i++;
+    }
 
-      // If no tags section exists, create one
-      if (tagsIndex === -1) {
-        lines.splice(frontmatterEnd, 0, "tags:", `  - ${tagToAdd}`);
-      }
+    // If no tags section exists, create one
+    if (tagsIndex === -1) {
+      lines.splice(frontmatterEnd, 0, "tags:", `  - ${tagToAdd}`);
+    }
 
-      return lines.join("\n");
-    });
-    return;
+    return lines.join("\n");
   }
 
   // Handle dataview tasks (inline tags)
-  await vault.process(file, (fileContent) => {
-    const lines = fileContent.split(/\r?\n/);
-    let taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
-
-    if (taskLineIdx === -1) {
-      // Fallback: try to find by matching core task text (without tags/IDs)
-      const coreTaskText = task.text
-        .replace(EMOJI_ID_REMOVAL, "") // Remove emoji ID
-        .replace(DATAVIEW_ID_REMOVAL, "") // Remove Dataview ID
-        .replace(TAG_REMOVAL, "") // Remove tags
-        .replace(WHITESPACE_NORMALIZE, " ") // Normalize whitespace
+  const lines = fileContent.split(/\r?\n/);
+  let taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
+
+  if (taskLineIdx === -1) {
+    // Fallback: try to find by matching core task text (without tags/IDs)
+    const coreTaskText = task.text
+      .replace(EMOJI_ID_REMOVAL, "") // Remove emoji ID
+      .replace(DATAVIEW_ID_REMOVAL, "") // Remove Dataview ID
+      .replace(TAG_REMOVAL, "") // Remove tags
+      .replace(WHITESPACE_NORMALIZE, " ") // Normalize whitespace
+      .trim();
+
+    taskLineIdx = lines.findIndex((line: string) => {
+      const coreLineText = line
+        .replace(EMOJI_ID_REMOVAL, "")
+        .replace(DATAVIEW_ID_REMOVAL, "")
+        .replace(TAG_REMOVAL, "")
+        .replace(WHITESPACE_NORMALIZE, " ")
         .trim();
+      return (
+        coreLineText.includes(coreTaskText) ||
+        coreTaskText.includes(coreLineText)
+      );
+    });
 
-      taskLineIdx = lines.findIndex((line: string) => {
-        const coreLineText = line
-          .replace(EMOJI_ID_REMOVAL, "")
-          .replace(DATAVIEW_ID_REMOVAL, "")
-          .replace(TAG_REMOVAL, "")
-          .replace(WHITESPACE_NORMALIZE, " ")
-          .trim();
-        return (
-          coreLineText.includes(coreTaskText) ||
-          coreTaskText.includes(coreLineText)
-        );
-      });
+    if (taskLineIdx === -1) return fileContent;
+  }
 
-      if (taskLineIdx === -1) return fileContent;
-    }
+  // Add the tag to the end of the line
+  const currentLine = lines[taskLineIdx];
+  // Ensure the tag starts with # if it doesn't already
+  const formattedTag = tagToAdd.startsWith("#") ? tagToAdd : `#${tagToAdd}`;
+  lines[taskLineIdx] = currentLine.trim() + ` ${formattedTag}`;
+
+  return lines.join("\n");
+}
+
+export async function addTagToTaskInVault(
+  task: Task,
+  tagToAdd: string,
+  app: App
+): Promise<void> {
+  if (!task.link || !task.text) return;
+  const vault = app?.vault;
+  if (!vault) return;
+  const file = vault.getFileByPath(task.link);
+  if (!file) return;
 
-    // Add the tag to the end of the line
-    const currentLine = lines[taskLineIdx];
-    // Ensure the tag starts with # if it doesn't already
-    const formattedTag = tagToAdd.startsWith("#") ? tagToAdd : `#${tagToAdd}`;
-    lines[taskLineIdx] = currentLine.trim() + ` ${formattedTag}`;
+  await vault.process(file, (fileContent) =>
+    addTagToTaskInContent(fileContent, task, tagToAdd)
+  );
+}
 
+// Signifiers the Tasks plugin puts after the priority
+const PRIORITY_SUCCESSORS =
+  /\s(?:🔁|➕|🛫|⏳|⌛|📅|📆|🗓|✅|❌|🆔|⛔|\[\[id::)/u;
+
+// Note tasks only know high, normal and low priority
+export function toNotePriority(priority: string): string {
+  if (priority === "🔺" || priority === "⏫") return "high";
+  if (priority === "🔽" || priority === "⏬") return "low";
+  return "normal";
+}
+
+/**
+ * Set the priority of a task in the content of its file. `priority` is a
+ * Tasks plugin emoji, "" for normal priority.
+ */
+export function setTaskPriorityInContent(
+  fileContent: string,
+  task: Task,
+  priority: string
+): string {
+  const lines = fileContent.split(/\r?\n/);
+
+  // Handle note-based tasks differently (they use frontmatter)
+  if (task.type === "note") {
+    if (lines[0] !== "---") return fileContent;
+    const frontmatterEnd = lines.indexOf("---", 1);
+    if (frontmatterEnd === -1) return fileContent;
+
+    const value = toNotePriority(priority);
+    const priorityIndex = lines
+      .slice(1, frontmatterEnd)
+      .findIndex((line) => /^priority:/.test(line));
+    if (priorityIndex === -1) {
+      lines.splice(frontmatterEnd, 0, `priority: ${value}`);
+    } else {
+      // Keep the capitalization used in the note, e.g. "Normal"
+      const current = lines[priorityIndex + 1].replace(/^priority:\s*/, "");
+      const capitalized = /^[A-Z]/.test(current);
+      lines[priorityIndex + 1] =
+        `priority: ${capitalized ? value[0].toUpperCase() + value.slice(1) : value}`;
+    }
     return lines.join("\n");
-  });
+  }
+
+  // Handle dataview tasks (inline priority emoji)
+  const taskLineIdx = findTaskLineByIdOrText(lines, task.id, task.text);
+  if (taskLineIdx === -1) return fileContent;
+
+  const line = lines[taskLineIdx]
+    .replace(new RegExp(`\\s*${PRIORITY_PATTERN.source}`, "gu"), "")
+    .trimEnd();
+  if (!priority) {
+    lines[taskLineIdx] = line;
+  } else {
+    const successor = line.match(PRIORITY_SUCCESSORS);
+    lines[taskLineIdx] =
+      successor?.index !== undefined
+        ? `${line.slice(0, successor.index)} ${priority}${line.slice(successor.index)}`
+        : `${line} ${priority}`;
+  }
+  return lines.join("\n");
 }
 
 export function getLayoutedElements(
@@ -522,32 +722,164 @@ export function getLayoutedElements(
 }
 
 /**
- * Generate a short random ID (6 characters)
+ * Lay out only the selected nodes (with the edges between them), keeping the
+ * top left corner of the selection in place. Other nodes don't move.
  */
-function generateShortId(): string {
-  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
-  let result = "";
-  for (let i = 0; i < 6; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
+export function getLayoutedSelection<T extends Node>(
+  nodes: T[],
+  edges: Edge[],
+  selectedIds: Set<string>,
+  direction: "Horizontal" | "Vertical" = "Horizontal"
+): T[] {
+  const selected = nodes.filter((node) => selectedIds.has(node.id));
+  if (selected.length === 0) return nodes;
+
+  const layouted = getLayoutedElements(
+    selected,
+    edges.filter(
+      (edge) => selectedIds.has(edge.source) && selectedIds.has(edge.target)
+    ),
+    direction
+  );
+  const corner = (list: Node[]) => ({
+    x: Math.min(...list.map((node) => node.position.x)),
+    y: Math.min(...list.map((node) => node.position.y)),
+  });
+  const from = corner(layouted);
+  const to = corner(selected);
+  const positions = new Map(
+    layouted.map((node) => [
+      node.id,
+      {
+        x: node.position.x - from.x + to.x,
+        y: node.position.y - from.y + to.y,
+      },
+    ])
+  );
+
+  return nodes.map((node) => {
+    const position = positions.get(node.id);
+    return position ? { ...node, position } : node;
+  });
+}
+
+export type AlignMode =
+  | "left"
+  | "center"
+  | "right"
+  | "top"
+  | "middle"
+  | "bottom";
+
+function getNodeSize(node: Node) {
+  return { width: node.width ?? NODEWIDTH, height: node.height ?? NODEHEIGHT };
 }
 
 /**
- * Get the proper 🆔 ID for linking - extract from text or generate new
+ * Line up the selected nodes on the edge or center of the selection
  */
-function getProperIdForLinking(task: Task): string {
-  // If task.id is a path:line format (contains / and :), extract 🆔 from text or generate new
-  if (task.id && (task.id.includes("/") || task.id.length > 10)) {
-    // Try to extract existing 🆔 from text
-    const idMatch = task.text?.match(/🆔\s*(\w+)/);
-    if (idMatch) {
-      return idMatch[1];
-    }
-    // Generate a new short ID
-    return generateShortId();
+export function alignSelection<T extends Node>(
+  nodes: T[],
+  selectedIds: Set<string>,
+  mode: AlignMode
+): T[] {
+  const selected = nodes.filter((node) => selectedIds.has(node.id));
+  if (selected.length < 2) return nodes;
+
+  const horizontal = mode === "left" || mode === "center" || mode === "right";
+  const starts = selected.map((node) =>
+    horizontal ? node.position.x : node.position.y
+  );
+  const ends = selected.map((node) => {
+    const { width, height } = getNodeSize(node);
+    return horizontal ? node.position.x + width : node.position.y + height;
+  });
+  const min = Math.min(...starts);
+  const max = Math.max(...ends);
+
+  return nodes.map((node) => {
+    if (!selectedIds.has(node.id)) return node;
+    const { width, height } = getNodeSize(node);
+    const size = horizontal ? width : height;
+    const value =
+      mode === "left" || mode === "top"
+        ? min
+        : mode === "right" || mode === "bottom"
+          ? max - size
+          : (min + max - size) / 2;
+    return {
+      ...node,
+      position: horizontal
+        ? { x: value, y: node.position.y }
+        : { x: node.position.x, y: value },
+    };
+  });
+}
+
+/**
+ * Space the selected nodes evenly between the first and the last one
+ */
+export function distributeSelection<T extends Node>(
+  nodes: T[],
+  selectedIds: Set<string>,
+  axis: "horizontal" | "vertical"
+): T[] {
+  const horizontal = axis === "horizontal";
+  const start = (node: Node) =>
+    horizontal ? node.position.x : node.position.y;
+  const size = (node: Node) =>
+    horizontal ? getNodeSize(node).width : getNodeSize(node).height;
+  const selected = nodes
+    .filter((node) => selectedIds.has(node.id))
+    .sort((a, b) => start(a) + size(a) / 2 - (start(b) + size(b) / 2));
+  if (selected.length < 3) return nodes;
+
+  const first = selected[0];
+  const last = selected[selected.length - 1];
+  const sizes = selected.reduce((sum, node) => sum + size(node), 0);
+  const gap =
+    (start(last) + size(last) - start(first) - sizes) / (selected.length - 1);
+
+  const positions = new Map<string, number>();
+  let next = start(first);
+  selected.forEach((node) => {
+    positions.set(node.id, next);
+    next += size(node) + gap;
+  });
+
+  return nodes.map((node) => {
+    const value = positions.get(node.id);
+    if (value === undefined) return node;
+    return {
+      ...node,
+      position: horizontal
+        ? { x: value, y: node.position.y }
+        : { x: node.position.x, y: value },
+    };
+  });
+}
+
+/**
+ * Make sure a task has a stable ID, writing a new 🆔 (or [[id:: ]]) into its
+ * line if needed. Note tasks are keyed by their path and are returned as is.
+ * @returns The task with its stable ID, or as is if the ID couldn't be written
+ */
+export async function ensureStableTaskId(
+  vault: Vault,
+  task: Task,
+  linkingStyle: "individual" | "csv" | "dataview" = "individual"
+): Promise<Task> {
+  if (hasStableId(task)) {
+    const id = getLinkingId(task) ?? task.id;
+    return id === task.id ? task : { ...task, id };
+  }
+
+  const id = generateTaskId();
+  if (!(await addSignToTaskInFile(vault, task, "id", id, linkingStyle))) {
+    return task;
   }
-  return task.id;
+  const sign = linkingStyle === "dataview" ? `[[id:: ${id}]]` : `🆔 ${id}`;
+  return { ...task, id, text: `${task.text} ${sign}` };
 }
 
 /**
@@ -565,8 +897,8 @@ export async function addLinkSignsBetweenTasks(
 ): Promise<string | undefined> {
   if (!fromTask.link || !toTask.link) return undefined;
 
-  // Get proper short ID for linking (not path:line format)
-  const id = getProperIdForLinking(fromTask);
+  // Reuse the existing 🆔 of the source task, or create a new one
+  const id = getLinkingId(fromTask) ?? generateTaskId();
 
   // Handle note-based tasks differently (they use frontmatter, not inline metadata)
   if (toTask.type === "note") {
@@ -677,6 +1009,8 @@ async function addDependencyToNoteTask(
  * @param task: The task object (must have .link and .text)
  * @param type: 'stop' | 'id' - which sign to add
  * @param hash: The hash string to use
+ * @returns Whether the task line carries the sign, false if the file or the
+ * line wasn't found or the line already has another ID
  */
 export async function addSignToTaskInFile(
   vault: Vault,
@@ -684,15 +1018,17 @@ export async function addSignToTaskInFile(
   type: "stop" | "id",
   hash: string,
   linkingStyle: "individual" | "csv" | "dataview" = "individual"
-): Promise<void> {
-  if (!task.link || !task.text) return;
+): Promise<boolean> {
+  if (!task.link || !task.text) return false;
   const file = vault.getAbstractFileByPath(task.link);
-  if (!(file instanceof TFile)) return;
+  if (!(file instanceof TFile)) return false;
 
+  let signed = false;
   await vault.process(file, (fileContent) => {
     const lines = fileContent.split(/\r?\n/);
-    const taskLineIdx = lines.findIndex((line) => line.includes(task.text));
+    const taskLineIdx = findTaskLine(lines, task);
     if (taskLineIdx === -1) return fileContent;
+    signed = true;
 
     if (type === "id") {
       // Check if any ID format is already present
@@ -701,7 +1037,12 @@ export async function addSignToTaskInFile(
         lines[taskLineIdx]
       );
 
-      if (emojiIdPresent || dataviewIdPresent) return fileContent;
+      if (emojiIdPresent || dataviewIdPresent) {
+        signed =
+          lines[taskLineIdx].includes(`🆔 ${hash}`) ||
+          lines[taskLineIdx].includes(`[[id:: ${hash}]]`);
+        return fileContent;
+      }
 
       // Add ID in the configured format
       if (linkingStyle === "dataview") {
@@ -801,6 +1142,7 @@ export async function addSignToTaskInFile(
 
     return lines.join("\n");
   });
+  return signed;
 }
 
 // Remove a link hash from both source and target tasks in their files
@@ -891,7 +1233,7 @@ export async function removeSignFromTaskInFile(
 
   await vault.process(file, (fileContent) => {
     const lines = fileContent.split(/\r?\n/);
-    const taskLineIdx = lines.findIndex((line) => line.includes(task.text));
+    const taskLineIdx = findTaskLine(lines, task);
     if (taskLineIdx === -1) return fileContent;
 
     if (type === "id") {
@@ -1022,17 +1364,7 @@ export function getNoteTasks(app: any): Task[] {
     // Get the file's metadata (frontmatter)
     const cache = metadataCache.getFileCache(file);
 
-    if (!cache?.frontmatter?.tags) {
-      continue;
-    }
-
-    // Check if the note has #task tag in frontmatter
-    const tags = cache.frontmatter.tags;
-    const hasTaskTag = Array.isArray(tags)
-      ? tags.some((tag: string) => tag === "task" || tag === "#task")
-      : tags === "task" || tags === "#task";
-
-    if (!hasTaskTag) {
+    if (!isTaskNote(cache)) {
       continue;
     }
 
@@ -1046,13 +1378,25 @@ export function getNoteTasks(app: any): Task[] {
   return tasks;
 }
 
+/**
+ * Check if a note is a task note (has #task in its frontmatter tags)
+ */
+export function isTaskNote(cache: CachedMetadata | null): boolean {
+  const tags = cache?.frontmatter?.tags;
+  if (!tags) return false;
+
+  return Array.isArray(tags)
+    ? tags.some((tag: string) => tag === "task" || tag === "#task")
+    : tags === "task" || tags === "#task";
+}
+
 /**
  * Normalize note-based task priority to emoji format
  * TaskNotes uses: "High", "Normal", "Low", "None"
  * We map to Obsidian Tasks emojis: 🔺 (highest), ⏫ (high), 🔼 (medium), 🔽 (low), ⏬ (lowest)
  * Note: "Normal" and "None" both map to empty string (no emoji), matching simple task "normal" priority
  */
-function normalizeNotePriority(priority: string): string {
+export function normalizeNotePriority(priority: string): string {
   if (!priority) return "";
 
   const normalized = priority.toLowerCase();
@@ -1071,7 +1415,7 @@ function normalizeNotePriority(priority: string): string {
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function parseTaskNote(file: any, cache: any, app: any): Task | null {
+export function parseTaskNote(file: any, cache: any, app: any): Task | null {
   const frontmatter = cache.frontmatter || {};
   const factory = new TaskFactory();
 
@@ -1107,6 +1451,15 @@ function parseTaskNote(file: any, cache: any, app: any): Task | null {
       task.starred = frontmatter.starred;
     }
 
+    const dueDate = parseDateValue(frontmatter.due);
+    if (dueDate) task.dueDate = dueDate;
+
+    const scheduledDate = parseDateValue(frontmatter.scheduled);
+    if (scheduledDate) task.scheduledDate = scheduledDate;
+
+    const estimate = parseEstimate(frontmatter.estimate);
+    if (estimate !== undefined) task.estimate = estimate;
+
     // Collect all incoming links from various sources
     const allIncomingLinks: string[] = [];
 
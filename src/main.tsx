@@ -1,4 +1,4 @@
-import { WorkspaceLeaf, Plugin, TFile } from "obsidian";
+import { WorkspaceLeaf, Plugin, TFile, Events, EventRef, Notice, Menu } from "obsidian";
 
 import TaskMapGraphItemView, { VIEW_TYPE } from "./views/TaskMapGraphItemView";
 import TaskSidebarView, { SIDEBAR_VIEW_TYPE } from "./views/TaskSidebarView";
@@ -9,42 +9,107 @@ import {
   DEFAULT_GRAPH_DATA,
   PluginData,
   DEFAULT_PLUGIN_DATA,
+  EdgePersistenceMode,
+  CanvasViewMode,
+  FilterPreset,
+  Board,
+  DEFAULT_BOARD,
+  DEFAULT_BOARD_ID,
 } from "./types/settings";
 import { TasksMapSettingTab } from "./settings/settings-tab";
+import { TaskIndex } from "./lib/task-index";
+import { CanvasOperations } from "./contexts/context";
+import { resolveEdgePersistence, storesEdgesOnCanvas } from "./lib/edge-persistence";
+import { findBoardCycles } from "./lib/cycles";
+import { createEdgesFromTasks, ensureStableTaskId } from "./lib/utils";
+import { generateTaskId, hasStableId } from "./lib/task-identity";
 import { Task } from "./types/task";
+import { DependencyCyclesModal } from "./views/DependencyCyclesModal";
+import { PromptModal } from "./views/PromptModal";
+import TaskMapFileView, { TASKMAP_FILE_VIEW_TYPE } from "./views/TaskMapFileView";
+import { serializeTaskMapFile, TASKMAP_EXTENSION } from "./lib/taskmap-file";
+import { EXPORT_FORMAT_NAMES, ExportFormat, exportGraph } from "./lib/graph-export";
+import {
+  extractMermaidBlocks,
+  Flowchart,
+  formatImportedTaskLine,
+  layoutFlowchart,
+  parseMermaidFlowchart,
+} from "./lib/mermaid-import";
+import { NoteSuggestModal } from "./views/NoteSuggestModal";
+import { IMAGE_FORMAT_NAMES, ImageFormat, renderGraphSvg, resolveImageTheme, svgToPng } from "./lib/graph-image";
+import { ImageExportModal, ImageExportOptions } from "./views/ImageExportModal";
+import {
+  findFilterPreset,
+  getActiveFilter,
+  getFilterPresetCommandId,
+  removeFilterPreset,
+  upsertFilterPreset,
+} from "./lib/filter-presets";
+import { FilterPresetSuggestModal } from "./views/FilterPresetSuggestModal";
+import { CanvasTaskSuggestModal } from "./views/CanvasTaskSuggestModal";
+import { EMBED_CODE_BLOCK_LANGUAGE, TaskMapEmbed } from "./views/TaskMapEmbed";
+import { NODEHEIGHT, NODEWIDTH } from "./components/task-node";
+import {
+  copyGraphData,
+  createBoardId,
+  getUniqueBoardName,
+  migratePluginData,
+} from "./lib/boards";
 
 export default class TasksMapPlugin extends Plugin {
   settings: TasksMapSettings = DEFAULT_SETTINGS;
-  graphData: GraphData = DEFAULT_GRAPH_DATA;
+  boards: Board[] = [DEFAULT_BOARD];
+  activeBoardId: string = DEFAULT_BOARD_ID;
   
-  // Callbacks for canvas operations (set by TaskMapGraphView)
-  private _addTaskToCanvas: ((taskId: string, position: { x: number; y: number }, taskData?: unknown) => void) | null = null;
-  private _getCanvasTaskIds: (() => string[]) | null = null;
-  private _clearCanvasNodes: (() => void) | null = null;
+  // Callbacks for canvas operations (set by TaskMapGraphView), per board
+  private canvasOperations = new Map<string, CanvasOperations>();
+
+  // Boards of open .taskmap files, with the callback that writes them back
+  private fileBoards = new Map<string, { board: Board; onSave: (data: GraphData) => void }>(); // eslint-disable-line no-unused-vars
   
-  // Sidebar tasks storage (shared with canvas for updates)
-  private _sidebarTasks: Task[] = [];
+  // Shared task index (sidebar and canvas subscribe to its "changed" event)
+  taskIndex!: TaskIndex;
   
-  // Auto-refresh callbacks
-  private _sidebarRefreshCallback: (() => void) | null = null;
-  private _canvasRefreshCallback: (() => void) | null = null;
+  // Notifies the sidebar when the set of tasks on the canvas changes
+  private canvasEvents = new Events();
+  // Commands applying filter presets, by command ID
+  private filterPresetCommands = new Map<string, string>();
+  // Last choices of the image export dialog
+  private imageExportOptions: ImageExportOptions = { format: "png", selectionOnly: false, scale: 2 };
+  // Task lines getting a stable ID written, by `path:line`, so that boards
+  // showing the same task write it once, and the lines that couldn't be
+  // written, which aren't tried again
+  private pendingIdAssignments = new Set<string>();
+  private failedIdAssignments = new Set<string>();
   
-  // Debounce timer
+  // Debounce timer for index rebuilds
   private _refreshDebounceTimer: ReturnType<typeof setTimeout> | null = null;
-  
-  // Tasks folder path to monitor
-  private readonly TASKS_FOLDER = "Spaces/2.Area/Tasks";
 
   async onload() {
     // Load all data (settings + graph data)
     await this.loadAllData();
 
+    this.taskIndex = new TaskIndex(this.app, () => this.settings);
+
     // Always register the view - it will handle the Dataview check internally
     this.registerView(
       VIEW_TYPE,
       (leaf: WorkspaceLeaf) => new TaskMapGraphItemView(leaf)
     );
 
+    // .taskmap files open in a map view bound to the file
+    this.registerView(
+      TASKMAP_FILE_VIEW_TYPE,
+      (leaf: WorkspaceLeaf) => new TaskMapFileView(leaf)
+    );
+    this.registerExtensions([TASKMAP_EXTENSION], TASKMAP_FILE_VIEW_TYPE);
+
+    // Live maps in notes
+    this.registerMarkdownCodeBlockProcessor(EMBED_CODE_BLOCK_LANGUAGE, (source, el, ctx) => {
+      ctx.addChild(new TaskMapEmbed(el, this.app, this, source));
+    });
+
     // Register sidebar view
     this.registerView(
       SIDEBAR_VIEW_TYPE,
@@ -69,150 +134,861 @@ export default class TasksMapPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "reconcile-canvas-edges",
+      name: "Reconcile canvas connections with task files",
+      checkCallback: (checking) => {
+        const reconcile = this.canvasOperations.get(this.activeBoardId)?.reconcileEdges;
+        if (!reconcile) return false;
+        if (!checking) reconcile();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "create-board",
+      name: "Create board",
+      callback: () => this.promptNewBoard(),
+    });
+
+    this.addCommand({
+      id: "rename-board",
+      name: "Rename current board",
+      checkCallback: (checking) => {
+        if (this.isFileBoard(this.activeBoardId)) return false;
+        if (!checking) this.promptRenameBoard(this.activeBoardId);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "duplicate-board",
+      name: "Duplicate current board",
+      callback: () => this.duplicateAndOpenBoard(this.activeBoardId),
+    });
+
+    this.addCommand({
+      id: "delete-board",
+      name: "Delete current board",
+      checkCallback: (checking) => {
+        if (this.boards.length <= 1 || this.isFileBoard(this.activeBoardId)) return false;
+        if (!checking) this.confirmDeleteBoard(this.activeBoardId);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "create-map-file",
+      name: "Create map file",
+      callback: () => this.createMapFile("Tasks map"),
+    });
+
+    this.addCommand({
+      id: "save-board-as-map-file",
+      name: "Save current board as map file",
+      callback: () => {
+        const board = this.getBoard();
+        if (!board) return;
+        this.flushCanvas(board.id);
+        this.createMapFile(board.name, copyGraphData(this.getGraphData(board.id)));
+      },
+    });
+
+    // Export commands act on the board of the focused map view
+    const exports: { id: string; name: string; format: ExportFormat; target: "clipboard" | "file" }[] = [
+      { id: "export-mermaid-note", name: "Export map to Mermaid note", format: "mermaid", target: "file" },
+      { id: "copy-mermaid", name: "Copy map as Mermaid", format: "mermaid", target: "clipboard" },
+      { id: "export-dot-file", name: "Export map to DOT file", format: "dot", target: "file" },
+      { id: "copy-dot", name: "Copy map as DOT", format: "dot", target: "clipboard" },
+      { id: "export-json-file", name: "Export map to JSON file", format: "json", target: "file" },
+      { id: "copy-json", name: "Copy map as JSON", format: "json", target: "clipboard" },
+    ];
+    exports.forEach(({ id, name, format, target }) => {
+      this.addCommand({
+        id,
+        name,
+        checkCallback: (checking) => {
+          if (!this.canvasOperations.get(this.activeBoardId)?.getVisibleGraph) return false;
+          if (!checking) this.exportBoard(this.activeBoardId, format, target);
+          return true;
+        },
+      });
+    });
+
+    // Import the flowchart under the cursor (or the first one of the note)
+    this.addCommand({
+      id: "import-mermaid-flowchart",
+      name: "Import tasks from Mermaid flowchart",
+      editorCheckCallback: (checking, editor) => {
+        const cursorLine = editor.getCursor().line;
+        const flowcharts = extractMermaidBlocks(editor.getValue())
+          .map((block) => ({ ...block, flowchart: parseMermaidFlowchart(block.source) }))
+          .filter((block) => block.flowchart && block.flowchart.nodes.length > 0);
+        if (flowcharts.length === 0) return false;
+        if (checking) return true;
+
+        const { flowchart } =
+          flowcharts.find((block) => cursorLine >= block.startLine - 1 && cursorLine <= block.endLine + 1) ??
+          flowcharts[0];
+        new NoteSuggestModal(this.app, "Note to add the imported tasks to", (file) => {
+          this.importFlowchart(flowchart as Flowchart, file);
+        }).open();
+        return true;
+      },
+    });
+
+    (Object.keys(IMAGE_FORMAT_NAMES) as ImageFormat[]).forEach((format) => {
+      this.addCommand({
+        id: `export-${format}-image`,
+        name: `Export map as ${IMAGE_FORMAT_NAMES[format]} image`,
+        checkCallback: (checking) => {
+          if (!this.canvasOperations.get(this.activeBoardId)?.getImageGraph) return false;
+          if (!checking) this.showImageExport(this.activeBoardId, format);
+          return true;
+        },
+      });
+    });
+
+    this.addCommand({
+      id: "list-dependency-cycles",
+      name: "List dependency cycles",
+      callback: () => {
+        this.showDependencyCycles();
+      },
+    });
+
+    // Jump to a visible task of the current board
+    this.addCommand({
+      id: "search-canvas-tasks",
+      name: "Search tasks on canvas",
+      checkCallback: (checking) => {
+        const getVisibleGraph = this.canvasOperations.get(this.activeBoardId)?.getVisibleGraph;
+        if (!getVisibleGraph) return false;
+        if (!checking) {
+          new CanvasTaskSuggestModal(this.app, getVisibleGraph().tasks, (task) => {
+            this.revealTaskOnCanvas(task.id);
+          }).open();
+        }
+        return true;
+      },
+    });
+
+    // Undo and redo on the current board; the map views also bind Mod+Z
+    this.addCommand({
+      id: "undo-canvas-change",
+      name: "Undo last canvas change",
+      checkCallback: (checking) => {
+        if (!this.canvasOperations.get(this.activeBoardId)?.undo) return false;
+        if (!checking) this.undoCanvasChange(this.activeBoardId);
+        return true;
+      },
+    });
+    this.addCommand({
+      id: "redo-canvas-change",
+      name: "Redo last canvas change",
+      checkCallback: (checking) => {
+        if (!this.canvasOperations.get(this.activeBoardId)?.redo) return false;
+        if (!checking) this.redoCanvasChange(this.activeBoardId);
+        return true;
+      },
+    });
+
+    // Filter presets of the current board; each preset also gets its own
+    // command (see syncFilterPresetCommands) so it can have a hotkey
+    this.addCommand({
+      id: "apply-filter-preset",
+      name: "Apply filter preset",
+      checkCallback: (checking) => {
+        const presets = this.getFilterPresets();
+        if (presets.length === 0) return false;
+        if (!checking) {
+          const boardId = this.activeBoardId;
+          new FilterPresetSuggestModal(this.app, presets, (preset) => {
+            this.applyFilterPreset(boardId, preset.name);
+          }).open();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "save-filter-preset",
+      name: "Save current filter as preset",
+      checkCallback: (checking) => {
+        if (!this.getFilterQuery()) return false;
+        if (!checking) this.promptSaveFilterPreset(this.activeBoardId);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "clear-filter",
+      name: "Clear filter",
+      checkCallback: (checking) => {
+        if (!this.getFilterQuery()) return false;
+        if (!checking) this.setFilterQuery(this.activeBoardId, "");
+        return true;
+      },
+    });
+    this.syncFilterPresetCommands();
+
     this.addRibbonIcon("map", "Open tasks map view", () => {
       this.activateViewInMainArea();
     });
 
-    // Register auto-refresh events
-    this.setupAutoRefresh();
+    // Build the task index once the vault is loaded and keep it up to date
+    this.app.workspace.onLayoutReady(() => {
+      this.taskIndex.rebuild();
+    });
+    this.setupTaskIndexEvents();
   }
 
   /**
-   * Setup auto-refresh event listeners
+   * Keep the task index in sync with the vault, one file at a time
    */
-  private setupAutoRefresh() {
+  private setupTaskIndexEvents() {
     // Listen for metadata cache changes (triggered when file content changes)
     this.registerEvent(
-      this.app.metadataCache.on("changed", (file: TFile) => {
-        if (file.path.startsWith(this.TASKS_FOLDER) && file.extension === "md") {
-          console.log("[TasksMap] File changed:", file.path);
-          this.scheduleRefresh();
-        }
+      this.app.metadataCache.on("changed", (file, data, cache) => {
+        this.taskIndex.updateFile(file, data, cache);
       })
     );
 
-    // Refresh when switching to canvas or sidebar view
     this.registerEvent(
-      this.app.workspace.on("active-leaf-change", (leaf) => {
-        if (!leaf) return;
-        const viewType = leaf.view.getViewType();
-        if (viewType === VIEW_TYPE || viewType === SIDEBAR_VIEW_TYPE) {
-          console.log("[TasksMap] Switched to tasks view");
-          this.triggerRefresh();
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (file instanceof TFile) {
+          this.taskIndex.renameFile(file, oldPath);
         }
       })
     );
+
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        this.taskIndex.removeFile(file.path);
+      })
+    );
   }
 
   /**
-   * Schedule a debounced refresh (300ms)
+   * Schedule a debounced index rebuild (300ms)
    */
-  private scheduleRefresh() {
+  private scheduleRebuild() {
     if (this._refreshDebounceTimer) {
       clearTimeout(this._refreshDebounceTimer);
     }
     this._refreshDebounceTimer = setTimeout(() => {
-      this.triggerRefresh();
+      this.taskIndex.rebuild();
     }, 300);
   }
 
-  /**
-   * Trigger refresh on sidebar and canvas
-   */
-  private triggerRefresh() {
-    console.log("[TasksMap] Triggering auto-refresh");
-    // Refresh sidebar first
-    if (this._sidebarRefreshCallback) {
-      this._sidebarRefreshCallback();
+  // Rebuild the task index, e.g. after the task source settings changed
+  rebuildTaskIndex() {
+    this.scheduleRebuild();
+  }
+
+  async loadAllData() {
+    // Handles every stored format, including the single-canvas one
+    const data = migratePluginData(await this.loadData());
+    this.settings = data.settings;
+    this.boards = data.boards;
+    this.activeBoardId = data.activeBoardId;
+  }
+
+  async saveAllData() {
+    const data: PluginData = {
+      settings: this.settings,
+      boards: this.boards,
+      activeBoardId: this.activeBoardId,
+    };
+    await this.saveData(data);
+  }
+
+  async loadSettings() {
+    await this.loadAllData();
+  }
+
+  async saveSettings() {
+    await this.saveAllData();
+  }
+
+  // Boards
+  getBoards(): Board[] {
+    return this.boards;
+  }
+
+  getBoard(boardId: string = this.activeBoardId): Board | undefined {
+    return (
+      this.boards.find((board) => board.id === boardId) ??
+      this.fileBoards.get(boardId)?.board
+    );
+  }
+
+  // Boards backed by open .taskmap files (TaskMapFileView), not stored in data.json
+  registerFileBoard(file: TFile, graphData: GraphData, onSave: (data: GraphData) => void): string { // eslint-disable-line no-unused-vars
+    const id = `file:${file.path}`;
+    this.fileBoards.set(id, { board: { id, name: file.basename, graphData }, onSave });
+    this.syncFilterPresetCommands();
+    return id;
+  }
+
+  // Replace the data of a file board without writing it back (external changes)
+  updateFileBoard(boardId: string, graphData: GraphData) {
+    const entry = this.fileBoards.get(boardId);
+    if (!entry) return;
+    entry.board = { ...entry.board, graphData };
+    this.syncFilterPresetCommands();
+  }
+
+  unregisterFileBoard(boardId: string) {
+    this.fileBoards.delete(boardId);
+    if (this.activeBoardId === boardId) {
+      this.activeBoardId = this.boards[0].id;
+      this.notifyCanvasChanged();
     }
-    // Then refresh canvas with a small delay
-    setTimeout(() => {
-      if (this._canvasRefreshCallback) {
-        this._canvasRefreshCallback();
-      }
-    }, 50);
   }
 
-  // Sidebar refresh callback registration
-  registerSidebarRefresh(callback: () => void) {
-    this._sidebarRefreshCallback = callback;
+  isFileBoard(boardId: string): boolean {
+    return this.fileBoards.has(boardId);
   }
 
-  unregisterSidebarRefresh() {
-    this._sidebarRefreshCallback = null;
+  // Write pending canvas changes of a board into its graph data
+  flushCanvas(boardId: string) {
+    this.canvasOperations.get(boardId)?.saveNow?.();
   }
 
-  // Canvas refresh callback registration
-  registerCanvasRefresh(callback: () => void) {
-    this._canvasRefreshCallback = callback;
+  // Show the stored graph data of a board on its open canvas
+  reloadCanvas(boardId: string) {
+    this.canvasOperations.get(boardId)?.reload?.();
   }
 
-  unregisterCanvasRefresh() {
-    this._canvasRefreshCallback = null;
+  // Create a .taskmap file, e.g. from the graph data of a board, and open it
+  async createMapFile(name: string, graphData: GraphData = DEFAULT_GRAPH_DATA) {
+    const path = this.getAvailablePath(name, TASKMAP_EXTENSION);
+    const file = await this.app.vault.create(path, serializeTaskMapFile(graphData));
+    await this.app.workspace.getLeaf(true).openFile(file);
   }
 
-  async loadAllData() {
-    const data = await this.loadData();
-    if (data) {
-      // Handle legacy format (just settings) or new format (settings + graphData)
-      if (data.settings) {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, data.settings);
-        this.graphData = Object.assign({}, DEFAULT_GRAPH_DATA, data.graphData || {});
+  // A vault root path for a new file that doesn't exist yet ("Name 2.md", ...)
+  private getAvailablePath(name: string, extension: string): string {
+    const baseName = name.replace(/[\\/:*?"<>|#^[\]]/g, "").trim() || "Tasks map";
+    let path = `${baseName}.${extension}`;
+    for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+      path = `${baseName} ${n}.${extension}`;
+    }
+    return path;
+  }
+
+  // Export the visible tasks and connections of an open board
+  async exportBoard(boardId: string, format: ExportFormat, target: "clipboard" | "file") {
+    const graph = this.canvasOperations.get(boardId)?.getVisibleGraph?.();
+    if (!graph) {
+      new Notice("Open the map view to export it");
+      return;
+    }
+    if (graph.tasks.length === 0) {
+      new Notice("Nothing to export: no tasks are visible");
+      return;
+    }
+
+    const formatName = EXPORT_FORMAT_NAMES[format];
+    const content = exportGraph(format, graph.tasks, graph.edges, this.getLayoutDirection(boardId));
+    if (target === "clipboard") {
+      try {
+        await navigator.clipboard.writeText(content);
+      } catch (error) {
+        console.error("[TasksMap] Copying the export failed:", error);
+        new Notice(`Failed to copy the map: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+      new Notice(`Copied ${graph.tasks.length} tasks as ${formatName}`);
+      return;
+    }
+
+    // Mermaid goes into a note, where Obsidian renders it
+    const isNote = format === "mermaid";
+    const path = this.getAvailablePath(
+      `${this.getBoard(boardId)?.name ?? "Tasks map"} dependencies`,
+      isNote ? "md" : format
+    );
+    try {
+      const file = await this.app.vault.create(path, isNote ? "```mermaid\n" + content + "```\n" : content);
+      if (isNote) await this.app.workspace.getLeaf(true).openFile(file);
+    } catch (error) {
+      console.error("[TasksMap] Export failed:", error);
+      new Notice(`Failed to export the map: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    new Notice(`Exported ${graph.tasks.length} tasks to ${path}`);
+  }
+
+  // Ask for the image options, then export
+  showImageExport(boardId: string, format: ImageFormat) {
+    const operations = this.canvasOperations.get(boardId);
+    if (!operations?.getImageGraph) {
+      new Notice("Open the map view to export it");
+      return;
+    }
+
+    const selectedCount = operations.getImageGraph(true).nodes.length;
+    new ImageExportModal(this.app, { ...this.imageExportOptions, format }, selectedCount, (options) => {
+      this.imageExportOptions = options;
+      this.exportImage(boardId, options);
+    }).open();
+  }
+
+  // Render the visible tasks (or the selected ones) of an open board into an
+  // image file in the vault
+  async exportImage(boardId: string, options: ImageExportOptions) {
+    const graph = this.canvasOperations.get(boardId)?.getImageGraph?.(options.selectionOnly);
+    if (!graph) {
+      new Notice("Open the map view to export it");
+      return;
+    }
+    if (graph.nodes.length === 0) {
+      new Notice("Nothing to export: no tasks are visible");
+      return;
+    }
+
+    const { svg, width, height } = renderGraphSvg(graph, resolveImageTheme(document.body), {
+      scale: options.scale,
+      direction: this.getLayoutDirection(boardId),
+    });
+    const path = this.getAvailablePath(`${this.getBoard(boardId)?.name ?? "Tasks map"} map`, options.format);
+    try {
+      if (options.format === "svg") {
+        await this.app.vault.create(path, svg);
       } else {
-        // Legacy format: data is just settings
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
-        this.graphData = DEFAULT_GRAPH_DATA;
+        await this.app.vault.createBinary(path, await svgToPng(svg, width, height));
       }
+    } catch (error) {
+      console.error("[TasksMap] Image export failed:", error);
+      new Notice(`Failed to export the map image: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    new Notice(`Exported ${graph.nodes.length} tasks to ${path}`);
+  }
+
+  // Create a task per flowchart node in a note, with the arrows as
+  // dependencies, and place the tasks on the active board
+  async importFlowchart(flowchart: Flowchart, file: TFile) {
+    const { linkingStyle } = this.settings;
+    const boardId = this.activeBoardId;
+
+    const ids = new Map<string, string>();
+    flowchart.nodes.forEach((node) => {
+      let id = generateTaskId();
+      while (Array.from(ids.values()).includes(id)) id = generateTaskId();
+      ids.set(node.id, id);
+    });
+    const getId = (nodeId: string) => ids.get(nodeId) as string;
+    // A --> B: B is blocked by A
+    const getDependencies = (nodeId: string) =>
+      flowchart.edges.filter(({ target }) => target === nodeId).map(({ source }) => getId(source));
+    const lines = flowchart.nodes.map((node) =>
+      formatImportedTaskLine(node.label, getId(node.id), getDependencies(node.id), linkingStyle)
+    );
+
+    let firstLine = 0;
+    try {
+      await this.app.vault.process(file, (content) => {
+        const prefix = content === "" || content.endsWith("\n") ? content : content + "\n";
+        firstLine = prefix.split(/\r?\n/).length - 1;
+        return prefix + lines.join("\n") + "\n";
+      });
+    } catch (error) {
+      console.error("[TasksMap] Flowchart import failed:", error);
+      new Notice(`Failed to import the flowchart: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const tasks = new Map<string, Task>(
+      flowchart.nodes.map((node, i) => {
+        const id = getId(node.id);
+        const text = lines[i].slice("- [ ] ".length);
+        return [
+          node.id,
+          {
+            id,
+            type: "dataview",
+            summary: node.label,
+            text,
+            tags: [],
+            status: "todo",
+            priority: "",
+            link: file.path,
+            incomingLinks: getDependencies(node.id),
+            starred: false,
+            line: firstLine + i,
+          },
+        ];
+      })
+    );
+
+    // Place the tasks next to the existing ones, in the flowchart's order
+    this.flushCanvas(boardId);
+    const graphData = this.getGraphData(boardId);
+    const vertical = this.getLayoutDirection(boardId) === "Vertical";
+    const gap = 40;
+    const origin = graphData.nodes.length === 0
+      ? { x: 0, y: 0 }
+      : vertical
+        ? { x: Math.min(...graphData.nodes.map((n) => n.position.x)), y: Math.max(...graphData.nodes.map((n) => n.position.y)) + NODEHEIGHT + gap * 2 }
+        : { x: Math.max(...graphData.nodes.map((n) => n.position.x)) + NODEWIDTH + gap * 2, y: Math.min(...graphData.nodes.map((n) => n.position.y)) };
+    const layout = layoutFlowchart(flowchart, { vertical, nodeWidth: NODEWIDTH, nodeHeight: NODEHEIGHT, gap });
+    const entries = flowchart.nodes.map((node) => {
+      const { x, y } = layout.get(node.id) as { x: number; y: number };
+      return { task: tasks.get(node.id) as Task, position: { x: origin.x + x, y: origin.y + y } };
+    });
+    const dependencies = flowchart.edges.map(({ source, target }) => ({ source: getId(source), target: getId(target) }));
+
+    const operations = this.canvasOperations.get(boardId);
+    if (operations?.addTasksToCanvas) {
+      operations.addTasksToCanvas(entries, dependencies);
     } else {
-      this.settings = DEFAULT_SETTINGS;
-      this.graphData = DEFAULT_GRAPH_DATA;
+      const onCanvas = storesEdgesOnCanvas(this.getEdgePersistence(boardId));
+      try {
+        await this.saveGraphData(boardId, {
+          ...graphData,
+          nodes: [
+            ...graphData.nodes,
+            ...entries.map(({ task, position }) => ({ id: task.id, position, taskId: task.id, taskData: task })),
+          ],
+          edges: onCanvas
+            ? [...graphData.edges, ...dependencies.map(({ source, target }) => ({ id: `${source}-${target}`, source, target }))]
+            : graphData.edges,
+        });
+      } catch (error) {
+        console.error("[TasksMap] Saving the imported tasks failed:", error);
+        new Notice(`Imported the tasks to ${file.basename}, but failed to place them on the board`);
+        return;
+      }
+      this.notifyCanvasChanged();
     }
+
+    new Notice(`Imported ${entries.length} tasks and ${dependencies.length} dependencies to ${file.basename}`);
   }
 
-  async saveAllData() {
-    const data: PluginData = {
-      settings: this.settings,
-      graphData: this.graphData,
+  // Called by map views when they get focus or switch boards
+  async setActiveBoard(boardId: string) {
+    if (boardId === this.activeBoardId || !this.getBoard(boardId)) return;
+    this.activeBoardId = boardId;
+    await this.saveAllData();
+    this.notifyCanvasChanged();
+  }
+
+  async createBoard(name: string, graphData: GraphData = DEFAULT_GRAPH_DATA): Promise<Board> {
+    const board: Board = {
+      id: createBoardId(name, this.boards),
+      name: getUniqueBoardName(name, this.boards),
+      graphData,
     };
-    await this.saveData(data);
+    this.boards = [...this.boards, board];
+    await this.saveAllData();
+    this.canvasEvents.trigger("boards-changed");
+    return board;
   }
 
-  async loadSettings() {
-    await this.loadAllData();
+  async renameBoard(boardId: string, name: string) {
+    this.boards = this.boards.map((board) =>
+      board.id === boardId ? { ...board, name } : board
+    );
+    await this.saveAllData();
+    this.canvasEvents.trigger("boards-changed");
   }
 
-  async saveSettings() {
+  async duplicateBoard(boardId: string): Promise<Board | undefined> {
+    const board = this.getBoard(boardId);
+    if (!board) return undefined;
+    // Save the open canvas first so the copy is up to date
+    this.flushCanvas(boardId);
+    return this.createBoard(`${board.name} copy`, copyGraphData(this.getGraphData(boardId)));
+  }
+
+  async deleteBoard(boardId: string) {
+    if (this.boards.length <= 1) {
+      new Notice("Cannot delete the last board");
+      return;
+    }
+    this.boards = this.boards.filter((board) => board.id !== boardId);
+    if (this.activeBoardId === boardId) this.activeBoardId = this.boards[0].id;
     await this.saveAllData();
+    // Map views showing the board switch to another one
+    this.canvasEvents.trigger("boards-changed");
+    this.syncFilterPresetCommands();
+    this.notifyCanvasChanged();
+  }
+
+  // Called by map views to follow board creation, renames and deletion
+  onBoardsChanged(callback: () => void): EventRef {
+    return this.canvasEvents.on("boards-changed", callback);
+  }
+
+  offBoardsChanged(ref: EventRef) {
+    this.canvasEvents.offref(ref);
+  }
+
+  // Open a board in a map view; reuses a view already showing it
+  async openBoard(boardId: string, newLeaf = false) {
+    const existing = this.app.workspace
+      .getLeavesOfType(VIEW_TYPE)
+      .find((leaf) => (leaf.view as TaskMapGraphItemView).boardId === boardId);
+    if (existing && !newLeaf) {
+      this.app.workspace.revealLeaf(existing);
+      return;
+    }
+
+    const leaf = this.app.workspace.getLeaf(newLeaf ? "tab" : false);
+    await leaf.setViewState({ type: VIEW_TYPE, active: true, state: { boardId } });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  private promptNewBoard() {
+    new PromptModal(
+      this.app,
+      { title: "New board", placeholder: "Board name", submitText: "Create" },
+      async (name) => {
+        const board = await this.createBoard(name);
+        await this.openBoard(board.id, true);
+      }
+    ).open();
+  }
+
+  private promptRenameBoard(boardId: string) {
+    const board = this.getBoard(boardId);
+    if (!board) return;
+    new PromptModal(
+      this.app,
+      { title: "Rename board", value: board.name, submitText: "Rename" },
+      (name) => this.renameBoard(boardId, name)
+    ).open();
+  }
+
+  private async duplicateAndOpenBoard(boardId: string) {
+    const copy = await this.duplicateBoard(boardId);
+    if (copy) await this.openBoard(copy.id, true);
+  }
+
+  private confirmDeleteBoard(boardId: string) {
+    const board = this.getBoard(boardId);
+    if (!board) return;
+    if (confirm(`Delete the board "${board.name}"? Its nodes and connections on the canvas will be lost.`)) {
+      this.deleteBoard(boardId);
+    }
+  }
+
+  // Board management entries for the map view header menu
+  addBoardMenuItems(menu: Menu, boardId: string) {
+    menu.addItem((item) =>
+      item.setTitle("New board…").setIcon("plus").onClick(() => this.promptNewBoard())
+    );
+    menu.addItem((item) =>
+      item.setTitle("Rename board…").setIcon("pencil").onClick(() => this.promptRenameBoard(boardId))
+    );
+    menu.addItem((item) =>
+      item.setTitle("Duplicate board").setIcon("copy").onClick(() => this.duplicateAndOpenBoard(boardId))
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle("Delete board")
+        .setIcon("trash")
+        .setDisabled(this.boards.length <= 1)
+        .onClick(() => this.confirmDeleteBoard(boardId))
+    );
   }
 
   // Graph data specific methods
-  getGraphData(): GraphData {
-    return this.graphData;
+  getGraphData(boardId: string = this.activeBoardId): GraphData {
+    return this.getBoard(boardId)?.graphData ?? DEFAULT_GRAPH_DATA;
+  }
+
+  // Edge persistence mode of the canvas (per-canvas override or global setting)
+  getEdgePersistence(boardId: string = this.activeBoardId): EdgePersistenceMode {
+    return resolveEdgePersistence(this.settings, this.getGraphData(boardId));
+  }
+
+  async setCanvasEdgePersistence(boardId: string, mode: EdgePersistenceMode | undefined) {
+    await this.saveGraphData(boardId, { ...this.getGraphData(boardId), edgePersistence: mode });
+    this.canvasOperations.get(boardId)?.reconcileEdges?.();
+  }
+
+  getViewMode(boardId: string = this.activeBoardId): CanvasViewMode {
+    return this.getGraphData(boardId).viewMode ?? "graph";
+  }
+
+  async setViewMode(boardId: string, mode: CanvasViewMode) {
+    await this.saveGraphData(boardId, { ...this.getGraphData(boardId), viewMode: mode });
+    this.canvasEvents.trigger("view-mode-changed", boardId, mode);
+  }
+
+  // Called by the canvas to follow view mode switches from the view header
+  onViewModeChanged(callback: (boardId: string, mode: CanvasViewMode) => void): EventRef { // eslint-disable-line no-unused-vars
+    return this.canvasEvents.on("view-mode-changed", callback as Parameters<Events["on"]>[1]);
+  }
+
+  offViewModeChanged(ref: EventRef) {
+    this.canvasEvents.offref(ref);
   }
 
-  async saveGraphData(data: GraphData) {
-    this.graphData = data;
+  getLayoutDirection(boardId: string = this.activeBoardId): "Horizontal" | "Vertical" {
+    return this.getGraphData(boardId).layoutDirection ?? this.settings.layoutDirection;
+  }
+
+  async setLayoutDirection(boardId: string, direction: "Horizontal" | "Vertical") {
+    await this.saveGraphData(boardId, { ...this.getGraphData(boardId), layoutDirection: direction });
+  }
+
+  isToolbarOpen(boardId: string = this.activeBoardId): boolean {
+    return this.getGraphData(boardId).toolbarOpen ?? true;
+  }
+
+  async setToolbarOpen(boardId: string, open: boolean) {
+    await this.saveGraphData(boardId, { ...this.getGraphData(boardId), toolbarOpen: open });
+  }
+
+  getFilterQuery(boardId: string = this.activeBoardId): string {
+    return getActiveFilter(this.getGraphData(boardId)).query;
+  }
+
+  // Name of the applied preset, unless the query was edited since
+  getActiveFilterPreset(boardId: string = this.activeBoardId): string | undefined {
+    return getActiveFilter(this.getGraphData(boardId)).preset;
+  }
+
+  getFilterPresets(boardId: string = this.activeBoardId): FilterPreset[] {
+    return this.getGraphData(boardId).filterPresets ?? [];
+  }
+
+  async setFilterQuery(boardId: string, query: string, preset?: string) {
+    const current = getActiveFilter(this.getGraphData(boardId));
+    if (query === current.query && preset === current.preset) return;
+    await this.saveGraphData(boardId, { ...this.getGraphData(boardId), filters: { query, preset } });
+    this.canvasEvents.trigger("filter-changed", boardId, query);
+  }
+
+  async applyFilterPreset(boardId: string, name: string) {
+    const preset = findFilterPreset(this.getFilterPresets(boardId), name);
+    if (!preset) return;
+    await this.setFilterQuery(boardId, preset.query, preset.name);
+  }
+
+  // Save the query under a name (replacing a preset of that name) and apply it
+  async saveFilterPreset(boardId: string, name: string, query: string) {
+    const graphData = this.getGraphData(boardId);
+    await this.saveGraphData(boardId, {
+      ...graphData,
+      filterPresets: upsertFilterPreset(graphData.filterPresets, { name, query }),
+      filters: { query, preset: name },
+    });
+    this.syncFilterPresetCommands();
+    this.canvasEvents.trigger("filter-changed", boardId, query);
+    new Notice(`Saved filter preset "${name}"`);
+  }
+
+  // The filter of the board stays as it is
+  async deleteFilterPreset(boardId: string, name: string) {
+    const graphData = this.getGraphData(boardId);
+    const { query, preset } = getActiveFilter(graphData);
+    const filterPresets = removeFilterPreset(graphData.filterPresets, name);
+    await this.saveGraphData(boardId, {
+      ...graphData,
+      filterPresets,
+      filters: { query, preset: preset && findFilterPreset(filterPresets, preset)?.name },
+    });
+    this.syncFilterPresetCommands();
+    this.canvasEvents.trigger("filter-changed", boardId, query);
+  }
+
+  promptSaveFilterPreset(boardId: string) {
+    new PromptModal(
+      this.app,
+      {
+        title: "Save filter preset",
+        placeholder: "Preset name",
+        value: this.getActiveFilterPreset(boardId) ?? "",
+      },
+      (name) => this.saveFilterPreset(boardId, name, this.getFilterQuery(boardId))
+    ).open();
+  }
+
+  // One command per preset name, applying the preset of that name on the
+  // current board; presets with the same name on several boards share it
+  private syncFilterPresetCommands() {
+    const names = new Map<string, string>();
+    [...this.boards, ...Array.from(this.fileBoards.values()).map(({ board }) => board)].forEach((board) =>
+      board.graphData.filterPresets?.forEach((preset) => {
+        names.set(getFilterPresetCommandId(preset.name), preset.name);
+      })
+    );
+
+    this.filterPresetCommands.forEach((_, id) => {
+      if (names.has(id)) return;
+      this.removeCommand(id);
+      this.filterPresetCommands.delete(id);
+    });
+    names.forEach((name, id) => {
+      if (this.filterPresetCommands.has(id)) return;
+      this.addCommand({
+        id,
+        name: `Apply filter preset: ${name}`,
+        checkCallback: (checking) => {
+          if (!findFilterPreset(this.getFilterPresets(), name)) return false;
+          if (!checking) this.applyFilterPreset(this.activeBoardId, name);
+          return true;
+        },
+      });
+      this.filterPresetCommands.set(id, name);
+    });
+  }
+
+  // Called by the canvas and the sidebar, which share the filter of a board
+  onFilterChanged(callback: (boardId: string, query: string) => void): EventRef { // eslint-disable-line no-unused-vars
+    return this.canvasEvents.on("filter-changed", callback as Parameters<Events["on"]>[1]);
+  }
+
+  offFilterChanged(ref: EventRef) {
+    this.canvasEvents.offref(ref);
+  }
+
+  reconcileCanvasEdges() {
+    this.canvasOperations.get(this.activeBoardId)?.reconcileEdges?.();
+  }
+
+  async saveGraphData(boardId: string, data: GraphData) {
+    const fileBoard = this.fileBoards.get(boardId);
+    if (fileBoard) {
+      fileBoard.board = { ...fileBoard.board, graphData: data };
+      fileBoard.onSave(data);
+      return;
+    }
+
+    // Ignore late saves of deleted boards
+    if (!this.getBoard(boardId)) return;
+    this.boards = this.boards.map((board) =>
+      board.id === boardId ? { ...board, graphData: data } : board
+    );
     await this.saveAllData();
   }
 
-  // Clear all graph data (nodes, edges, viewport)
-  async clearGraphData() {
-    this.graphData = {
+  // Clear all graph data (nodes, edges, viewport) of a board
+  async clearGraphData(boardId: string = this.activeBoardId) {
+    const graphData = this.getGraphData(boardId);
+    await this.saveGraphData(boardId, {
       nodes: [],
       edges: [],
       viewport: { x: 0, y: 0, zoom: 1 },
-    };
-    await this.saveAllData();
+      edgePersistence: graphData.edgePersistence,
+      viewMode: graphData.viewMode,
+      filters: graphData.filters,
+    });
     
     // Also clear canvas nodes if canvas is open
-    if (this._clearCanvasNodes) {
-      this._clearCanvasNodes();
-    }
+    this.canvasOperations.get(boardId)?.clearCanvasNodes?.();
+    this.notifyCanvasChanged();
   }
 
   async activateViewInMainArea() {
     const leaf = this.app.workspace.getLeaf(true); // true = main area
-    await leaf.setViewState({ type: VIEW_TYPE, active: true });
+    await leaf.setViewState({ type: VIEW_TYPE, active: true, state: { boardId: this.activeBoardId } });
     this.app.workspace.revealLeaf(leaf);
   }
 
@@ -230,46 +1006,122 @@ export default class TasksMapPlugin extends Plugin {
     }
   }
 
-  // Canvas operation registration (called by TaskMapGraphView)
-  registerCanvasOperations(
-    addTask: (taskId: string, position: { x: number; y: number }, taskData?: unknown) => void,
-    getTaskIds: () => string[],
-    clearNodes?: () => void
-  ) {
-    this._addTaskToCanvas = addTask;
-    this._getCanvasTaskIds = getTaskIds;
-    this._clearCanvasNodes = clearNodes || null;
+  // Open the file of a task at its line
+  async openTaskInFile(task: Task) {
+    if (!task.link) return;
+
+    const file = this.app.vault.getAbstractFileByPath(task.link);
+    if (file instanceof TFile) {
+      // Open in active leaf (current window)
+      const leaf = this.app.workspace.getLeaf(false);
+      await leaf.openFile(file, { eState: { line: task.line ?? 0 } });
+    }
   }
 
-  unregisterCanvasOperations() {
-    this._addTaskToCanvas = null;
-    this._getCanvasTaskIds = null;
-    this._clearCanvasNodes = null;
+  // Undo and redo on the canvas of a board, see TaskMapGraphView
+  undoCanvasChange(boardId: string) {
+    this.canvasOperations.get(boardId)?.undo?.();
   }
 
-  // Called by sidebar to add task to canvas
+  redoCanvasChange(boardId: string) {
+    this.canvasOperations.get(boardId)?.redo?.();
+  }
+
+  // Center the map view on a task and select it
+  revealTaskOnCanvas(taskId: string) {
+    const revealed = this.canvasOperations.get(this.activeBoardId)?.revealTask?.(taskId);
+    if (!revealed) {
+      new Notice("Task is not on the canvas");
+      return;
+    }
+
+    const leaf = this.app.workspace
+      .getLeavesOfType(VIEW_TYPE)
+      .find((l) => (l.view as TaskMapGraphItemView).boardId === this.activeBoardId);
+    if (leaf) this.app.workspace.revealLeaf(leaf);
+  }
+
+  // Cycles among the task file dependencies and the connections of each board
+  showDependencyCycles() {
+    const boards = [...this.boards, ...Array.from(this.fileBoards.values()).map(({ board }) => board)];
+    const cycles = findBoardCycles(
+      createEdgesFromTasks(this.taskIndex.getTasks()),
+      boards.map((board) => ({ name: board.name, edges: board.graphData.edges }))
+    );
+    if (cycles.length === 0) {
+      new Notice("No dependency cycles found");
+      return;
+    }
+
+    new DependencyCyclesModal(
+      this.app,
+      cycles,
+      (id) => this.taskIndex.getTask(id),
+      (task) => this.openTaskInFile(task)
+    ).open();
+  }
+
+  // Canvas operation registration (called by TaskMapGraphView, one per board)
+  registerCanvasOperations(boardId: string, operations: CanvasOperations) {
+    this.canvasOperations.set(boardId, operations);
+    this.notifyCanvasChanged();
+  }
+
+  unregisterCanvasOperations(boardId: string, operations: CanvasOperations) {
+    // Another view may have registered the board since
+    if (this.canvasOperations.get(boardId) !== operations) return;
+    this.canvasOperations.delete(boardId);
+    this.notifyCanvasChanged();
+  }
+
+  // Called by sidebar to add task to the active board
   addTaskToCanvas(taskId: string, position: { x: number; y: number }, taskData?: unknown) {
-    if (this._addTaskToCanvas) {
-      this._addTaskToCanvas(taskId, position, taskData);
+    this.canvasOperations.get(this.activeBoardId)?.addTaskToCanvas(taskId, position, taskData);
+  }
+
+  // Called by canvases when they place a task, and once for the tasks of a
+  // saved board without a stable ID
+  // Returns the task with its stable ID, or unchanged if it can't be written
+  async assignStableTaskId(task: Task): Promise<Task> {
+    if (hasStableId(task)) return ensureStableTaskId(this.app.vault, task, this.settings.linkingStyle);
+    const key = `${task.link}:${task.line}`;
+    if (this.pendingIdAssignments.has(key) || this.failedIdAssignments.has(key)) return task;
+    this.pendingIdAssignments.add(key);
+    try {
+      const stableTask = await ensureStableTaskId(this.app.vault, task, this.settings.linkingStyle);
+      if (!hasStableId(stableTask)) this.failedIdAssignments.add(key);
+      return stableTask;
+    } catch (err) {
+      console.error("Failed to write task ID:", err);
+      new Notice(`Failed to write an ID to a task in ${task.link}`);
+      this.failedIdAssignments.add(key);
+      return task;
+    } finally {
+      this.pendingIdAssignments.delete(key);
     }
   }
 
-  // Called by sidebar to get list of tasks on canvas
+  // Called by sidebar to get list of tasks on the active board
   getCanvasTaskIds(): string[] {
-    if (this._getCanvasTaskIds) {
-      return this._getCanvasTaskIds();
+    const operations = this.canvasOperations.get(this.activeBoardId);
+    if (operations) {
+      return operations.getCanvasTaskIds();
     }
-    return this.graphData.nodes.map((n) => n.taskId);
+    return this.getGraphData().nodes.map((n) => n.taskId);
+  }
+
+  // Called by canvas whenever its nodes change
+  notifyCanvasChanged() {
+    this.canvasEvents.trigger("canvas-changed", this.getCanvasTaskIds());
   }
 
-  // Called by sidebar to register its tasks (for canvas updates)
-  setSidebarTasks(tasks: Task[]) {
-    this._sidebarTasks = tasks;
+  // Called by sidebar to follow the tasks on the canvas
+  onCanvasChanged(callback: (taskIds: string[]) => void): EventRef { // eslint-disable-line no-unused-vars
+    return this.canvasEvents.on("canvas-changed", callback as Parameters<Events["on"]>[1]);
   }
 
-  // Called by canvas to get sidebar tasks for updates
-  getSidebarTasks(): Task[] {
-    return this._sidebarTasks;
+  offCanvasChanged(ref: EventRef) {
+    this.canvasEvents.offref(ref);
   }
 
   async onunload() {
@@ -1,6 +1,7 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import TasksMapPlugin from "../main";
 import { getTagColor } from "../lib/utils";
+import { CyclePolicy, EdgePersistenceMode } from "../types/settings";
 
 export class TasksMapSettingTab extends PluginSettingTab {
   plugin: TasksMapPlugin;
@@ -45,6 +46,35 @@ export class TasksMapSettingTab extends PluginSettingTab {
     });
   }
 
+  private addPathListSetting(
+    container: HTMLElement,
+    name: string,
+    desc: string,
+    placeholder: string,
+    key:
+      | "includeFolders"
+      | "excludeFolders"
+      | "includePatterns"
+      | "excludePatterns"
+  ): void {
+    new Setting(container)
+      .setName(name)
+      .setDesc(desc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder(placeholder)
+          .setValue(this.plugin.settings[key].join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings[key] = value
+              .split("\n")
+              .map((line) => line.trim())
+              .filter((line) => line.length > 0);
+            await this.plugin.saveSettings();
+            this.plugin.rebuildTaskIndex();
+          })
+      );
+  }
+
   display(): void {
     const { containerEl } = this;
 
@@ -76,6 +106,40 @@ export class TasksMapSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl).setHeading().setName("Task Sources");
+
+    this.addPathListSetting(
+      containerEl,
+      "Include folders",
+      "Only scan tasks in these folders (one per line). Leave empty to scan the whole vault.",
+      "Projects\nAreas/Tasks",
+      "includeFolders"
+    );
+
+    this.addPathListSetting(
+      containerEl,
+      "Exclude folders",
+      "Never scan tasks in these folders (one per line)",
+      "Archive\nTemplates",
+      "excludeFolders"
+    );
+
+    this.addPathListSetting(
+      containerEl,
+      "Include patterns",
+      "Also scan files matching these glob patterns (one per line, e.g. **/*.tasks.md)",
+      "**/*.tasks.md",
+      "includePatterns"
+    );
+
+    this.addPathListSetting(
+      containerEl,
+      "Exclude patterns",
+      "Never scan files matching these glob patterns (one per line)",
+      "**/_drafts/**",
+      "excludePatterns"
+    );
+
     new Setting(containerEl).setHeading().setName("Layout");
 
     new Setting(containerEl)
@@ -273,6 +337,100 @@ export class TasksMapSettingTab extends PluginSettingTab {
     // Initialize preview
     updatePreview(this.plugin.settings.linkingStyle);
 
+    new Setting(containerEl)
+      .setName("Edge persistence")
+      .setDesc(
+        "Where connections drawn on the canvas are stored. Can be overridden per canvas from the view header."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("canvas", "Canvas only (data.json)")
+          .addOption("markdown", "Task files only")
+          .addOption("both", "Canvas and task files")
+          .setValue(this.plugin.settings.edgePersistence)
+          .onChange(async (value) => {
+            this.plugin.settings.edgePersistence = value as EdgePersistenceMode;
+            await this.plugin.saveSettings();
+            this.plugin.reconcileCanvasEdges();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Dependency cycles")
+      .setDesc("What happens when a new connection would create a cycle")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("warn", "Warn and connect")
+          .addOption("refuse", "Refuse the connection")
+          .setValue(this.plugin.settings.cyclePolicy)
+          .onChange(async (value) => {
+            this.plugin.settings.cyclePolicy = value as CyclePolicy;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setHeading().setName("New Tasks");
+
+    new Setting(containerEl)
+      .setName("Default task type")
+      .setDesc(
+        "What double-clicking the canvas creates: a task line in a note, or a note of its own"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("line", "Task line")
+          .addOption("note", "Note task")
+          .setValue(this.plugin.settings.newTaskType)
+          .onChange(async (value) => {
+            this.plugin.settings.newTaskType = value as "line" | "note";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Inbox note")
+      .setDesc("Note new task lines are appended to; created if missing")
+      .addText((text) =>
+        text
+          .setPlaceholder("Inbox.md")
+          .setValue(this.plugin.settings.inboxFile)
+          .onChange(async (value) => {
+            this.plugin.settings.inboxFile = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Note task folder")
+      .setDesc("Folder new note tasks are created in")
+      .addText((text) =>
+        text
+          .setPlaceholder("Tasks")
+          .setValue(this.plugin.settings.noteTaskFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.noteTaskFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Dependent task location")
+      .setDesc(
+        "Where a task created by dragging a connection from a task onto empty canvas goes"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("source", "Next to the task it depends on")
+          .addOption("default", "Default location for new tasks")
+          .setValue(this.plugin.settings.dependentTaskLocation)
+          .onChange(async (value) => {
+            this.plugin.settings.dependentTaskLocation = value as
+              | "source"
+              | "default";
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl).setHeading().setName("Advanced Options");
 
     new Setting(containerEl)
@@ -1,9 +1,22 @@
+import { TaskStatus } from "./task";
+
+// Where canvas connections are stored: data.json, the task files, or both
+export type EdgePersistenceMode = "canvas" | "markdown" | "both";
+
+// What happens when a new connection would close a dependency cycle
+export type CyclePolicy = "warn" | "refuse";
+
+// How the canvas lays out nodes: free graph or time axis
+export type CanvasViewMode = "graph" | "timeline";
+
 export interface TasksMapSettings {
   showPriorities: boolean;
   showTags: boolean;
 
   layoutDirection: "Horizontal" | "Vertical";
   linkingStyle: "individual" | "csv" | "dataview";
+  edgePersistence: EdgePersistenceMode;
+  cyclePolicy: CyclePolicy;
 
   debugVisualization: boolean;
 
@@ -11,6 +24,18 @@ export interface TasksMapSettings {
   tagColorMode: "random" | "static";
   tagColorSeed: number;
   tagStaticColor: string;
+
+  // Task source settings (empty include lists = whole vault)
+  includeFolders: string[];
+  excludeFolders: string[];
+  includePatterns: string[];
+  excludePatterns: string[];
+
+  // Tasks created on the canvas
+  newTaskType: "line" | "note";
+  inboxFile: string; // Note new line tasks are appended to
+  noteTaskFolder: string; // Folder of new note tasks
+  dependentTaskLocation: "source" | "default"; // Where tasks dragged out of a node are created
 }
 
 export const DEFAULT_SETTINGS: TasksMapSettings = {
@@ -19,6 +44,8 @@ export const DEFAULT_SETTINGS: TasksMapSettings = {
 
   layoutDirection: "Horizontal",
   linkingStyle: "csv",
+  edgePersistence: "canvas",
+  cyclePolicy: "warn",
 
   debugVisualization: false,
 
@@ -26,6 +53,18 @@ export const DEFAULT_SETTINGS: TasksMapSettings = {
   tagColorMode: "random",
   tagColorSeed: 42,
   tagStaticColor: "#3b82f6",
+
+  // Task source defaults
+  includeFolders: [],
+  excludeFolders: [],
+  includePatterns: [],
+  excludePatterns: [],
+
+  // New task defaults
+  newTaskType: "line",
+  inboxFile: "Inbox.md",
+  noteTaskFolder: "Tasks",
+  dependentTaskLocation: "source",
 };
 
 // ========== Graph Data Persistence ==========
@@ -62,10 +101,30 @@ export interface SavedViewport {
   zoom: number;
 }
 
+export interface SavedFilters {
+  query?: string; // Filter query, e.g. "tag:#work status:todo"
+  preset?: string; // Name of the applied preset
+  // Tag and status selections saved before filter queries
+  tags?: string[];
+  statuses?: TaskStatus[];
+}
+
+// A named filter query saved with a canvas
+export interface FilterPreset {
+  name: string;
+  query: string;
+}
+
 export interface GraphData {
   nodes: SavedNodeData[];
   edges: SavedEdgeData[];
   viewport: SavedViewport;
+  edgePersistence?: EdgePersistenceMode; // Overrides the global setting
+  viewMode?: CanvasViewMode; // Defaults to "graph"
+  filters?: SavedFilters; // Filter of the canvas and the sidebar
+  filterPresets?: FilterPreset[];
+  layoutDirection?: "Horizontal" | "Vertical"; // Overrides the global setting
+  toolbarOpen?: boolean; // Defaults to open
 }
 
 export const DEFAULT_GRAPH_DATA: GraphData = {
@@ -74,13 +133,30 @@ export const DEFAULT_GRAPH_DATA: GraphData = {
   viewport: { x: 0, y: 0, zoom: 1 },
 };
 
-// Combined plugin data (settings + graph data)
+// A named canvas with its own graph data
+export interface Board {
+  id: string;
+  name: string;
+  graphData: GraphData;
+}
+
+export const DEFAULT_BOARD_ID = "default";
+
+export const DEFAULT_BOARD: Board = {
+  id: DEFAULT_BOARD_ID,
+  name: "Main board",
+  graphData: DEFAULT_GRAPH_DATA,
+};
+
+// Combined plugin data (settings + boards)
 export interface PluginData {
   settings: TasksMapSettings;
-  graphData: GraphData;
+  boards: Board[];
+  activeBoardId: string; // Board used by the sidebar and new map views
 }
 
 export const DEFAULT_PLUGIN_DATA: PluginData = {
   settings: DEFAULT_SETTINGS,
-  graphData: DEFAULT_GRAPH_DATA,
+  boards: [DEFAULT_BOARD],
+  activeBoardId: DEFAULT_BOARD_ID,
 };
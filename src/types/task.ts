@@ -20,8 +20,29 @@ export interface Task {
   link: string;
   incomingLinks: string[]; // References to other tasks (format depends on type)
   starred: boolean;
+  line?: number; // 0-based line in the source file (line tasks only)
+  project?: string; // Project from the source file's frontmatter
+  // Dates as YYYY-MM-DD (📅 ⏳ 🛫 ➕ ✅ ❌ or Dataview inline fields)
+  dueDate?: string;
+  scheduledDate?: string;
+  startDate?: string;
+  createdDate?: string;
+  doneDate?: string;
+  cancelledDate?: string;
+  recurrence?: string; // 🔁 rule text, e.g. "every week"
+  estimate?: number; // Estimated work in hours ([estimate:: 3h])
 }
 
+export type TaskDates = Pick<
+  Task,
+  | "dueDate"
+  | "scheduledDate"
+  | "startDate"
+  | "createdDate"
+  | "doneDate"
+  | "cancelledDate"
+>;
+
 export interface TaskNodeData {
   task: Task;
   layoutDirection?: "Horizontal" | "Vertical";
@@ -31,12 +52,17 @@ export interface TaskNodeData {
   tagColorMode?: "random" | "static";
   tagColorSeed?: number;
   tagStaticColor?: string;
+  critical?: boolean; // On the critical path of the selected target
 }
 
 export interface TaskEdgeData {
   hash: string;
   layoutDirection?: "Horizontal" | "Vertical";
   debugVisualization?: boolean;
+  sync?: "canvas-only" | "markdown-only"; // Set when the edge exists in only one place
+  fromMarkdown?: boolean; // Derived from a task file dependency, dropped with it
+  critical?: boolean; // On the critical path of the selected target
+  cycle?: boolean; // Part of a dependency cycle
 }
 
 export type TaskNode = Node<TaskNodeData, "task">;
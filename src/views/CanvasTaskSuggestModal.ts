@@ -0,0 +1,61 @@
+import { App, SuggestModal } from "obsidian";
+import { Task } from "../types/task";
+import { searchTasks, TaskSearchMatch } from "../lib/task-search";
+
+const MAX_RESULTS = 50;
+
+/**
+ * Fuzzy search of the tasks on a canvas by summary, tags and file path
+ */
+export class CanvasTaskSuggestModal extends SuggestModal<TaskSearchMatch> {
+  private tasks: Task[];
+  private onChoose: (task: Task) => void; // eslint-disable-line no-unused-vars
+
+  constructor(
+    app: App,
+    tasks: Task[],
+    onChoose: (task: Task) => void // eslint-disable-line no-unused-vars
+  ) {
+    super(app);
+    this.tasks = tasks;
+    this.onChoose = onChoose;
+    this.limit = MAX_RESULTS;
+    this.emptyStateText = "No matching tasks on this canvas";
+    this.setPlaceholder("Jump to task...");
+    this.setInstructions([
+      { command: "↑↓", purpose: "to navigate" },
+      { command: "↵", purpose: "to jump to the task" },
+      { command: "esc", purpose: "to dismiss" },
+    ]);
+  }
+
+  getSuggestions(query: string): TaskSearchMatch[] {
+    if (!query.trim()) {
+      return this.tasks
+        .map((task) => ({ task, score: 0, field: "summary" as const }))
+        .sort((a, b) =>
+          (a.task.summary || a.task.text).localeCompare(
+            b.task.summary || b.task.text
+          )
+        )
+        .slice(0, MAX_RESULTS);
+    }
+    return searchTasks(this.tasks, query, MAX_RESULTS);
+  }
+
+  renderSuggestion({ task }: TaskSearchMatch, el: HTMLElement) {
+    el.createDiv({ text: task.summary || task.text });
+    const details = [
+      task.link,
+      ...task.tags.map((tag) => `#${tag.replace(/^#/, "")}`),
+    ].join("  ");
+    el.createEl("small", {
+      cls: "tasks-map-task-search-details",
+      text: details,
+    });
+  }
+
+  onChooseSuggestion({ task }: TaskSearchMatch) {
+    this.onChoose(task);
+  }
+}
@@ -0,0 +1,74 @@
+import { App, Modal } from "obsidian";
+import { Task } from "src/types/task";
+import { BoardCycle } from "src/lib/cycles";
+
+/**
+ * Lists dependency cycles and the board they are on, with links to the
+ * files of the involved tasks
+ */
+export class DependencyCyclesModal extends Modal {
+  private cycles: BoardCycle[];
+  private getTask: (id: string) => Task | undefined; // eslint-disable-line no-unused-vars
+  private openTask: (task: Task) => void; // eslint-disable-line no-unused-vars
+
+  constructor(
+    app: App,
+    cycles: BoardCycle[],
+    getTask: (id: string) => Task | undefined, // eslint-disable-line no-unused-vars
+    openTask: (task: Task) => void // eslint-disable-line no-unused-vars
+  ) {
+    super(app);
+    this.cycles = cycles;
+    this.getTask = getTask;
+    this.openTask = openTask;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.setTitle("Dependency cycles");
+
+    if (this.cycles.length === 0) {
+      contentEl.createEl("p", { text: "No dependency cycles found." });
+      return;
+    }
+
+    contentEl.createEl("p", {
+      text: `${this.cycles.length} cycle(s) found. Remove one dependency of each cycle to break it.`,
+    });
+
+    this.cycles.forEach(({ board, cycle }, index) => {
+      const section = contentEl.createDiv({ cls: "tasks-map-cycle" });
+      section.createEl("h4", {
+        text: `Cycle ${index + 1} — ${board ? `board "${board}"` : "task files"}`,
+      });
+      const list = section.createEl("ol", { cls: "tasks-map-cycle-list" });
+
+      // The last entry repeats the first one
+      cycle.slice(0, -1).forEach((id) => {
+        const item = list.createEl("li");
+        const task = this.getTask(id);
+        if (!task) {
+          item.setText(`${id} (not found)`);
+          return;
+        }
+
+        const link = item.createEl("a", {
+          text: task.summary || id,
+          cls: "tasks-map-cycle-link",
+        });
+        link.addEventListener("click", () => {
+          this.openTask(task);
+          this.close();
+        });
+        item.createSpan({
+          text: ` — ${task.link}${task.line !== undefined ? `:${task.line + 1}` : ""}`,
+          cls: "tasks-map-cycle-path",
+        });
+      });
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
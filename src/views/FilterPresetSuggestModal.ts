@@ -0,0 +1,41 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from "obsidian";
+import { FilterPreset } from "../types/settings";
+
+/**
+ * Pick one of the filter presets of a canvas
+ */
+export class FilterPresetSuggestModal extends FuzzySuggestModal<FilterPreset> {
+  private presets: FilterPreset[];
+  private onChoose: (preset: FilterPreset) => void; // eslint-disable-line no-unused-vars
+
+  constructor(
+    app: App,
+    presets: FilterPreset[],
+    onChoose: (preset: FilterPreset) => void // eslint-disable-line no-unused-vars
+  ) {
+    super(app);
+    this.presets = presets;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Apply filter preset...");
+  }
+
+  getItems(): FilterPreset[] {
+    return this.presets;
+  }
+
+  getItemText(preset: FilterPreset): string {
+    return preset.name;
+  }
+
+  renderSuggestion(match: FuzzyMatch<FilterPreset>, el: HTMLElement) {
+    super.renderSuggestion(match, el);
+    el.createDiv({
+      cls: "tasks-map-filter-preset-query",
+      text: match.item.query || "(no filter)",
+    });
+  }
+
+  onChooseItem(preset: FilterPreset) {
+    this.onChoose(preset);
+  }
+}
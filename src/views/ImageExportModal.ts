@@ -0,0 +1,88 @@
+import { App, Modal, Setting } from "obsidian";
+import {
+  IMAGE_FORMAT_NAMES,
+  IMAGE_SCALES,
+  ImageFormat,
+} from "../lib/graph-image";
+
+export interface ImageExportOptions {
+  format: ImageFormat;
+  selectionOnly: boolean;
+  scale: number;
+}
+
+/**
+ * Choose what to export as an image: format, whole map or selection, scale
+ */
+export class ImageExportModal extends Modal {
+  private options: ImageExportOptions;
+  private selectedCount: number;
+  private onSubmit: (options: ImageExportOptions) => void; // eslint-disable-line no-unused-vars
+
+  constructor(
+    app: App,
+    options: ImageExportOptions,
+    selectedCount: number,
+    onSubmit: (options: ImageExportOptions) => void // eslint-disable-line no-unused-vars
+  ) {
+    super(app);
+    this.options = { ...options };
+    this.selectedCount = selectedCount;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.setTitle("Export map as image");
+    if (this.selectedCount === 0) this.options.selectionOnly = false;
+
+    new Setting(contentEl).setName("Format").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(IMAGE_FORMAT_NAMES)
+        .setValue(this.options.format)
+        .onChange((value) => (this.options.format = value as ImageFormat))
+    );
+
+    new Setting(contentEl)
+      .setName("Tasks")
+      .setDesc(
+        this.selectedCount === 0
+          ? "Select tasks on the canvas to export only those"
+          : ""
+      )
+      .addDropdown((dropdown) => {
+        dropdown.addOption("all", "Whole map");
+        if (this.selectedCount > 0) {
+          dropdown.addOption("selection", `Selection (${this.selectedCount})`);
+        }
+        dropdown
+          .setValue(this.options.selectionOnly ? "selection" : "all")
+          .onChange(
+            (value) => (this.options.selectionOnly = value === "selection")
+          );
+      });
+
+    new Setting(contentEl).setName("Scale").addDropdown((dropdown) => {
+      IMAGE_SCALES.forEach((scale) =>
+        dropdown.addOption(String(scale), `${scale}x`)
+      );
+      dropdown
+        .setValue(String(this.options.scale))
+        .onChange((value) => (this.options.scale = Number(value)));
+    });
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Export")
+        .setCta()
+        .onClick(() => {
+          this.close();
+          this.onSubmit(this.options);
+        })
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+
+/**
+ * Pick a markdown note of the vault
+ */
+export class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+  private onChoose: (file: TFile) => void; // eslint-disable-line no-unused-vars
+
+  constructor(
+    app: App,
+    placeholder: string,
+    onChoose: (file: TFile) => void // eslint-disable-line no-unused-vars
+  ) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getMarkdownFiles();
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile) {
+    this.onChoose(file);
+  }
+}
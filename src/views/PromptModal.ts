@@ -0,0 +1,69 @@
+import { App, Modal, Setting } from "obsidian";
+
+interface PromptOptions {
+  title: string;
+  placeholder?: string;
+  value?: string;
+  submitText?: string;
+}
+
+/**
+ * Asks for a single line of text; submits on Enter
+ */
+export class PromptModal extends Modal {
+  private options: PromptOptions;
+  private onSubmit: (value: string) => void; // eslint-disable-line no-unused-vars
+
+  constructor(
+    app: App,
+    options: PromptOptions,
+    onSubmit: (value: string) => void // eslint-disable-line no-unused-vars
+  ) {
+    super(app);
+    this.options = options;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.setTitle(this.options.title);
+
+    let value = this.options.value ?? "";
+    const submit = () => {
+      const trimmed = value.trim();
+      if (!trimmed) return;
+      this.close();
+      this.onSubmit(trimmed);
+    };
+
+    new Setting(contentEl).addText((text) => {
+      text
+        .setPlaceholder(this.options.placeholder ?? "")
+        .setValue(value)
+        .onChange((newValue) => (value = newValue));
+      text.inputEl.addClass("tasks-map-prompt-input");
+      text.inputEl.addEventListener("keydown", (evt) => {
+        if (evt.key === "Enter" && !evt.isComposing) {
+          evt.preventDefault();
+          submit();
+        }
+      });
+      // Focus once the modal is attached
+      setTimeout(() => {
+        text.inputEl.focus();
+        text.inputEl.select();
+      }, 0);
+    });
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText(this.options.submitText ?? "Save")
+        .setCta()
+        .onClick(submit)
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
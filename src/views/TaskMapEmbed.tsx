@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { App, MarkdownRenderChild } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import ReactFlow, {
+  Background,
+  Controls,
+  ReactFlowProvider,
+  useNodesState,
+} from "reactflow";
+import TasksMapPlugin from "../main";
+import TaskNode from "../components/task-node";
+import HashEdge from "../components/hash-edge";
+import { AppContext, PluginContext, TagsContext } from "../contexts/context";
+import {
+  EmbedOptions,
+  parseEmbedOptions,
+  selectEmbedTasks,
+} from "../lib/embed-options";
+import {
+  checkDataviewPlugin,
+  createEdgesFromTasks,
+  createNodesFromTasks,
+  getLayoutedElements,
+} from "../lib/utils";
+
+export const EMBED_CODE_BLOCK_LANGUAGE = "tasks-map";
+
+const nodeTypes = { task: TaskNode };
+const edgeTypes = { hash: HashEdge };
+
+interface EmbeddedTaskMapProps {
+  plugin: TasksMapPlugin;
+  options: EmbedOptions;
+}
+
+/**
+ * Live map of the tasks matching a code block's query, laid out
+ * automatically. Positions are not saved; task actions write to the vault
+ * like on the canvas.
+ */
+function EmbeddedTaskMap({ plugin, options }: EmbeddedTaskMapProps) {
+  const { settings } = plugin;
+  const [tasks, setTasks] = useState(() =>
+    selectEmbedTasks(plugin.taskIndex.getTasks(), options)
+  );
+
+  // Follow changes of the task index
+  useEffect(() => {
+    const ref = plugin.taskIndex.on("changed", () => {
+      setTasks(selectEmbedTasks(plugin.taskIndex.getTasks(), options));
+    });
+    return () => plugin.taskIndex.offref(ref);
+  }, [plugin, options]);
+
+  const layout = useMemo(() => {
+    const ids = new Set(tasks.map((task) => task.id));
+    const edges = createEdgesFromTasks(tasks, options.direction, false).filter(
+      (edge) => ids.has(edge.source) && ids.has(edge.target)
+    );
+    const nodes = createNodesFromTasks(
+      tasks,
+      options.direction,
+      settings.showPriorities,
+      settings.showTags,
+      false,
+      settings.tagColorMode,
+      settings.tagColorSeed,
+      settings.tagStaticColor
+    ).map((node) => ({ ...node, draggable: options.interactive }));
+    return {
+      nodes: getLayoutedElements(nodes, edges, options.direction),
+      edges,
+    };
+  }, [tasks, options, settings]);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState(layout.nodes);
+
+  // Keep the positions of nodes that were moved, lay out new ones
+  useEffect(() => {
+    setNodes((previous) => {
+      const positions = new Map(previous.map((n) => [n.id, n.position]));
+      return layout.nodes.map((node) => ({
+        ...node,
+        position: positions.get(node.id) ?? node.position,
+      }));
+    });
+  }, [layout, setNodes]);
+
+  const tagsContextValue = useMemo(
+    () => ({
+      allTags: Array.from(new Set(tasks.flatMap((task) => task.tags))).sort(),
+      updateTaskTags: () => {},
+    }),
+    [tasks]
+  );
+
+  if (tasks.length === 0) {
+    return (
+      <div className="tasks-map-embed-empty">No tasks match this query</div>
+    );
+  }
+
+  return (
+    <TagsContext.Provider value={tagsContextValue}>
+      <ReactFlow
+        nodes={nodes}
+        edges={layout.edges}
+        onNodesChange={onNodesChange}
+        nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
+        proOptions={{ hideAttribution: true }}
+        minZoom={0.1}
+        fitView
+        nodesConnectable={false}
+        nodesDraggable={options.interactive}
+        elementsSelectable={options.interactive}
+        // Let the note scroll; zoom with the controls
+        zoomOnScroll={false}
+        preventScrolling={false}
+      >
+        <Background />
+        <Controls showInteractive={false} />
+      </ReactFlow>
+    </TagsContext.Provider>
+  );
+}
+
+/**
+ * Renders a `tasks-map` code block and unmounts the map when the block goes
+ * away
+ */
+export class TaskMapEmbed extends MarkdownRenderChild {
+  private app: App;
+  private plugin: TasksMapPlugin;
+  private source: string;
+  private root: Root | null = null;
+
+  constructor(
+    containerEl: HTMLElement,
+    app: App,
+    plugin: TasksMapPlugin,
+    source: string
+  ) {
+    super(containerEl);
+    this.app = app;
+    this.plugin = plugin;
+    this.source = source;
+  }
+
+  onload() {
+    const { options, errors } = parseEmbedOptions(
+      this.source,
+      this.plugin.settings.layoutDirection
+    );
+    const container = this.containerEl.createDiv({
+      cls: [
+        "tasks-map-embed",
+        options.interactive ? "" : "tasks-map-embed--readonly",
+      ].filter(Boolean),
+    });
+
+    if (errors.length > 0) {
+      const list = container.createEl("ul", { cls: "tasks-map-embed-errors" });
+      errors.forEach((error) => list.createEl("li", { text: error }));
+    }
+
+    const dataviewCheck = checkDataviewPlugin(this.app);
+    if (!dataviewCheck.isReady) {
+      container.createDiv({
+        cls: "tasks-map-embed-empty",
+        text: dataviewCheck.getMessage() ?? "",
+      });
+      return;
+    }
+
+    const canvas = container.createDiv({ cls: "tasks-map-embed-canvas" });
+    canvas.style.height = `${options.height}px`;
+    this.root = createRoot(canvas);
+    this.root.render(
+      <AppContext.Provider value={this.app}>
+        <PluginContext.Provider value={this.plugin}>
+          <ReactFlowProvider>
+            <EmbeddedTaskMap plugin={this.plugin} options={options} />
+          </ReactFlowProvider>
+        </PluginContext.Provider>
+      </AppContext.Provider>
+    );
+  }
+
+  onunload() {
+    this.root?.unmount();
+    this.root = null;
+  }
+}
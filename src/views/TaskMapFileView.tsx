@@ -0,0 +1,157 @@
+import { Notice, TextFileView, TFile, WorkspaceLeaf } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import TasksMapPlugin from "../main";
+import { GraphData } from "../types/settings";
+import {
+  mergeGraphData,
+  parseTaskMapFile,
+  serializeTaskMapFile,
+} from "../lib/taskmap-file";
+import {
+  addViewModeAction,
+  registerHistoryKeys,
+  renderTaskMap,
+  showEdgePersistenceMenu,
+  showExportMenu,
+} from "./TaskMapGraphItemView";
+
+export const TASKMAP_FILE_VIEW_TYPE = "tasks-map-file-view";
+
+/**
+ * Map view of a `.taskmap` vault file. The file is the board: canvas changes
+ * are written back to it, and changes from sync are merged into the canvas.
+ */
+export default class TaskMapFileView extends TextFileView {
+  root: Root | null = null;
+  plugin: TasksMapPlugin | undefined;
+  boardId: string | undefined;
+  // File content the canvas state is based on, for three-way merges
+  private base: GraphData | null = null;
+  private updateViewModeAction: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf) {
+    super(leaf);
+  }
+
+  getViewType() {
+    return TASKMAP_FILE_VIEW_TYPE;
+  }
+
+  getIcon() {
+    return "map";
+  }
+
+  async onOpen() {
+    this.plugin = (
+      this.app as unknown as {
+        plugins: { plugins: Record<string, TasksMapPlugin> };
+      }
+    ).plugins.plugins["tasks-map"] as TasksMapPlugin;
+    const plugin = this.plugin;
+
+    if (plugin) {
+      this.addAction("link", "Edge persistence", (evt) => {
+        if (this.boardId) showEdgePersistenceMenu(plugin, this.boardId, evt);
+      });
+      this.addAction("share", "Export", (evt) => {
+        if (this.boardId) showExportMenu(plugin, this.boardId, evt);
+      });
+      this.updateViewModeAction = addViewModeAction(
+        this,
+        plugin,
+        () => this.boardId
+      );
+      registerHistoryKeys(this, plugin, () => this.boardId);
+
+      // The sidebar adds tasks to the board of the focused map view
+      this.registerEvent(
+        this.app.workspace.on("active-leaf-change", (leaf) => {
+          if (leaf === this.leaf && this.boardId) {
+            plugin.setActiveBoard(this.boardId);
+          }
+        })
+      );
+    }
+
+    this.root = createRoot(this.contentEl);
+  }
+
+  getViewData(): string {
+    if (!this.plugin || !this.boardId) return this.data;
+    const graphData = this.plugin.getGraphData(this.boardId);
+    this.base = graphData;
+    return serializeTaskMapFile(graphData);
+  }
+
+  setViewData(data: string, clear: boolean) {
+    const plugin = this.plugin;
+    const remote = parseTaskMapFile(data);
+    if (!plugin || !this.file) return;
+    if (!remote) {
+      // Keep the canvas as it is; the next save rewrites the file
+      new Notice(`${this.file.basename} is not a valid map file`);
+      return;
+    }
+
+    if (clear || !this.boardId || !this.base) {
+      this.showFile(this.file, remote);
+      return;
+    }
+
+    // The file changed outside of this view (e.g. sync): merge it with the
+    // canvas state instead of overwriting one with the other
+    const boardId = this.boardId;
+    plugin.flushCanvas(boardId);
+    const merged = mergeGraphData(
+      this.base,
+      plugin.getGraphData(boardId),
+      remote
+    );
+    this.base = remote;
+    plugin.updateFileBoard(boardId, merged);
+    plugin.reloadCanvas(boardId);
+    this.updateViewModeAction?.();
+
+    if (serializeTaskMapFile(merged) !== data) this.requestSave();
+  }
+
+  clear() {
+    this.releaseBoard();
+  }
+
+  async onUnloadFile(file: TFile) {
+    // Write pending canvas changes before the file is saved and closed
+    if (this.boardId) this.plugin?.flushCanvas(this.boardId);
+    await super.onUnloadFile(file);
+    this.releaseBoard();
+  }
+
+  async onClose() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  private showFile(file: TFile, graphData: GraphData) {
+    const plugin = this.plugin;
+    if (!plugin || !this.root) return;
+
+    this.releaseBoard();
+    this.base = graphData;
+    this.boardId = plugin.registerFileBoard(file, graphData, () =>
+      this.requestSave()
+    );
+    this.updateViewModeAction?.();
+    if (this.app.workspace.getActiveViewOfType(TaskMapFileView) === this) {
+      plugin.setActiveBoard(this.boardId);
+    }
+    renderTaskMap(this.root, this.app, plugin, this.boardId);
+  }
+
+  private releaseBoard() {
+    if (!this.boardId) return;
+    this.root?.render(null);
+    this.plugin?.unregisterFileBoard(this.boardId);
+    this.boardId = undefined;
+    this.base = null;
+  }
+}
@@ -1,15 +1,34 @@
-import { ItemView, WorkspaceLeaf } from "obsidian";
+import {
+  App,
+  ItemView,
+  Menu,
+  Scope,
+  ViewStateResult,
+  WorkspaceLeaf,
+  setIcon,
+} from "obsidian";
 import { createRoot, Root } from "react-dom/client";
 import { ReactFlowProvider } from "reactflow";
 import { AppContext, PluginContext } from "src/contexts/context";
 import TaskMapGraphView from "./TaskMapGraphView";
 import { checkDataviewPlugin } from "../lib/utils";
 import TasksMapPlugin from "../main";
+import { CanvasViewMode, EdgePersistenceMode } from "../types/settings";
+import { EXPORT_FORMAT_NAMES, ExportFormat } from "../lib/graph-export";
+import { IMAGE_FORMAT_NAMES, ImageFormat } from "../lib/graph-image";
 
 export const VIEW_TYPE = "tasks-map-graph-view";
 
+interface TaskMapViewState {
+  boardId?: string;
+}
+
 export default class TaskMapGraphItemView extends ItemView {
   root: Root | null = null;
+  plugin: TasksMapPlugin | undefined;
+  // Board shown in this leaf, kept in the workspace layout
+  boardId: string | undefined;
+  private updateViewModeAction: (() => void) | null = null;
 
   constructor(leaf: WorkspaceLeaf) {
     super(leaf);
@@ -20,55 +39,294 @@ export default class TaskMapGraphItemView extends ItemView {
   }
 
   getDisplayText() {
-    return "Tasks map";
+    const board = this.boardId
+      ? this.plugin?.getBoard(this.boardId)
+      : undefined;
+    return board ? `Tasks map: ${board.name}` : "Tasks map";
   }
 
-  async onOpen() {
-    const dataviewCheck = checkDataviewPlugin(this.app);
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), boardId: this.boardId };
+  }
+
+  async setState(state: TaskMapViewState, result: ViewStateResult) {
+    if (
+      state?.boardId &&
+      state.boardId !== this.boardId &&
+      this.plugin?.getBoard(state.boardId)
+    ) {
+      this.showBoard(state.boardId);
+    }
+    await super.setState(state, result);
+  }
 
+  async onOpen() {
     // Get the plugin instance to access settings
     const plugin = (
       this.app as unknown as {
         plugins: { plugins: Record<string, TasksMapPlugin> };
       }
     ).plugins.plugins["tasks-map"] as TasksMapPlugin;
-    const settings = plugin?.settings;
+    this.plugin = plugin;
 
-    this.root = createRoot(this.containerEl.children[1]);
+    if (plugin) {
+      this.addAction("layout-dashboard", "Switch board", (evt) =>
+        this.showBoardMenu(plugin, evt)
+      );
+      this.addAction("link", "Edge persistence", (evt) => {
+        if (this.boardId) showEdgePersistenceMenu(plugin, this.boardId, evt);
+      });
+      this.addAction("share", "Export", (evt) => {
+        if (this.boardId) showExportMenu(plugin, this.boardId, evt);
+      });
+      this.updateViewModeAction = addViewModeAction(
+        this,
+        plugin,
+        () => this.boardId
+      );
+      registerHistoryKeys(this, plugin, () => this.boardId);
 
-    if (dataviewCheck.isReady) {
-      this.root.render(
-        <AppContext.Provider value={this.app}>
-          <PluginContext.Provider value={plugin}>
-            <ReactFlowProvider>
-              <TaskMapGraphView settings={settings} plugin={plugin} />
-            </ReactFlowProvider>
-          </PluginContext.Provider>
-        </AppContext.Provider>
+      // The sidebar adds tasks to the board of the focused map view
+      this.registerEvent(
+        this.app.workspace.on("active-leaf-change", (leaf) => {
+          if (leaf === this.leaf && this.boardId)
+            plugin.setActiveBoard(this.boardId);
+        })
       );
-    } else {
-      this.root.render(
-        <div className="tasks-map-centered-message-container">
-          <div className="tasks-map-centered-message-content">
-            <div className="tasks-map-message-icon">⚠️</div>
-            <h3 className="tasks-map-message-title">
-              Tasks Map requires the Dataview plugin to be installed and
-              enabled.
-            </h3>
-            <p className="tasks-map-message-description">
-              {dataviewCheck.getMessage()}
-            </p>
-            <p className="tasks-map-message-description">
-              Visit the Community Plugins section in Settings to install or
-              enable Dataview.
-            </p>
-          </div>
-        </div>
+
+      // Follow renames, and move away from deleted boards
+      const ref = plugin.onBoardsChanged(() => {
+        if (this.boardId && !plugin.getBoard(this.boardId)) {
+          this.showBoard(plugin.activeBoardId);
+        } else {
+          this.refreshTitle();
+        }
+      });
+      this.register(() => plugin.offBoardsChanged(ref));
+    }
+
+    this.root = createRoot(this.containerEl.children[1]);
+    // setState() switches to the board stored in the layout, if any
+    this.showBoard(plugin?.activeBoardId);
+  }
+
+  // Render a board; remounts the canvas so it loads the board's graph data
+  private showBoard(boardId: string | undefined) {
+    if (!this.root) return;
+    this.boardId = boardId;
+    this.refreshTitle();
+    this.updateViewModeAction?.();
+
+    if (
+      this.plugin &&
+      boardId &&
+      this.app.workspace.getActiveViewOfType(TaskMapGraphItemView) === this
+    ) {
+      this.plugin.setActiveBoard(boardId);
+    }
+    renderTaskMap(this.root, this.app, this.plugin, boardId);
+  }
+
+  // The header title shows the board name
+  private refreshTitle() {
+    (this.leaf as unknown as { updateHeader?: () => void }).updateHeader?.();
+  }
+
+  // Board switcher and board management
+  private showBoardMenu(plugin: TasksMapPlugin, evt: MouseEvent) {
+    const menu = new Menu();
+    plugin.getBoards().forEach((board) => {
+      menu.addItem((item) =>
+        item
+          .setTitle(board.name)
+          .setChecked(board.id === this.boardId)
+          .onClick(() => {
+            if (board.id !== this.boardId) this.showBoard(board.id);
+            // Store the board in the workspace layout
+            this.app.workspace.requestSaveLayout();
+          })
       );
+    });
+    if (this.boardId) {
+      menu.addSeparator();
+      plugin.addBoardMenuItems(menu, this.boardId);
     }
+    menu.showAtMouseEvent(evt);
   }
 
   async onClose() {
     this.root?.unmount();
   }
 }
+
+/**
+ * Render the canvas of a board, or the Dataview requirement message
+ */
+export function renderTaskMap(
+  root: Root,
+  app: App,
+  plugin: TasksMapPlugin | undefined,
+  boardId: string | undefined
+) {
+  const dataviewCheck = checkDataviewPlugin(app);
+
+  if (dataviewCheck.isReady && plugin && boardId) {
+    // Keyed by board so switching boards remounts the canvas
+    root.render(
+      <AppContext.Provider value={app}>
+        <PluginContext.Provider value={plugin}>
+          <ReactFlowProvider key={boardId}>
+            <TaskMapGraphView
+              key={boardId}
+              settings={plugin.settings}
+              plugin={plugin}
+              boardId={boardId}
+            />
+          </ReactFlowProvider>
+        </PluginContext.Provider>
+      </AppContext.Provider>
+    );
+  } else {
+    root.render(
+      <div className="tasks-map-centered-message-container">
+        <div className="tasks-map-centered-message-content">
+          <div className="tasks-map-message-icon">⚠️</div>
+          <h3 className="tasks-map-message-title">
+            Tasks Map requires the Dataview plugin to be installed and enabled.
+          </h3>
+          <p className="tasks-map-message-description">
+            {dataviewCheck.getMessage()}
+          </p>
+          <p className="tasks-map-message-description">
+            Visit the Community Plugins section in Settings to install or enable
+            Dataview.
+          </p>
+        </div>
+      </div>
+    );
+  }
+}
+
+/**
+ * Header action switching between the dependency graph and the timeline
+ * (remembered per canvas). Returns a function that refreshes its icon.
+ */
+export function addViewModeAction(
+  view: ItemView,
+  plugin: TasksMapPlugin,
+  getBoardId: () => string | undefined
+): () => void {
+  const update = (mode: CanvasViewMode) => {
+    const isTimeline = mode === "timeline";
+    setIcon(action, isTimeline ? "git-fork" : "calendar-range");
+    action.setAttribute(
+      "aria-label",
+      isTimeline ? "Switch to graph view" : "Switch to timeline view"
+    );
+  };
+
+  const action = view.addAction("calendar-range", "", () => {
+    const boardId = getBoardId();
+    if (!boardId) return;
+    plugin.setViewMode(
+      boardId,
+      plugin.getViewMode(boardId) === "timeline" ? "graph" : "timeline"
+    );
+  });
+  const refresh = () => update(plugin.getViewMode(getBoardId()));
+  refresh();
+
+  const ref = plugin.onViewModeChanged((boardId, mode) => {
+    if (boardId === getBoardId()) update(mode);
+  });
+  view.register(() => plugin.offViewModeChanged(ref));
+  return refresh;
+}
+
+/**
+ * Mod+Z and Mod+Shift+Z undo and redo canvas changes while the view is
+ * focused; text fields keep their own undo
+ */
+export function registerHistoryKeys(
+  view: ItemView,
+  plugin: TasksMapPlugin,
+  getBoardId: () => string | undefined
+) {
+  const scope = view.scope ?? new Scope(view.app.scope);
+  view.scope = scope;
+  const handler = (redo: boolean) => (evt: KeyboardEvent) => {
+    const target = evt.target as HTMLElement | null;
+    if (target?.closest("input, textarea, [contenteditable='true']")) return;
+    const boardId = getBoardId();
+    if (!boardId) return;
+    if (redo) plugin.redoCanvasChange(boardId);
+    else plugin.undoCanvasChange(boardId);
+    return false;
+  };
+  scope.register(["Mod"], "z", handler(false));
+  scope.register(["Mod", "Shift"], "z", handler(true));
+}
+
+/**
+ * Per-canvas override of where connections are stored
+ */
+export function showEdgePersistenceMenu(
+  plugin: TasksMapPlugin,
+  boardId: string,
+  evt: MouseEvent
+) {
+  const current = plugin.getGraphData(boardId).edgePersistence;
+  const options: { mode: EdgePersistenceMode | undefined; title: string }[] = [
+    { mode: undefined, title: "Use global setting" },
+    { mode: "canvas", title: "Canvas only (data.json)" },
+    { mode: "markdown", title: "Task files only" },
+    { mode: "both", title: "Canvas and task files" },
+  ];
+
+  const menu = new Menu();
+  options.forEach(({ mode, title }) => {
+    menu.addItem((item) =>
+      item
+        .setTitle(title)
+        .setChecked(current === mode)
+        .onClick(() => plugin.setCanvasEdgePersistence(boardId, mode))
+    );
+  });
+  menu.showAtMouseEvent(evt);
+}
+
+/**
+ * Export the visible part of the map as Mermaid, DOT or JSON, or as an image
+ */
+export function showExportMenu(
+  plugin: TasksMapPlugin,
+  boardId: string,
+  evt: MouseEvent
+) {
+  const menu = new Menu();
+  (Object.keys(EXPORT_FORMAT_NAMES) as ExportFormat[]).forEach((format) => {
+    const name = EXPORT_FORMAT_NAMES[format];
+    menu.addItem((item) =>
+      item
+        .setTitle(format === "mermaid" ? `${name} note` : `${name} file`)
+        .setIcon("file-output")
+        .onClick(() => plugin.exportBoard(boardId, format, "file"))
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle(`Copy as ${name}`)
+        .setIcon("clipboard-copy")
+        .onClick(() => plugin.exportBoard(boardId, format, "clipboard"))
+    );
+  });
+  menu.addSeparator();
+  (Object.keys(IMAGE_FORMAT_NAMES) as ImageFormat[]).forEach((format) => {
+    menu.addItem((item) =>
+      item
+        .setTitle(`${IMAGE_FORMAT_NAMES[format]} image…`)
+        .setIcon("image")
+        .onClick(() => plugin.showImageExport(boardId, format))
+    );
+  });
+  menu.showAtMouseEvent(evt);
+}
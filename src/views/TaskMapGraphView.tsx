@@ -8,42 +8,133 @@ import ReactFlow, {
   useReactFlow,
   NodeChange,
   Position,
+  Edge,
+  Node,
+  XYPosition,
+  Connection,
+  OnConnectStartParams,
 } from "reactflow";
-import { Notice, TFile, TFolder } from "obsidian";
+import { Notice } from "obsidian";
 import { useApp } from "src/hooks/hooks";
-import { getAllTasks } from "src/lib/utils";
-import { TaskFactory } from "src/lib/task-factory";
 import { Task, TaskNode as TaskNodeType } from "src/types/task";
 import GuiOverlay from "src/components/gui-overlay";
-import TaskNode from "src/components/task-node";
-import { NO_TAGS_VALUE } from "src/components/tag-select";
+import BulkActionBar from "src/components/bulk-action-bar";
+import { QuickTaskEntry } from "src/components/quick-task-entry";
+import TaskNode, { NODEHEIGHT, NODEWIDTH } from "src/components/task-node";
+import TimelineAxis, { TimelineLane } from "src/components/timeline-axis";
 import { TaskMinimap } from "src/components/task-minimap";
 import HashEdge from "src/components/hash-edge";
 import { DeleteEdgeButton } from "src/components/delete-edge-button";
-import { TagsContext } from "src/contexts/context";
+import { CriticalPathPanel } from "src/components/critical-path-panel";
+import { HistoryContext, RecordEdit, TagsContext } from "src/contexts/context";
 
-import { TaskStatus } from "src/types/task";
-import { TasksMapSettings, GraphData } from "src/types/settings";
+import { TasksMapSettings, GraphData, CanvasViewMode } from "src/types/settings";
 import TasksMapPlugin from "src/main";
+import { TaskIndexChange } from "src/lib/task-index";
+import {
+  getFilterCompletionSources,
+  matchesFilter,
+  parseFilterQuery,
+} from "src/lib/filter-query";
+import {
+  getLinkingId,
+  hasStableId,
+  migrateGraphData,
+  renameLocationKey,
+  resolveNodeKeys,
+} from "src/lib/task-identity";
+import {
+  addLinkSignsBetweenTasks,
+  alignSelection,
+  AlignMode,
+  distributeSelection,
+  getLayoutedSelection,
+  removeLinkSignsBetweenTasks,
+  shiftTaskDatesInVault,
+} from "src/lib/utils";
+import {
+  computeTimelineLayout,
+  getDateAtPosition,
+  getTimelineSpan,
+} from "src/lib/timeline-layout";
+import { daysBetween, formatDate } from "src/lib/task-dates";
+import { computeCriticalPath, DependencyEdge } from "src/lib/critical-path";
+import { searchTasks } from "src/lib/task-search";
+import { createTaskInVault, getDependentTaskDefaults, NewTaskInput } from "src/lib/task-creation";
+import {
+  applyBulkEditInVault,
+  BulkEdit,
+  describeBulkEdit,
+  getBulkEditTargets,
+} from "src/lib/bulk-edit";
+import {
+  applyFileChanges,
+  applyFileRenames,
+  createRecordingApp,
+  createRecordingVault,
+  FileChange,
+  FileRename,
+  HistoryEntry,
+  UndoHistory,
+} from "src/lib/undo-history";
+import { findCycleForNewEdge, findCycles, getCycleEdgeIds } from "src/lib/cycles";
+import {
+  getEdgeSyncFlag,
+  getMarkdownEdges,
+  reconcileEdges,
+  storesEdgesOnCanvas,
+  writesEdgesToMarkdown,
+} from "src/lib/edge-persistence";
 
-const ALL_STATUSES: TaskStatus[] = ["todo", "in_progress", "done", "canceled"];
+// Rewrite edge endpoints (and edge IDs) after nodes got new keys
+function rekeyEdges<T extends Edge>(edges: T[], newIds: Map<string, string>): T[] {
+  return edges.map((edge) => {
+    const source = newIds.get(edge.source) ?? edge.source;
+    const target = newIds.get(edge.target) ?? edge.target;
+    if (source === edge.source && target === edge.target) return edge;
+    const id = `${source}-${target}`;
+    return { ...edge, id, source, target, data: { ...edge.data, hash: id } };
+  });
+}
+
+// Outline of a node after jumping to it
+const HIGHLIGHT_CLASS = "tasks-map-node--highlighted";
+const HIGHLIGHT_DURATION = 1500;
+
+// Timeline mode geometry
+const TIMELINE_DAY_WIDTH = 40;
+const TIMELINE_ROW_HEIGHT = NODEHEIGHT + 60;
+const TIMELINE_GAP = 20;
+const TIMELINE_AXIS_OFFSET = 60;
 
 interface TaskMapGraphViewProps {
   settings: TasksMapSettings;
   plugin: TasksMapPlugin;
+  boardId: string;
 }
 
-export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewProps) {
+export default function TaskMapGraphView({ settings: globalSettings, plugin, boardId }: TaskMapGraphViewProps) {
+  // The layout direction can be switched per board from the toolbar
+  const [layoutDirection, setLayoutDirection] = React.useState(() => plugin.getLayoutDirection(boardId));
+  const settings = useMemo(() => ({ ...globalSettings, layoutDirection }), [globalSettings, layoutDirection]);
   const app = useApp();
   const vault = app.vault;
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  // Timeline mode shows the same nodes at computed positions
+  const [timelineNodes, setTimelineNodes, onTimelineNodesChange] = useNodesState([]);
+  const [viewMode, setViewMode] = React.useState<CanvasViewMode>(plugin.getViewMode(boardId));
+  const [timelineVersion, setTimelineVersion] = React.useState(0);
+  const viewModeRef = useRef(viewMode);
+  const timelineOriginRef = useRef(formatDate(new Date()));
+  const [criticalTargetId, setCriticalTargetId] = React.useState<string | null>(null);
   const [tasks, setTasks] = React.useState<Task[]>([]);
-  const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
+  // The filter is restored per board and shared with the sidebar; the plugin
+  // saves it with the board
+  const [filterQuery, setFilterQuery] = React.useState(() => plugin.getFilterQuery(boardId));
+  const [filterPresets, setFilterPresets] = React.useState(() => plugin.getFilterPresets(boardId));
+  const [activePreset, setActivePreset] = React.useState(() => plugin.getActiveFilterPreset(boardId));
   const [selectedEdge, setSelectedEdge] = React.useState<string | null>(null);
-  const [selectedStatuses, setSelectedStatuses] = React.useState<TaskStatus[]>([
-    ...ALL_STATUSES,
-  ]);
   const selectedEdgeRef = React.useRef<string | null>(null);
   const nodesRef = React.useRef(nodes);
   const edgesRef = React.useRef(edges);
@@ -85,7 +176,9 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
     const currentEdges = edgesRef.current;
     
     const viewport = reactFlowInstance.getViewport();
+    const storedData = plugin.getGraphData(boardId);
     const graphData: GraphData = {
+      ...storedData,
       nodes: currentNodes.map((n) => ({
         id: n.id,
         position: n.position,
@@ -105,16 +198,24 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
           line: n.data.task.line,
         } : undefined,
       })),
-      edges: currentEdges.map((e) => ({
-        id: e.id,
-        source: e.source,
-        target: e.target,
-      })),
-      viewport: { x: viewport.x, y: viewport.y, zoom: viewport.zoom },
+      // Edges that live in the task files only are rebuilt from them on load
+      edges: storesEdgesOnCanvas(plugin.getEdgePersistence(boardId))
+        ? currentEdges
+            .filter((e) => e.data?.sync !== "markdown-only")
+            .map((e) => ({
+              id: e.id,
+              source: e.source,
+              target: e.target,
+            }))
+        : [],
+      // The timeline viewport is derived, keep the graph one
+      viewport: viewModeRef.current === "timeline"
+        ? storedData.viewport
+        : { x: viewport.x, y: viewport.y, zoom: viewport.zoom },
     };
     console.log("[TasksMap] Saving graph data:", graphData.nodes.length, "nodes,", graphData.edges.length, "edges");
-    plugin.saveGraphData(graphData);
-  }, [plugin, reactFlowInstance]);
+    plugin.saveGraphData(boardId, graphData);
+  }, [plugin, boardId, reactFlowInstance]);
 
   // Debounced save function
   const saveGraphData = useCallback(() => {
@@ -126,6 +227,147 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
     }, 200); // Reduced from 500ms to 200ms
   }, [saveGraphDataImmediate]);
 
+  // Undo history of canvas operations and of the vault edits made on the canvas
+  const historyRef = useRef(new UndoHistory());
+
+  const recordEdit = useCallback<RecordEdit>(
+    async (label, action) => {
+      const files: FileChange[] = [];
+      const renames: FileRename[] = [];
+      const result = await action(createRecordingApp(app, files, renames));
+      historyRef.current.push({ label, files, renames });
+      return result;
+    },
+    [app]
+  );
+  const historyContextValue = useMemo(() => ({ record: recordEdit }), [recordEdit]);
+
+  // Put removed nodes and edges back, e.g. when undoing a delete
+  const restoreCanvasElements = useCallback(
+    (restoredNodes: Node[], restoredEdges: Edge[]) => {
+      setNodes((nds) => {
+        const ids = new Set(nds.map((n) => n.id));
+        return [...nds, ...restoredNodes.filter((n) => !ids.has(n.id)).map((n) => ({ ...n, selected: false }))];
+      });
+      // Edges stored in the task files may be back already
+      setEdges((eds) => {
+        const keys = new Set(eds.map((e) => `${e.source}-${e.target}`));
+        return [...eds, ...restoredEdges.filter((e) => !keys.has(`${e.source}-${e.target}`))];
+      });
+    },
+    [setNodes, setEdges]
+  );
+
+  // Move nodes so the move can be undone, e.g. when aligning the selection
+  const arrangeNodes = useCallback(
+    (label: string, arrange: (currentNodes: Node[]) => Node[]) => { // eslint-disable-line no-unused-vars
+      if (viewModeRef.current === "timeline") {
+        new Notice("Switch to the graph view to arrange tasks");
+        return;
+      }
+      const before = new Map(nodesRef.current.map((n) => [n.id, n.position]));
+      const after = new Map(
+        arrange(nodesRef.current)
+          .filter((n) => n.position !== before.get(n.id))
+          .map((n) => [n.id, n.position])
+      );
+      if (after.size === 0) return;
+      const previous = new Map(Array.from(after.keys()).map((id) => [id, before.get(id)]));
+      const place = (positions: Map<string, XYPosition | undefined>) => {
+        setNodes((nds) =>
+          nds.map((n) => {
+            const position = positions.get(n.id);
+            return position ? { ...n, position } : n;
+          })
+        );
+        setTimeout(() => saveGraphData(), 100);
+      };
+      place(after);
+      historyRef.current.push({ label, files: [], undoCanvas: () => place(previous), redoCanvas: () => place(after) });
+    },
+    [setNodes, saveGraphData]
+  );
+
+  // Remove nodes and their edges from the canvas, with undo
+  const removeNodes = useCallback(
+    (label: string, nodeIds: Set<string>) => {
+      const removedNodes = nodesRef.current.filter((n) => nodeIds.has(n.id));
+      const removedEdges = edgesRef.current.filter((e) => nodeIds.has(e.source) || nodeIds.has(e.target));
+      const remove = () => {
+        setNodes((nds) => nds.filter((n) => !nodeIds.has(n.id)));
+        setEdges((eds) => eds.filter((e) => !nodeIds.has(e.source) && !nodeIds.has(e.target)));
+        setTimeout(() => saveGraphData(), 100);
+      };
+      remove();
+      if (removedNodes.length > 0) {
+        historyRef.current.push({
+          label,
+          files: [],
+          undoCanvas: () => restoreCanvasElements(removedNodes, removedEdges),
+          redoCanvas: remove,
+        });
+      }
+    },
+    [setNodes, setEdges, saveGraphData, restoreCanvasElements]
+  );
+
+  const stepHistory = useCallback(
+    async (direction: "undo" | "redo") => {
+      const apply = async (entry: HistoryEntry) => {
+        // Line changes were made to the renamed files
+        if (direction === "redo" && !(await applyFileRenames(app, entry.renames ?? [], direction))) return false;
+        if (!(await applyFileChanges(vault, entry.files, direction))) return false;
+        if (direction === "undo" && !(await applyFileRenames(app, entry.renames ?? [], direction))) return false;
+        (direction === "undo" ? entry.undoCanvas : entry.redoCanvas)?.();
+        setTimeout(() => saveGraphData(), 100);
+        return true;
+      };
+      const history = historyRef.current;
+      const result = direction === "undo" ? await history.undo(apply) : await history.redo(apply);
+      if (!result) {
+        const empty = direction === "undo" ? !history.canUndo() : !history.canRedo();
+        if (empty) new Notice(direction === "undo" ? "Nothing to undo" : "Nothing to redo");
+        return;
+      }
+      const { entry, applied } = result;
+      new Notice(
+        applied
+          ? `${direction === "undo" ? "Undo" : "Redo"}: ${entry.label}`
+          : `Cannot ${direction} "${entry.label}": the task file changed since`
+      );
+    },
+    [app, vault, saveGraphData]
+  );
+
+  // Editing the query deactivates the preset
+  const onFilterQueryChange = useCallback(
+    (query: string) => {
+      setFilterQuery(query);
+      setActivePreset(undefined);
+      plugin.setFilterQuery(boardId, query);
+    },
+    [plugin, boardId]
+  );
+
+  const onFilterPresetSelect = useCallback(
+    (name: string | undefined) => {
+      if (name) plugin.applyFilterPreset(boardId, name);
+      else plugin.setFilterQuery(boardId, "");
+    },
+    [plugin, boardId]
+  );
+
+  // Follow filter and preset changes from the sidebar and commands
+  useEffect(() => {
+    const ref = plugin.onFilterChanged((changedBoardId, query) => {
+      if (changedBoardId !== boardId) return;
+      setFilterQuery(query);
+      setFilterPresets(plugin.getFilterPresets(boardId));
+      setActivePreset(plugin.getActiveFilterPreset(boardId));
+    });
+    return () => plugin.offFilterChanged(ref);
+  }, [plugin, boardId]);
+
   // Custom onNodesChange that also saves
   const handleNodesChange = useCallback(
     (changes: NodeChange[]) => {
@@ -143,16 +385,10 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
 
   useEffect(() => {
     isMountedRef.current = true;
-    
-    // Wait for a short moment to ensure vault is ready
-    // Tasks may not be immediately available on vault open through the Dataview plugin
-    const timeoutId = window.setTimeout(() => {
-      loadInitialData();
-    }, 1000);
+    loadInitialData();
 
     return () => {
       isMountedRef.current = false;
-      window.clearTimeout(timeoutId);
       
       // Clear any pending debounced save
       if (saveTimeoutRef.current) {
@@ -185,44 +421,20 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
     });
   }, [taskTagsRegistry]);
 
-  const getFilteredNodeIds = (
-    tasks: Task[],
-    selectedTags: string[],
-    selectedStatuses: TaskStatus[]
-  ) => {
-    let filtered = tasks;
-    if (selectedTags.length > 0) {
-      filtered = filtered.filter((task) => {
-        // Check if "No tags" is selected
-        const noTagsSelected = selectedTags.includes(NO_TAGS_VALUE);
-        // Check if regular tags are selected
-        const regularTagsSelected = selectedTags.filter(
-          (tag) => tag !== NO_TAGS_VALUE
-        );
-
-        // If "No tags" is selected and task has no tags
-        const matchesNoTags = noTagsSelected && task.tags.length === 0;
-
-        // If regular tags are selected and task has matching tags
-        const matchesRegularTags =
-          regularTagsSelected.length > 0 &&
-          regularTagsSelected.some((tag) => task.tags.includes(tag));
-
-        // Return true if either condition is met
-        return matchesNoTags || matchesRegularTags;
-      });
-    }
-    if (selectedStatuses.length > 0) {
-      filtered = filtered.filter((task) =>
-        selectedStatuses.includes(task.status)
-      );
-    }
-    return filtered.map((task) => task.id);
-  };
-
   // Load saved graph data
   const loadSavedData = useCallback(() => {
-    const savedData = plugin.getGraphData();
+    // Migrate saved node keys (e.g. old path:line IDs) onto the current task keys
+    const storedData = plugin.getGraphData(boardId);
+    const savedData = migrateGraphData(storedData, plugin.taskIndex.getTasks());
+    if (savedData !== storedData) {
+      plugin.saveGraphData(boardId, savedData);
+    }
+    // Tasks saved before they had stable IDs get one written to their line;
+    // the task index update that follows re-keys their nodes
+    savedData.nodes.forEach((node) => {
+      const task = node.taskData as Task | undefined;
+      if (task && !hasStableId(task)) plugin.assignStableTaskId(task);
+    });
     
     console.log("[TasksMap] Loading saved data:", savedData.nodes.length, "nodes,", savedData.edges.length, "edges");
     
@@ -270,9 +482,12 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
     
     setNodes(restoredNodes);
     setEdges(restoredEdges);
+    // Keep refs in sync so an immediate updateNodes sees the restored graph
+    nodesRef.current = restoredNodes;
+    edgesRef.current = restoredEdges;
     
-    // Restore viewport
-    if (savedData.viewport) {
+    // Restore viewport (the timeline fits its content instead)
+    if (savedData.viewport && viewModeRef.current === "graph") {
       setTimeout(() => {
         reactFlowInstance.setViewport(savedData.viewport, { duration: 400 });
       }, 100);
@@ -281,137 +496,163 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
     new Notice(`Loaded ${restoredNodes.length} nodes`);
   }, [plugin, settings, reactFlowInstance, setNodes, setEdges]);
 
-  // Load initial data from saved graph
-  const loadInitialData = () => {
-    const newTasks = getAllTasks(app);
-    
-    // Rebuild the tag registry
-    const newRegistry = new Map<string, string[]>();
-    newTasks.forEach((task) => {
-      newRegistry.set(task.id, task.tags);
-    });
-    setTaskTagsRegistry(newRegistry);
-    setTasks(newTasks);
-    
-    // Try to load saved data
-    loadSavedData();
-    
-    isInitialLoadRef.current = false;
-  };
+  // Compare canvas edges with the dependencies in the task files. Edges that
+  // exist in only one place are flagged (and markdown-only ones are shown).
+  const reconcileCanvasEdges = useCallback(
+    (currentNodes: Node[] = nodesRef.current, showNotice = false) => {
+      const mode = plugin.getEdgePersistence(boardId);
+      const nodeIds = new Set(currentNodes.map((n) => n.id));
+      const nodeTasks = currentNodes
+        .map((n) => n.data?.task)
+        .filter((t): t is Task => !!t);
+      const markdownEdges = getMarkdownEdges(nodeTasks, nodeIds);
 
-  // Scan tasks directly from files (using path:line as ID)
-  const scanTasksFromFiles = async (): Promise<Task[]> => {
-    const tasksFolder = app.vault.getAbstractFileByPath("Spaces/2.Area/Tasks");
-    if (!tasksFolder || !(tasksFolder instanceof TFolder)) {
-      console.log("Tasks folder not found or not a folder");
-      return [];
-    }
+      setEdges((currentEdges) => {
+        // Drop the edges derived from the task files, they are re-derived below
+        const canvasEdges = currentEdges.filter(
+          (e) => !e.data?.fromMarkdown && e.data?.sync !== "markdown-only"
+        );
+        const { canvasOnly, markdownOnly } = reconcileEdges(
+          canvasEdges,
+          markdownEdges
+        );
+        const canvasOnlyIds = new Set(
+          canvasOnly.map((e) => `${e.source}-${e.target}`)
+        );
 
-    const allTasks: Task[] = [];
-    const factory = new TaskFactory();
-
-    const scanFolder = async (folder: TFolder) => {
-      for (const child of folder.children) {
-        if (child instanceof TFile && child.extension === "md") {
-          const content = await app.vault.read(child);
-          const lines = content.split("\n");
-
-          // Parse tasks from content
-          lines.forEach((line, index) => {
-            const taskMatch = line.match(/^[\s]*- \[(.)\]/);
-            if (taskMatch) {
-              const rawTask = {
-                status: taskMatch[1],
-                text: line.replace(/^[\s]*- \[.\]\s*/, ""),
-                link: { path: child.path },
-              };
-              const task = factory.parse(rawTask);
-              // Use path:line as stable ID
-              task.id = `${child.path}:${index}`;
-              allTasks.push(task);
-            }
-          });
-        } else if (child instanceof TFolder) {
-          await scanFolder(child);
+        if (showNotice) {
+          new Notice(
+            `${canvasOnly.length} connection(s) only on the canvas, ${markdownOnly.length} only in task files`
+          );
         }
-      }
-    };
 
-    await scanFolder(tasksFolder);
-    console.log("Scanned tasks:", allTasks.length, allTasks.map(t => t.id));
-    return allTasks;
-  };
+        return [
+          ...canvasEdges.map((edge) => {
+            const canvasOnly = canvasOnlyIds.has(`${edge.source}-${edge.target}`);
+            return {
+              ...edge,
+              data: {
+                ...edge.data,
+                sync: canvasOnly ? getEdgeSyncFlag("canvas-only", mode) : undefined,
+                // In markdown mode the task files are the only source, so the
+                // edge goes when its dependency is removed from the file
+                fromMarkdown: (mode === "markdown" && !canvasOnly) || undefined,
+              },
+            };
+          }),
+          ...markdownOnly.map((e) => {
+            const id = `${e.source}-${e.target}`;
+            return {
+              id,
+              source: e.source,
+              target: e.target,
+              type: "hash" as const,
+              data: {
+                hash: id,
+                layoutDirection: settings.layoutDirection,
+                debugVisualization: settings.debugVisualization,
+                sync: getEdgeSyncFlag("markdown-only", mode),
+                fromMarkdown: true,
+              },
+            };
+          }),
+        ];
+      });
+    },
+    [plugin, boardId, setEdges, settings.layoutDirection, settings.debugVisualization]
+  );
 
   // Update nodes - only updates content, doesn't change positions or add new nodes
-  const updateNodes = async () => {
-    // Scan tasks directly from files (path:line ID format)
-    const scannedTasks = await scanTasksFromFiles();
-    
-    console.log("Update nodes - scanned tasks:", scannedTasks.length);
-    console.log("Update nodes - current nodes:", nodes.length, nodes.map(n => n.id));
-    
-    // Rebuild the tag registry
-    const newRegistry = new Map<string, string[]>();
-    scannedTasks.forEach((task) => {
-      newRegistry.set(task.id, task.tags);
-    });
-    setTaskTagsRegistry(newRegistry);
-    
-    // Update tasks state
-    setTasks(scannedTasks);
-    
-    // Update existing nodes with new task data, preserving positions
-    // Matching by node.id (which is path:line format)
-    setNodes((currentNodes) => {
-      console.log("setNodes - currentNodes:", currentNodes.length);
-      return currentNodes.map((node) => {
-        const nodeTask = node.data?.task;
-        if (!nodeTask) return node;
-        
-        // Direct match by node ID (path:line format)
-        const updatedTask = scannedTasks.find((t) => t.id === node.id);
-        
-        console.log("Matching node:", node.id, "found:", !!updatedTask);
-        
-        if (updatedTask) {
-          return {
-            ...node,
-            data: {
-              ...node.data,
-              task: updatedTask,
-            },
-          };
+  const updateNodes = useCallback(
+    (indexTasks: Task[], change?: TaskIndexChange) => {
+      // Rebuild the tag registry
+      const newRegistry = new Map<string, string[]>();
+      indexTasks.forEach((task) => {
+        newRegistry.set(task.id, task.tags);
+      });
+      setTaskTagsRegistry(newRegistry);
+      
+      // Update tasks state
+      setTasks(indexTasks);
+      
+      // Follow file renames for note tasks and path:line keys
+      let currentNodes = nodesRef.current;
+      const newIds = new Map<string, string>();
+      if (change?.type === "file-renamed") {
+        currentNodes = currentNodes.map((node) => {
+          const id = renameLocationKey(node.id, change.oldPath, change.path);
+          if (id === node.id) return node;
+          newIds.set(node.id, id);
+          return { ...node, id };
+        });
+      }
+      
+      // Update existing nodes with new task data, preserving positions.
+      // Nodes are matched by key first, then by content fingerprint.
+      const matches = resolveNodeKeys(
+        currentNodes.map((node) => ({ id: node.id, task: node.data?.task })),
+        indexTasks
+      );
+      const updatedNodes = currentNodes.map((node) => {
+        const updatedTask = matches.get(node.id);
+        if (!updatedTask) return node; // Keep node unchanged if no match found
+        if (updatedTask.id !== node.id) {
+          const originalId = Array.from(newIds.entries()).find(
+            ([, id]) => id === node.id
+          )?.[0];
+          newIds.set(originalId ?? node.id, updatedTask.id);
         }
-        
-        // Keep node unchanged if no match found
-        return node;
+        return {
+          ...node,
+          id: updatedTask.id,
+          data: {
+            ...node.data,
+            task: updatedTask,
+          },
+        };
       });
-    });
-    
-    // Save after update
-    setTimeout(() => saveGraphData(), 100);
-    
-    new Notice("Nodes updated");
-  };
-
-  // Add a task to canvas (called from sidebar drag-drop)
-  const addTaskToCanvas = useCallback(
-    (taskId: string, position: { x: number; y: number }, taskData?: unknown) => {
-      // Try to find task from tasks array first, fall back to provided taskData
-      const task = tasks.find((t) => t.id === taskId) || (taskData as Task | undefined);
-      if (!task) {
-        new Notice("Task not found");
-        return;
+      
+      setNodes(updatedNodes);
+      if (newIds.size > 0) {
+        setEdges((currentEdges) => rekeyEdges(currentEdges, newIds));
       }
       
-      // Check if already on canvas
-      if (nodes.some((n) => n.id === task.id)) {
-        new Notice("Task already on canvas");
-        return;
+      // Keep edges in sync with the task files when they are stored there
+      if (plugin.getEdgePersistence(boardId) !== "canvas") {
+        reconcileCanvasEdges(updatedNodes);
       }
       
+      // Save after update
+      setTimeout(() => saveGraphData(), 100);
+    },
+    [plugin, setNodes, setEdges, saveGraphData, reconcileCanvasEdges]
+  );
+
+  // Load initial data from saved graph, then refresh it from the task index
+  const loadInitialData = () => {
+    loadSavedData();
+    updateNodes(plugin.taskIndex.getTasks());
+    
+    isInitialLoadRef.current = false;
+  };
+
+  // Reload: rebuild the task index, which in turn updates the nodes
+  const reloadTasks = useCallback(() => {
+    plugin.taskIndex.rebuild();
+  }, [plugin]);
+
+  // Keep nodes in sync with the shared task index
+  useEffect(() => {
+    const ref = plugin.taskIndex.on("changed", (change) => {
+      updateNodes(plugin.taskIndex.getTasks(), change);
+    });
+    return () => plugin.taskIndex.offref(ref);
+  }, [plugin, updateNodes]);
+
+  const createTaskNode = useCallback(
+    (task: Task, position: { x: number; y: number }): TaskNodeType => {
       const isVertical = settings.layoutDirection === "Vertical";
-      const newNode: TaskNodeType = {
+      return {
         id: task.id,
         position,
         data: {
@@ -429,14 +670,82 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
         targetPosition: isVertical ? Position.Top : Position.Left,
         draggable: true,
       };
+    },
+    [settings]
+  );
+
+  // Add a task to canvas (called from sidebar drag-drop)
+  const addTaskToCanvas = useCallback(
+    async (taskId: string, position: { x: number; y: number }, taskData?: unknown) => {
+      // Try to find task from tasks array first, fall back to provided taskData
+      const foundTask = tasks.find((t) => t.id === taskId) || (taskData as Task | undefined);
+      if (!foundTask) {
+        new Notice("Task not found");
+        return;
+      }
       
-      setNodes((nds) => [...nds, newNode]);
+      // Check if already on canvas
+      if (nodesRef.current.some((n) => n.id === foundTask.id)) {
+        new Notice("Task already on canvas");
+        return;
+      }
+      
+      // Assign a stable ID on first placement so the node survives line
+      // insertions and renames
+      const task = await plugin.assignStableTaskId(foundTask);
+      if (nodesRef.current.some((n) => n.id === task.id)) {
+        new Notice("Task already on canvas");
+        return;
+      }
+      
+      setNodes((nds) => [...nds, createTaskNode(task, position)]);
       
       // Save after adding
       setTimeout(() => saveGraphData(), 100);
       new Notice("Task added to canvas");
     },
-    [tasks, nodes, settings, saveGraphData]
+    [plugin, tasks, createTaskNode, saveGraphData]
+  );
+
+  // Add several tasks at once (e.g. imported tasks), with the dependencies
+  // between them
+  const addTasksToCanvas = useCallback(
+    (entries: { task: Task; position: { x: number; y: number } }[], dependencies: DependencyEdge[]) => {
+      const onCanvas = new Set(nodesRef.current.map((n) => n.id));
+      const added = entries.filter(({ task }) => !onCanvas.has(task.id));
+      added.forEach(({ task }) => {
+        if (!hasStableId(task)) plugin.assignStableTaskId(task);
+      });
+      setNodes((nds) => [...nds, ...added.map(({ task, position }) => createTaskNode(task, position))]);
+
+      // In markdown mode the edges come from the task files
+      if (storesEdgesOnCanvas(plugin.getEdgePersistence(boardId))) {
+        setEdges((eds) =>
+          dependencies.reduce(
+            (acc, { source, target }) =>
+              addEdge(
+                {
+                  id: `${source}-${target}`,
+                  source,
+                  target,
+                  type: "hash",
+                  data: {
+                    hash: `${source}-${target}`,
+                    layoutDirection: settings.layoutDirection,
+                    debugVisualization: settings.debugVisualization,
+                  },
+                },
+                acc
+              ),
+            eds
+          )
+        );
+      }
+
+      setTimeout(() => saveGraphData(), 100);
+      return added.length;
+    },
+    [plugin, boardId, settings.layoutDirection, settings.debugVisualization, createTaskNode, setNodes, setEdges, saveGraphData]
   );
 
   // Get IDs of tasks currently on canvas (use ref to avoid stale closure)
@@ -451,21 +760,121 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
     console.log("[TasksMap Canvas] Canvas cleared");
   }, [setNodes, setEdges]);
 
+  // Center on a node, zooming in far enough to read it
+  const focusNode = useCallback(
+    (nodeId: string) => {
+      const node = reactFlowInstance.getNode(nodeId);
+      if (!node) return;
+      reactFlowInstance.setCenter(
+        node.position.x + NODEWIDTH / 2,
+        node.position.y + NODEHEIGHT / 2,
+        { zoom: Math.max(reactFlowInstance.getZoom(), 1), duration: 400 }
+      );
+    },
+    [reactFlowInstance]
+  );
+
+  // Briefly outline a node so it can be spotted after a jump
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const highlightNode = useCallback(
+    (nodeId: string) => {
+      const mark = (id: string | null) => (nds: Node[]) =>
+        nds.map((n) => {
+          const className = n.id === id ? HIGHLIGHT_CLASS : undefined;
+          return n.className === className ? n : { ...n, className };
+        });
+      setNodes(mark(nodeId));
+      setTimelineNodes(mark(nodeId));
+      if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+      highlightTimeoutRef.current = setTimeout(() => {
+        setNodes(mark(null));
+        setTimelineNodes(mark(null));
+      }, HIGHLIGHT_DURATION);
+    },
+    [setNodes, setTimelineNodes]
+  );
+
+  useEffect(
+    () => () => {
+      if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    },
+    []
+  );
+
+  // Center on a node and make it the only selected one
+  const revealTask = useCallback(
+    (taskId: string) => {
+      if (!reactFlowInstance.getNode(taskId)) return false;
+      focusNode(taskId);
+      const select = (nds: Node[]) =>
+        nds.map((n) => (n.selected === (n.id === taskId) ? n : { ...n, selected: n.id === taskId }));
+      setNodes(select);
+      setTimelineNodes(select);
+      highlightNode(taskId);
+      return true;
+    },
+    [reactFlowInstance, focusNode, highlightNode, setNodes, setTimelineNodes]
+  );
+
   // Register canvas operations with plugin for sidebar access
   useEffect(() => {
-    plugin.registerCanvasOperations(addTaskToCanvas, getCanvasTaskIds, clearCanvasNodes);
-    
-    // Register auto-refresh callback
-    plugin.registerCanvasRefresh(() => {
-      console.log("[TasksMap Canvas] Auto-refresh triggered");
-      updateNodes();
-    });
+    const operations = {
+      addTaskToCanvas,
+      addTasksToCanvas,
+      getCanvasTaskIds,
+      clearCanvasNodes,
+      reconcileEdges: () => reconcileCanvasEdges(nodesRef.current, true),
+      revealTask,
+      undo: () => stepHistory("undo"),
+      redo: () => stepHistory("redo"),
+      saveNow: () => saveGraphDataImmediate(),
+      getVisibleGraph: () => {
+        const visibleNodes = nodesRef.current.filter((n) => !n.hidden && n.data?.task);
+        const ids = new Set(visibleNodes.map((n) => n.id));
+        return {
+          tasks: visibleNodes.map((n) => ({ ...n.data.task, id: n.id })),
+          edges: edgesRef.current
+            .filter((e) => !e.hidden && ids.has(e.source) && ids.has(e.target))
+            .map((e) => ({ source: e.source, target: e.target })),
+        };
+      },
+      getImageGraph: (selectedOnly: boolean) => {
+        // The whole map includes the tasks hidden by the filters
+        const imageNodes = nodesRef.current.filter(
+          (n) => n.data?.task && (!selectedOnly || (n.selected && !n.hidden))
+        );
+        const ids = new Set(imageNodes.map((n) => n.id));
+        return {
+          nodes: imageNodes.map((n) => ({
+            task: { ...n.data.task, id: n.id },
+            position: n.position,
+            width: n.width ?? NODEWIDTH,
+            height: n.height ?? NODEHEIGHT,
+          })),
+          edges: edgesRef.current
+            .filter((e) => ids.has(e.source) && ids.has(e.target))
+            .map((e) => ({ source: e.source, target: e.target })),
+        };
+      },
+      // Show the stored graph data again, e.g. after a map file changed on disk
+      reload: () => {
+        if (plugin.getGraphData(boardId).nodes.length === 0) clearCanvasNodes();
+        loadSavedData();
+        updateNodes(plugin.taskIndex.getTasks());
+      },
+    };
+    plugin.registerCanvasOperations(boardId, operations);
     
     return () => {
-      plugin.unregisterCanvasOperations();
-      plugin.unregisterCanvasRefresh();
+      plugin.unregisterCanvasOperations(boardId, operations);
     };
-  }, [plugin, addTaskToCanvas, getCanvasTaskIds, clearCanvasNodes]);
+  }, [plugin, boardId, addTaskToCanvas, addTasksToCanvas, getCanvasTaskIds, clearCanvasNodes, reconcileCanvasEdges, revealTask, stepHistory, saveGraphDataImmediate, loadSavedData, updateNodes]);
+
+  // Let the sidebar know when tasks are added to or removed from the canvas
+  const canvasNodeIdsKey = nodes.map((n) => n.id).join("\n");
+  useEffect(() => {
+    plugin.notifyCanvasChanged();
+  }, [plugin, canvasNodeIdsKey]);
 
   // Drag and drop from sidebar
   const [isDragOver, setIsDragOver] = React.useState(false);
@@ -513,70 +922,317 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
     });
   }, []);
 
+  const filter = useMemo(() => parseFilterQuery(filterQuery).filter, [filterQuery]);
+  const filterCompletionSources = useMemo(() => getFilterCompletionSources(tasks), [tasks]);
+
   useEffect(() => {
-    // Skip if no tasks or no nodes
-    if (tasks.length === 0 || nodes.length === 0) return;
-    
-    // Only apply filters if there are active tag/status filters
-    const hasTagFilter = selectedTags.length > 0;
-    const hasStatusFilter = selectedStatuses.length < 4; // less than all statuses
-    
-    if (!hasTagFilter && !hasStatusFilter) {
-      // No filters active, ensure all nodes are visible
-      setNodes((currentNodes) =>
-        currentNodes.map((node) => ({
-          ...node,
-          hidden: false,
-        }))
-      );
-      setEdges((currentEdges) =>
-        currentEdges.map((edge) => ({
-          ...edge,
-          hidden: false,
-        }))
-      );
-      return;
-    }
-    
-    // Apply filters - but only to nodes whose tasks are in the tasks array
-    // Nodes added from sidebar (with different ID format) should stay visible
-    const filteredNodeIds = getFilteredNodeIds(
-      tasks,
-      selectedTags,
-      selectedStatuses
+    // Skip if no nodes
+    if (nodes.length === 0) return;
+
+    // Match the task data of the nodes, which sidebar-added nodes carry too
+    const hiddenIds = new Set(
+      nodesRef.current
+        .filter((node) => node.data?.task && !matchesFilter(node.data.task, filter))
+        .map((node) => node.id)
     );
-    const taskIds = new Set(tasks.map((t) => t.id));
-    
     setNodes((currentNodes) =>
       currentNodes.map((node) => {
-        // If node's task is not in tasks array (sidebar-added), keep visible
-        if (!taskIds.has(node.id)) {
-          // Check if node's task data passes filters
-          const nodeTask = node.data?.task;
-          if (nodeTask) {
-            const passesStatusFilter = !hasStatusFilter || selectedStatuses.includes(nodeTask.status);
-            const passesTagFilter = !hasTagFilter || 
-              (selectedTags.includes(NO_TAGS_VALUE) && nodeTask.tags.length === 0) ||
-              selectedTags.some((tag) => tag !== NO_TAGS_VALUE && nodeTask.tags.includes(tag));
-            return { ...node, hidden: !(passesStatusFilter && passesTagFilter) };
-          }
-          return { ...node, hidden: false };
-        }
-        return { ...node, hidden: !filteredNodeIds.includes(node.id) };
+        const hidden = hiddenIds.has(node.id);
+        return node.hidden === hidden ? node : { ...node, hidden };
       })
     );
-    
+
     setEdges((currentEdges) =>
-      currentEdges.map((edge) => ({
-        ...edge,
-        hidden:
-          !filteredNodeIds.includes(edge.source) ||
-          !filteredNodeIds.includes(edge.target),
-      }))
+      currentEdges.map((edge) => {
+        const hidden = hiddenIds.has(edge.source) || hiddenIds.has(edge.target);
+        return edge.hidden === hidden ? edge : { ...edge, hidden };
+      })
+    );
+  }, [tasks, filter, nodes.length]);
+
+  // Follow view mode switches from the view header
+  useEffect(() => {
+    const ref = plugin.onViewModeChanged((changedBoardId, mode) => {
+      if (changedBoardId !== boardId || mode === viewModeRef.current) return;
+      // Store the graph viewport before it gets replaced by the timeline
+      if (viewModeRef.current === "graph") saveGraphDataImmediate();
+      viewModeRef.current = mode;
+      setViewMode(mode);
+      setTimeout(() => {
+        if (mode === "timeline") {
+          reactFlowInstance.fitView({ duration: 400 });
+        } else {
+          reactFlowInstance.setViewport(plugin.getGraphData(boardId).viewport, { duration: 400 });
+        }
+      }, 100);
+    });
+    return () => plugin.offViewModeChanged(ref);
+  }, [plugin, boardId, reactFlowInstance, saveGraphDataImmediate]);
+
+  // Toolbar; its open state is saved with the board
+  const [toolbarOpen, setToolbarOpen] = React.useState(() => plugin.isToolbarOpen(boardId));
+  // Matches of the toolbar search, best first, and the one jumped to
+  const [search, setSearch] = React.useState<{ matches: string[]; index: number }>({ matches: [], index: -1 });
+  const searchRef = useRef(search);
+
+  const toggleToolbar = useCallback(() => {
+    setToolbarOpen(!toolbarOpen);
+    plugin.setToolbarOpen(boardId, !toolbarOpen);
+  }, [plugin, boardId, toolbarOpen]);
+
+  const fitView = useCallback(() => {
+    reactFlowInstance.fitView({ duration: 400 });
+  }, [reactFlowInstance]);
+
+  // Lay out the selected tasks, or all visible ones without a selection
+  const relayout = useCallback(() => {
+    if (viewModeRef.current === "timeline") {
+      new Notice("Switch to the graph view to re-layout tasks");
+      return;
+    }
+    const currentNodes = nodesRef.current;
+    const selectedIds = new Set(currentNodes.filter((n) => n.selected && !n.hidden).map((n) => n.id));
+    const ids = selectedIds.size > 0 ? selectedIds : new Set(currentNodes.filter((n) => !n.hidden).map((n) => n.id));
+    arrangeNodes(
+      selectedIds.size > 0 ? "Re-layout selection" : "Re-layout",
+      (nds) => getLayoutedSelection(nds, edgesRef.current, ids, layoutDirection)
     );
-  }, [tasks, selectedTags, selectedStatuses, nodes.length]);
+    if (selectedIds.size === 0) setTimeout(fitView, 50);
+  }, [layoutDirection, arrangeNodes, fitView]);
+
+  const toggleLayoutDirection = useCallback(() => {
+    if (viewModeRef.current === "timeline") {
+      new Notice("Switch to the graph view to change the layout direction");
+      return;
+    }
+    const direction = layoutDirection === "Horizontal" ? "Vertical" : "Horizontal";
+    const isVertical = direction === "Vertical";
+    setLayoutDirection(direction);
+    plugin.setLayoutDirection(boardId, direction);
+
+    // Turn the handles and lay out the visible tasks in the new direction
+    const currentNodes = nodesRef.current.map((node) => ({
+      ...node,
+      data: { ...node.data, layoutDirection: direction },
+      sourcePosition: isVertical ? Position.Bottom : Position.Right,
+      targetPosition: isVertical ? Position.Top : Position.Left,
+    }));
+    const visibleIds = new Set(currentNodes.filter((n) => !n.hidden).map((n) => n.id));
+    setNodes(getLayoutedSelection(currentNodes, edgesRef.current, visibleIds, direction));
+    setEdges((eds) => eds.map((edge) => ({ ...edge, data: { ...edge.data, layoutDirection: direction } })));
+    setTimeout(fitView, 50);
+    saveGraphData();
+  }, [plugin, boardId, layoutDirection, setNodes, setEdges, fitView, saveGraphData]);
+
+  // Select the visible tasks matching the search
+  const searchNodes = useCallback(
+    (text: string) => {
+      const visibleTasks = nodesRef.current
+        .filter((n) => !n.hidden && n.data?.task)
+        .map((n) => ({ ...n.data.task, id: n.id }));
+      const matches = searchTasks(visibleTasks, text).map((match) => match.task.id);
+      searchRef.current = { matches, index: -1 };
+      setSearch(searchRef.current);
+      const ids = new Set(matches);
+      setNodes((nds) =>
+        nds.map((node) => {
+          const selected = ids.has(node.id);
+          return node.selected === selected ? node : { ...node, selected };
+        })
+      );
+    },
+    [setNodes]
+  );
 
-  const nodeTypes = useMemo(() => ({ task: TaskNode }), []);
+  // Jump to the next (1) or previous (-1) match
+  const stepSearch = useCallback(
+    (step: 1 | -1) => {
+      const { matches, index } = searchRef.current;
+      if (matches.length === 0) return;
+      const next =
+        index === -1 ? (step === 1 ? 0 : matches.length - 1) : (index + step + matches.length) % matches.length;
+      searchRef.current = { matches, index: next };
+      setSearch(searchRef.current);
+      focusNode(matches[next]);
+      highlightNode(matches[next]);
+    },
+    [focusNode, highlightNode]
+  );
+
+  // Lay out the visible nodes on the time axis
+  useEffect(() => {
+    if (viewMode !== "timeline") return;
+    const visibleNodes = nodes.filter((n) => !n.hidden && n.data?.task);
+    const layout = computeTimelineLayout(
+      visibleNodes.map((n) => ({ ...n.data.task, id: n.id })),
+      {
+        dayWidth: TIMELINE_DAY_WIDTH,
+        nodeWidth: NODEWIDTH,
+        rowHeight: TIMELINE_ROW_HEIGHT,
+        gap: TIMELINE_GAP,
+      }
+    );
+    timelineOriginRef.current = layout.origin;
+    const axisWidth = layout.days * TIMELINE_DAY_WIDTH;
+
+    const decorations: Node[] = [
+      {
+        id: "tasks-map-timeline-axis",
+        type: "timeline-axis",
+        position: { x: 0, y: -TIMELINE_AXIS_OFFSET },
+        data: {
+          origin: layout.origin,
+          days: layout.days,
+          dayWidth: TIMELINE_DAY_WIDTH,
+          height: layout.undatedLaneY + TIMELINE_ROW_HEIGHT + TIMELINE_AXIS_OFFSET,
+          today: formatDate(new Date()),
+        },
+        draggable: false,
+        selectable: false,
+        connectable: false,
+        zIndex: -1,
+      },
+    ];
+    if (layout.undatedIds.length > 0) {
+      decorations.push({
+        id: "tasks-map-timeline-undated",
+        type: "timeline-lane",
+        position: { x: 0, y: layout.undatedLaneY - TIMELINE_GAP * 2 },
+        data: { label: "Undated", width: axisWidth },
+        draggable: false,
+        selectable: false,
+        connectable: false,
+        zIndex: -1,
+      });
+    }
+
+    setTimelineNodes([
+      ...decorations,
+      ...visibleNodes.map((node) => ({
+        ...node,
+        position: layout.positions.get(node.id) ?? node.position,
+        data: { ...node.data, layoutDirection: "Horizontal" as const },
+        sourcePosition: Position.Right,
+        targetPosition: Position.Left,
+      })),
+    ]);
+  }, [viewMode, nodes, timelineVersion, setTimelineNodes]);
+
+  // Dragging a node along the time axis reschedules the task in its file
+  const onTimelineNodeDragStop = useCallback(
+    async (_event: React.MouseEvent, node: Node) => {
+      const task: Task | undefined = node.data?.task;
+      const span = task && getTimelineSpan(task);
+      if (!task || !span) {
+        if (task) new Notice("Add a date to the task to schedule it on the timeline");
+        setTimelineVersion((v) => v + 1);
+        return;
+      }
+
+      const newStart = getDateAtPosition(node.position.x, timelineOriginRef.current, TIMELINE_DAY_WIDTH);
+      const days = daysBetween(span.start, newStart);
+      if (days === 0) {
+        setTimelineVersion((v) => v + 1);
+        return;
+      }
+
+      await shiftTaskDatesInVault(task, days, app);
+      new Notice(`Rescheduled "${task.summary}" to ${newStart}`);
+    },
+    [app]
+  );
+
+  // Tasks on the canvas by node ID (for the critical path analysis)
+  const canvasTasks = useMemo(() => {
+    const map = new Map<string, Task>();
+    nodes.forEach((node) => {
+      if (node.data?.task) map.set(node.id, { ...node.data.task, id: node.id });
+    });
+    return map;
+  }, [nodes]);
+
+  // Critical path to the selected target, recomputed as the graph changes
+  const criticalPath = useMemo(() => {
+    if (!criticalTargetId) return null;
+    return computeCriticalPath(Array.from(canvasTasks.values()), edges, criticalTargetId);
+  }, [criticalTargetId, canvasTasks, edges]);
+
+  const showCriticalPath = useCallback(
+    (nodeId: string) => {
+      const result = computeCriticalPath(
+        Array.from(canvasTasks.values()),
+        edgesRef.current,
+        nodeId
+      );
+      if (!result) {
+        new Notice("Cannot compute the critical path: the dependencies contain a cycle");
+        return;
+      }
+      setCriticalTargetId(nodeId);
+      setContextMenu(null);
+    },
+    [canvasTasks]
+  );
+
+  // Highlight the critical path on top of the current view mode
+  const displayNodes = useMemo(() => {
+    const shown = viewMode === "timeline" ? timelineNodes : nodes;
+    if (!criticalPath) return shown;
+    return shown.map((node) =>
+      node.type === "task"
+        ? { ...node, data: { ...node.data, critical: criticalPath.criticalNodes.has(node.id) } }
+        : node
+    );
+  }, [viewMode, timelineNodes, nodes, criticalPath]);
+
+  const formatCycle = useCallback(
+    (cycle: string[]) =>
+      cycle
+        .map((id) => nodesRef.current.find((n) => n.id === id)?.data?.task?.summary || id)
+        .join(" → "),
+    []
+  );
+
+  // Dependency cycles among the canvas edges, reported whenever new ones appear
+  const cycleEdgeIds = useMemo(() => getCycleEdgeIds(edges), [edges]);
+  const cycleCountRef = useRef(0);
+  useEffect(() => {
+    const cycles = findCycles(edges);
+    if (cycles.length > cycleCountRef.current) {
+      const preview = cycles.slice(0, 3).map(formatCycle).join("\n");
+      new Notice(
+        `Found ${cycles.length} dependency cycle(s):\n${preview}${cycles.length > 3 ? "\n…" : ""}`,
+        8000
+      );
+    }
+    cycleCountRef.current = cycles.length;
+  }, [edges, formatCycle]);
+
+  // Edges follow the horizontal axis in timeline mode
+  const displayEdges = useMemo(
+    () =>
+      viewMode === "timeline" || criticalPath || cycleEdgeIds.size > 0
+        ? edges.map((edge) => ({
+            ...edge,
+            data: {
+              ...edge.data,
+              layoutDirection: viewMode === "timeline" ? "Horizontal" : edge.data?.layoutDirection,
+              critical: criticalPath?.criticalEdges.has(`${edge.source}-${edge.target}`),
+              cycle: cycleEdgeIds.has(`${edge.source}-${edge.target}`),
+            },
+          }))
+        : edges,
+    [viewMode, edges, criticalPath, cycleEdgeIds]
+  );
+
+  const nodeTypes = useMemo(
+    () => ({
+      task: TaskNode,
+      "timeline-axis": TimelineAxis,
+      "timeline-lane": TimelineLane,
+    }),
+    []
+  );
   const edgeTypes = useMemo(() => ({ hash: HashEdge }), []);
 
   const onEdgeClick = useCallback(
@@ -595,8 +1251,154 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
   const onPaneClick = useCallback(() => {
     setSelectedEdge(null);
     setContextMenu(null);
+    setQuickEntry(null);
   }, [setSelectedEdge]);
 
+  // Add the edge for a dependency of targetTask on sourceTask, and write it to
+  // the task files depending on the edge persistence mode
+  const connectTasks = useCallback(
+    async (
+      sourceTask: Task,
+      targetTask: Task,
+      connection: Partial<Connection> = { source: sourceTask.id, target: targetTask.id }
+    ): Promise<boolean> => {
+      if (writesEdgesToMarkdown(plugin.getEdgePersistence(boardId))) {
+        const hash = await addLinkSignsBetweenTasks(
+          vault,
+          sourceTask,
+          targetTask,
+          settings.linkingStyle
+        );
+        if (!hash) {
+          new Notice("Cannot connect: failed to write dependency to task file");
+          return false;
+        }
+      }
+
+      const edgeId = `${sourceTask.id}-${targetTask.id}`;
+      setEdges((eds) =>
+        addEdge(
+          {
+            ...connection,
+            source: sourceTask.id,
+            target: targetTask.id,
+            id: edgeId,
+            type: "hash",
+            data: {
+              hash: edgeId,
+              layoutDirection: settings.layoutDirection,
+              debugVisualization: settings.debugVisualization,
+            },
+          },
+          eds
+        )
+      );
+
+      // Save edges after connecting
+      setTimeout(() => saveGraphData(), 100);
+      return true;
+    },
+    [
+      plugin,
+      boardId,
+      vault,
+      setEdges,
+      settings.linkingStyle,
+      settings.layoutDirection,
+      settings.debugVisualization,
+      saveGraphData,
+    ]
+  );
+
+  // Quick entry for a new task, opened at a screen point; the task is
+  // placed on the canvas where the entry was opened. Tasks dragged out of a
+  // node depend on that node's task.
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [quickEntry, setQuickEntry] = React.useState<{
+    x: number;
+    y: number;
+    dependsOn?: Task;
+  } | null>(null);
+
+  const openQuickEntry = useCallback((point?: { x: number; y: number }, dependsOn?: Task) => {
+    if (viewModeRef.current === "timeline") {
+      new Notice("Switch to the graph view to create tasks");
+      return;
+    }
+    // From the toolbar, open it near the middle of the canvas
+    const rect = containerRef.current?.getBoundingClientRect();
+    const at = point ?? (rect && { x: rect.left + rect.width / 2, y: rect.top + rect.height / 3 });
+    if (!at) return;
+    setContextMenu(null);
+    setQuickEntry({ ...at, dependsOn });
+  }, []);
+
+  const onCanvasDoubleClick = useCallback(
+    (event: React.MouseEvent) => {
+      if (!(event.target as HTMLElement).classList.contains("react-flow__pane")) return;
+      openQuickEntry({ x: event.clientX, y: event.clientY });
+    },
+    [openQuickEntry]
+  );
+
+  // Dropping a connection from a source handle onto empty canvas creates a
+  // task that depends on the dragged-from task
+  const connectStartRef = useRef<OnConnectStartParams | null>(null);
+
+  const onConnectStart = useCallback((_event: unknown, params: OnConnectStartParams) => {
+    connectStartRef.current = params;
+  }, []);
+
+  const onConnectEnd = useCallback(
+    (event: MouseEvent | TouchEvent) => {
+      const start = connectStartRef.current;
+      connectStartRef.current = null;
+      if (start?.handleType !== "source" || !start.nodeId) return;
+      if (!(event.target as HTMLElement).classList.contains("react-flow__pane")) return;
+      const source = nodesRef.current.find((n) => n.id === start.nodeId)?.data?.task;
+      if (!source) return;
+      const point = "changedTouches" in event ? event.changedTouches[0] : event;
+      openQuickEntry({ x: point.clientX, y: point.clientY }, source);
+    },
+    [openQuickEntry]
+  );
+
+  const quickEntryDefaults = useMemo(
+    () =>
+      quickEntry?.dependsOn
+        ? getDependentTaskDefaults(quickEntry.dependsOn, settings)
+        : {
+            type: settings.newTaskType,
+            targets: { line: settings.inboxFile, note: settings.noteTaskFolder },
+          },
+    [quickEntry, settings]
+  );
+
+  const createTask = useCallback(
+    async (input: NewTaskInput) => {
+      if (!quickEntry) return;
+      const point = reactFlowInstance.screenToFlowPosition(quickEntry);
+      const { dependsOn } = quickEntry;
+      setQuickEntry(null);
+      try {
+        const task = await createTaskInVault(input, app, settings.linkingStyle);
+        const position = { x: point.x - NODEWIDTH / 2, y: point.y - NODEHEIGHT / 2 };
+        setNodes((nds) => [...nds, createTaskNode(task, position)]);
+        setTimeout(() => saveGraphData(), 100);
+        if (dependsOn && !(await connectTasks(dependsOn, task))) return;
+        new Notice(
+          dependsOn
+            ? `Task created in ${task.link}, depending on "${dependsOn.summary}"`
+            : `Task created in ${task.link}`
+        );
+      } catch (err) {
+        console.error("Failed to create task:", err);
+        new Notice("Failed to create task");
+      }
+    },
+    [quickEntry, reactFlowInstance, app, settings.linkingStyle, createTaskNode, setNodes, saveGraphData, connectTasks]
+  );
+
   // Context menu state for right-click delete
   const [contextMenu, setContextMenu] = React.useState<{
     nodeId: string;
@@ -605,8 +1407,9 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
   } | null>(null);
 
   const onNodeContextMenu = useCallback(
-    (event: React.MouseEvent, node: { id: string }) => {
+    (event: React.MouseEvent, node: { id: string; type?: string }) => {
       event.preventDefault();
+      if (node.type !== "task") return; // Timeline axis and lanes
       setContextMenu({
         nodeId: node.id,
         x: event.clientX,
@@ -618,25 +1421,102 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
 
   const deleteNode = useCallback(
     (nodeId: string) => {
-      setNodes((nds) => nds.filter((n) => n.id !== nodeId));
-      setEdges((eds) => eds.filter((e) => e.source !== nodeId && e.target !== nodeId));
+      removeNodes("Delete node", new Set([nodeId]));
       setContextMenu(null);
-      setTimeout(() => saveGraphData(), 100);
       new Notice("Node deleted");
     },
-    [setNodes, setEdges, saveGraphData]
+    [removeNodes]
+  );
+
+  // Bulk actions on the selected task nodes (shift-drag or Ctrl/Cmd+click)
+  const selectedTaskNodes = useMemo(
+    () =>
+      (viewMode === "timeline" ? timelineNodes : nodes).filter(
+        (n) => n.selected && !n.hidden && n.type === "task" && n.data?.task
+      ),
+    [viewMode, timelineNodes, nodes]
+  );
+
+  const applyBulkEdit = useCallback(
+    async (edit: BulkEdit) => {
+      const selectedTasks: Task[] = selectedTaskNodes.map((n) => n.data.task);
+      const count = getBulkEditTargets(selectedTasks, edit).length;
+      if (count === 0) {
+        new Notice("The selected tasks are already up to date");
+        return;
+      }
+      const label = describeBulkEdit(edit, count);
+      try {
+        await recordEdit(label, (recordingApp) => applyBulkEditInVault(selectedTasks, edit, recordingApp));
+        new Notice(label);
+      } catch {
+        new Notice("Failed to update the selected tasks");
+      }
+    },
+    [selectedTaskNodes, recordEdit]
+  );
+
+  const alignSelectedNodes = useCallback(
+    (mode: AlignMode) => {
+      const ids = new Set(selectedTaskNodes.map((n) => n.id));
+      arrangeNodes(`Align ${ids.size} tasks`, (nds) => alignSelection(nds, ids, mode));
+    },
+    [selectedTaskNodes, arrangeNodes]
+  );
+
+  const distributeSelectedNodes = useCallback(
+    (axis: "horizontal" | "vertical") => {
+      const ids = new Set(selectedTaskNodes.map((n) => n.id));
+      arrangeNodes(`Distribute ${ids.size} tasks`, (nds) => distributeSelection(nds, ids, axis));
+    },
+    [selectedTaskNodes, arrangeNodes]
   );
 
+  const removeSelectedNodes = useCallback(() => {
+    const ids = new Set(selectedTaskNodes.map((n) => n.id));
+    removeNodes(`Remove ${ids.size} tasks`, ids);
+    new Notice(`Removed ${ids.size} tasks from the canvas`);
+  }, [selectedTaskNodes, removeNodes]);
+
+  const clearSelection = useCallback(() => {
+    const deselect = (nds: Node[]) => nds.map((n) => (n.selected ? { ...n, selected: false } : n));
+    setNodes(deselect);
+    setTimelineNodes(deselect);
+  }, [setNodes, setTimelineNodes]);
+
   const onDeleteSelectedEdge = useCallback(async () => {
     if (!selectedEdge) return;
+    const edge = edgesRef.current.find((e) => e.id === selectedEdge);
+
+    // Remove the dependency from the task file as well, if edges are stored there
+    const files: FileChange[] = [];
+    if (edge && writesEdgesToMarkdown(plugin.getEdgePersistence(boardId))) {
+      const sourceTask = nodesRef.current.find((n) => n.id === edge.source)?.data?.task;
+      const targetTask = nodesRef.current.find((n) => n.id === edge.target)?.data?.task;
+      if (sourceTask && targetTask) {
+        await removeLinkSignsBetweenTasks(
+          createRecordingVault(vault, files),
+          targetTask,
+          getLinkingId(sourceTask) ?? sourceTask.id
+        );
+      }
+    }
 
-    // Simply delete the edge from canvas and save to data.json
-    // No need to modify source files
-    setEdges((eds) => eds.filter((e) => e.id !== selectedEdge));
+    const edgeId = selectedEdge;
+    const remove = () => setEdges((eds) => eds.filter((e) => e.id !== edgeId));
+    remove();
+    if (edge) {
+      historyRef.current.push({
+        label: "Delete edge",
+        files,
+        undoCanvas: () => restoreCanvasElements([], [edge]),
+        redoCanvas: remove,
+      });
+    }
     setSelectedEdge(null);
     setTimeout(() => saveGraphData(), 100);
     new Notice("Edge deleted");
-  }, [selectedEdge, setEdges, saveGraphData]);
+  }, [selectedEdge, setEdges, saveGraphData, plugin, boardId, vault, restoreCanvasElements]);
 
   const onConnect = useCallback(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -653,38 +1533,24 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
         return;
       }
 
-      // Create edge without modifying source files
-      // Connection is only stored in data.json
-      const edgeId = `${params.source}-${params.target}`;
-      
-      setEdges((eds) =>
-        addEdge(
-          {
-            ...params,
-            id: edgeId,
-            type: "hash",
-            data: {
-              hash: edgeId,
-              layoutDirection: settings.layoutDirection,
-              debugVisualization: settings.debugVisualization,
-            },
-          },
-          eds
-        )
+      // Check whether the new dependency closes a cycle
+      const cycle = findCycleForNewEdge(edgesRef.current, params.source, params.target);
+      if (cycle && settings.cyclePolicy === "refuse") {
+        new Notice(`Cannot connect: this would create a dependency cycle (${formatCycle(cycle)})`);
+        return;
+      }
+
+      if (!(await connectTasks(sourceTask, targetTask, params))) return;
+      const mode = plugin.getEdgePersistence(boardId);
+      new Notice(
+        mode === "canvas"
+          ? "Connected (saved to data.json only)"
+          : mode === "markdown"
+            ? "Connected (saved to task files)"
+            : "Connected (saved to data.json and task files)"
       );
-      
-      // Save edges after connecting
-      setTimeout(() => saveGraphData(), 100);
-      new Notice("Connected (saved to data.json only)");
     },
-    [
-      nodes,
-      tasks,
-      setEdges,
-      settings.layoutDirection,
-      settings.debugVisualization,
-      saveGraphData,
-    ]
+    [nodes, tasks, settings.cyclePolicy, formatCycle, connectTasks, plugin, boardId]
   );
 
   const tagsContextValue = useMemo(
@@ -697,62 +1563,124 @@ export default function TaskMapGraphView({ settings, plugin }: TaskMapGraphViewP
 
   return (
     <TagsContext.Provider value={tagsContextValue}>
-      <div
-        className={`tasks-map-graph-container ${isDragOver ? "drag-over" : ""}`}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-      >
-        <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={handleNodesChange}
-          onEdgesChange={onEdgesChange}
-          nodeTypes={nodeTypes}
-          edgeTypes={edgeTypes}
-          proOptions={{ hideAttribution: true }}
-          minZoom={0.1}
-          fitView
-          onConnect={onConnect}
-          onEdgeClick={onEdgeClick}
-          onNodeClick={onNodeClick}
-          onPaneClick={onPaneClick}
-          onNodeContextMenu={onNodeContextMenu}
+      <HistoryContext.Provider value={historyContextValue}>
+        <div
+          ref={containerRef}
+          className={`tasks-map-graph-container ${isDragOver ? "drag-over" : ""}`}
+          onDoubleClick={onCanvasDoubleClick}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
         >
-          <GuiOverlay
-            allTags={allTags}
-            selectedTags={selectedTags}
-            setSelectedTags={setSelectedTags}
-            reloadTasks={updateNodes}
-            loadSavedData={loadSavedData}
-            allStatuses={ALL_STATUSES}
-            selectedStatuses={selectedStatuses}
-            setSelectedStatuses={setSelectedStatuses}
-          />
-          <TaskMinimap />
-          <Background />
-        </ReactFlow>
-        {selectedEdge && <DeleteEdgeButton onDelete={onDeleteSelectedEdge} />}
-        {contextMenu && ReactDOM.createPortal(
-          <div
-            className="tasks-map-context-menu"
-            ref={(el) => {
-              if (el) {
-                el.style.left = `${contextMenu.x}px`;
-                el.style.top = `${contextMenu.y}px`;
-              }
-            }}
+          <ReactFlow
+            nodes={displayNodes}
+            edges={displayEdges}
+            onNodesChange={viewMode === "timeline" ? onTimelineNodesChange : handleNodesChange}
+            onNodeDragStop={viewMode === "timeline" ? onTimelineNodeDragStop : undefined}
+            onEdgesChange={onEdgesChange}
+            nodeTypes={nodeTypes}
+            edgeTypes={edgeTypes}
+            proOptions={{ hideAttribution: true }}
+            minZoom={0.1}
+            zoomOnDoubleClick={false}
+            fitView
+            onConnect={onConnect}
+            onConnectStart={onConnectStart}
+            onConnectEnd={onConnectEnd}
+            onEdgeClick={onEdgeClick}
+            onNodeClick={onNodeClick}
+            onPaneClick={onPaneClick}
+            onNodeContextMenu={onNodeContextMenu}
           >
-            <button
-              className="tasks-map-context-menu-item"
-              onClick={() => deleteNode(contextMenu.nodeId)}
+            <GuiOverlay
+              open={toolbarOpen}
+              onToggle={toggleToolbar}
+              allTags={allTags}
+              filterQuery={filterQuery}
+              onFilterQueryChange={onFilterQueryChange}
+              completionSources={filterCompletionSources}
+              filterPresets={filterPresets}
+              activePreset={activePreset}
+              onPresetSelect={onFilterPresetSelect}
+              onPresetSave={() => plugin.promptSaveFilterPreset(boardId)}
+              onPresetDelete={(name) => plugin.deleteFilterPreset(boardId, name)}
+              layoutDirection={layoutDirection}
+              onToggleDirection={toggleLayoutDirection}
+              hasSelection={nodes.some((n) => n.selected)}
+              onRelayout={relayout}
+              onFitView={fitView}
+              onNewTask={() => openQuickEntry()}
+              searchMatches={search.matches.length}
+              searchIndex={search.index}
+              onSearch={searchNodes}
+              onSearchStep={stepSearch}
+              reloadTasks={reloadTasks}
+              loadSavedData={loadSavedData}
+            />
+            {selectedTaskNodes.length > 1 && (
+              <BulkActionBar
+                count={selectedTaskNodes.length}
+                allTags={allTags}
+                onEdit={applyBulkEdit}
+                onAlign={alignSelectedNodes}
+                onDistribute={distributeSelectedNodes}
+                onLayout={relayout}
+                onDelete={removeSelectedNodes}
+                onClear={clearSelection}
+              />
+            )}
+            <TaskMinimap />
+            <Background />
+          </ReactFlow>
+          {selectedEdge && <DeleteEdgeButton onDelete={onDeleteSelectedEdge} />}
+          {criticalPath && (
+            <CriticalPathPanel
+              result={criticalPath}
+              tasks={canvasTasks}
+              onSelect={focusNode}
+              onClose={() => setCriticalTargetId(null)}
+            />
+          )}
+          {quickEntry && ReactDOM.createPortal(
+            <QuickTaskEntry
+              x={quickEntry.x}
+              y={quickEntry.y}
+              allTags={allTags}
+              dependsOn={quickEntry.dependsOn?.summary}
+              defaultType={quickEntryDefaults.type}
+              defaultTargets={quickEntryDefaults.targets}
+              onSubmit={createTask}
+              onCancel={() => setQuickEntry(null)}
+            />,
+            document.body
+          )}
+          {contextMenu && ReactDOM.createPortal(
+            <div
+              className="tasks-map-context-menu"
+              ref={(el) => {
+                if (el) {
+                  el.style.left = `${contextMenu.x}px`;
+                  el.style.top = `${contextMenu.y}px`;
+                }
+              }}
             >
-              🗑️ Delete Node
-            </button>
-          </div>,
-          document.body
-        )}
-      </div>
+              <button
+                className="tasks-map-context-menu-item"
+                onClick={() => showCriticalPath(contextMenu.nodeId)}
+              >
+                🎯 Show critical path to here
+              </button>
+              <button
+                className="tasks-map-context-menu-item tasks-map-context-menu-item--danger"
+                onClick={() => deleteNode(contextMenu.nodeId)}
+              >
+                🗑️ Delete Node
+              </button>
+            </div>,
+            document.body
+          )}
+        </div>
+      </HistoryContext.Provider>
     </TagsContext.Provider>
   );
 }
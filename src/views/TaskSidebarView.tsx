@@ -1,9 +1,16 @@
-import { ItemView, WorkspaceLeaf, TFile, TFolder, Notice } from "obsidian";
+import { ItemView, WorkspaceLeaf, Notice } from "obsidian";
 import { createRoot, Root } from "react-dom/client";
 import TasksMapPlugin from "../main";
-import React, { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
 import { Task } from "../types/task";
-import { TaskFactory } from "../lib/task-factory";
+import { getNextActions } from "../lib/next-actions";
+import { getDueState } from "../lib/task-dates";
+import {
+  getFilterCompletionSources,
+  matchesFilter,
+  parseFilterQuery,
+} from "../lib/filter-query";
+import { FilterQueryInput } from "../components/filter-query-input";
 
 export const SIDEBAR_VIEW_TYPE = "tasks-map-sidebar";
 
@@ -65,120 +72,121 @@ function TaskCard({ task, isOnCanvas, onDragStart, onOpenFile }: TaskCardProps)
   );
 }
 
+interface NextActionCardProps {
+  task: Task;
+  isOnCanvas: boolean;
+  onOpenFile: (task: Task) => void; // eslint-disable-line no-unused-vars
+  onReveal: (task: Task) => void; // eslint-disable-line no-unused-vars
+}
+
+function NextActionCard({ task, isOnCanvas, onOpenFile, onReveal }: NextActionCardProps) {
+  const dueState = getDueState(task);
+
+  return (
+    <div className="tasks-map-sidebar-card tasks-map-next-action">
+      <div className="tasks-map-sidebar-card-header">
+        {task.priority && (
+          <span className="tasks-map-next-action-priority">{task.priority}</span>
+        )}
+        <span className="tasks-map-sidebar-card-title">{task.summary || task.text}</span>
+        {isOnCanvas && (
+          <button
+            className="tasks-map-sidebar-card-open-btn"
+            onClick={() => onReveal(task)}
+            title="Reveal on canvas"
+          >
+            ◎
+          </button>
+        )}
+        <button
+          className="tasks-map-sidebar-card-open-btn"
+          onClick={() => onOpenFile(task)}
+          title="Open file"
+        >
+          ↗
+        </button>
+      </div>
+      {(task.dueDate || task.status === "in_progress") && (
+        <div className="tasks-map-next-action-meta">
+          {task.status === "in_progress" && <span>◐ In progress</span>}
+          {task.dueDate && (
+            <span className={dueState ? `tasks-map-next-action-due--${dueState}` : undefined}>
+              📅 {task.dueDate}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface SidebarContentProps {
   plugin: TasksMapPlugin;
 }
 
 function SidebarContent({ plugin }: SidebarContentProps) {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [projects, setProjects] = useState<string[]>([]);
+  const [tasks, setTasks] = useState<Task[]>(() => plugin.taskIndex.getTasks());
   const [selectedProject, setSelectedProject] = useState<string>("all");
   const [hideOnCanvas, setHideOnCanvas] = useState(false);
-  const [canvasTaskIds, setCanvasTaskIds] = useState<string[]>([]);
+  const [canvasTaskIds, setCanvasTaskIds] = useState<string[]>(() => plugin.getCanvasTaskIds());
   const [isLoading, setIsLoading] = useState(false);
-  
-  // Track if component is mounted
-  const isMountedRef = useRef(true);
+  const [tab, setTab] = useState<"tasks" | "next">("tasks");
+  // Filter query of the active board, shared with its canvas
+  const [filterQuery, setFilterQuery] = useState(() => plugin.getFilterQuery());
 
-  // Scan tasks from folder (useCallback for stable reference)
-  const scanTasks = useCallback(async (showLoading = true) => {
-    if (showLoading) setIsLoading(true);
-    
-    const tasksFolder = plugin.app.vault.getAbstractFileByPath("Spaces/2.Area/Tasks");
-    if (!tasksFolder || !(tasksFolder instanceof TFolder)) {
-      if (showLoading) setIsLoading(false);
-      return;
-    }
+  // Follow the shared task index and the tasks placed on the canvas
+  useEffect(() => {
+    setTasks(plugin.taskIndex.getTasks());
+    const indexRef = plugin.taskIndex.on("changed", () => {
+      setTasks(plugin.taskIndex.getTasks());
+    });
+    const canvasRef = plugin.onCanvasChanged((taskIds) => {
+      setCanvasTaskIds(taskIds);
+      // The active board may have changed
+      setFilterQuery(plugin.getFilterQuery());
+    });
+    const filterRef = plugin.onFilterChanged((boardId, query) => {
+      if (boardId === plugin.activeBoardId) setFilterQuery(query);
+    });
 
-    const allTasks: Task[] = [];
-    const projectSet = new Set<string>();
-    const factory = new TaskFactory();
-
-    const scanFolder = async (folder: TFolder) => {
-      for (const child of folder.children) {
-        if (child instanceof TFile && child.extension === "md") {
-          const cache = plugin.app.metadataCache.getFileCache(child);
-          const content = await plugin.app.vault.read(child);
-          const lines = content.split("\n");
-          
-          // Get project from frontmatter
-          const project = cache?.frontmatter?.Project || cache?.frontmatter?.project || "none";
-          if (project !== "none") {
-            projectSet.add(project);
-          }
-
-          // Parse dataview tasks from content
-          lines.forEach((line, index) => {
-            const taskMatch = line.match(/^[\s]*- \[(.)\]/);
-            if (taskMatch) {
-              const rawTask = {
-                status: taskMatch[1],
-                text: line.replace(/^[\s]*- \[.\]\s*/, ""),
-                link: { path: child.path },
-                line: index,
-              };
-              const task = factory.parse(rawTask);
-              // Add project info and line number for stable ID
-              (task as Task & { project?: string; line?: number }).project = project;
-              (task as Task & { line?: number }).line = index;
-              
-              // Generate stable ID using file path and line number
-              if (!task.id || task.id.length === 6) {
-                // If ID is random (6 chars), use path+line for stability
-                task.id = `${child.path}:${index}`;
-              }
-              
-              allTasks.push(task);
-            }
-          });
-        } else if (child instanceof TFolder) {
-          await scanFolder(child);
-        }
-      }
+    return () => {
+      plugin.taskIndex.offref(indexRef);
+      plugin.offCanvasChanged(canvasRef);
+      plugin.offFilterChanged(filterRef);
     };
+  }, [plugin]);
 
-    await scanFolder(tasksFolder);
-    
-    // Only update state if component is still mounted
-    if (isMountedRef.current) {
-      setTasks(allTasks);
-      setProjects(["all", ...Array.from(projectSet).sort()]);
-      if (showLoading) setIsLoading(false);
-    }
-    
-    // Register tasks with plugin so canvas can use them for updates
-    plugin.setSidebarTasks(allTasks);
+  // Rebuild the index from scratch (manual refresh)
+  const rebuildIndex = useCallback(async () => {
+    setIsLoading(true);
+    await plugin.taskIndex.rebuild();
+    setIsLoading(false);
   }, [plugin]);
 
-  // Initial scan and register auto-refresh callback
-  useEffect(() => {
-    isMountedRef.current = true;
-    scanTasks();
-    
-    // Register auto-refresh callback
-    plugin.registerSidebarRefresh(() => {
-      console.log("[TasksMap Sidebar] Auto-refresh triggered");
-      scanTasks(false); // silent refresh (no loading indicator)
+  const projects = useMemo(() => {
+    const projectSet = new Set<string>();
+    tasks.forEach((task) => {
+      if (task.project && task.project !== "none") {
+        projectSet.add(task.project);
+      }
     });
-    
-    // Refresh canvas task IDs periodically
-    const interval = setInterval(() => {
-      setCanvasTaskIds(plugin.getCanvasTaskIds());
-    }, 1000);
+    return ["all", ...Array.from(projectSet).sort()];
+  }, [tasks]);
 
-    return () => {
-      isMountedRef.current = false;
-      clearInterval(interval);
-      plugin.unregisterSidebarRefresh();
-    };
-  }, [plugin, scanTasks]);
+  const filter = useMemo(() => parseFilterQuery(filterQuery).filter, [filterQuery]);
+  const completionSources = useMemo(() => getFilterCompletionSources(tasks), [tasks]);
+
+  const handleFilterQueryChange = useCallback((query: string) => {
+    setFilterQuery(query);
+    plugin.setFilterQuery(plugin.activeBoardId, query);
+  }, [plugin]);
 
   // Filter tasks
   const filteredTasks = useMemo(() => {
-    let filtered = tasks;
+    let filtered = tasks.filter((t) => matchesFilter(t, filter));
     
     if (selectedProject !== "all") {
-      filtered = filtered.filter((t) => (t as Task & { project?: string }).project === selectedProject);
+      filtered = filtered.filter((t) => t.project === selectedProject);
     }
     
     if (hideOnCanvas) {
@@ -186,7 +194,15 @@ function SidebarContent({ plugin }: SidebarContentProps) {
     }
     
     return filtered;
-  }, [tasks, selectedProject, hideOnCanvas, canvasTaskIds]);
+  }, [tasks, filter, selectedProject, hideOnCanvas, canvasTaskIds]);
+
+  // Unblocked tasks, recomputed whenever the index changes
+  const nextActions = useMemo(() => {
+    const actions = getNextActions(tasks).filter((t) => matchesFilter(t, filter));
+    return selectedProject === "all"
+      ? actions
+      : actions.filter((t) => t.project === selectedProject);
+  }, [tasks, filter, selectedProject]);
 
   const handleDragStart = (e: React.DragEvent, task: Task) => {
     e.dataTransfer.setData("application/tasks-map-task", JSON.stringify({
@@ -197,36 +213,17 @@ function SidebarContent({ plugin }: SidebarContentProps) {
 
   // Open task file in active leaf
   const handleOpenFile = useCallback(async (task: Task) => {
-    // Extract file path from task ID (format: "path:line") or from task.link
-    let filePath = "";
-    let lineNumber = 0;
-    
-    if (task.id.includes(":")) {
-      const parts = task.id.split(":");
-      lineNumber = parseInt(parts.pop() || "0", 10);
-      filePath = parts.join(":");
-    } else if (task.link) {
-      // task.link is a string (file path)
-      filePath = task.link;
-    }
-    
-    if (!filePath) return;
-    
-    const file = plugin.app.vault.getAbstractFileByPath(filePath);
-    if (file instanceof TFile) {
-      // Open in active leaf (current window)
-      const leaf = plugin.app.workspace.getLeaf(false);
-      await leaf.openFile(file, { 
-        eState: { line: lineNumber }
-      });
-    }
+    await plugin.openTaskInFile(task);
+  }, [plugin]);
+
+  const handleReveal = useCallback((task: Task) => {
+    plugin.revealTaskOnCanvas(task.id);
   }, [plugin]);
 
   // Clear canvas data
   const handleClearCanvas = useCallback(async () => {
     if (confirm("确定要清空画布数据吗？这将删除所有节点和连线。")) {
       await plugin.clearGraphData();
-      setCanvasTaskIds([]);
       new Notice("Canvas data cleared");
     }
   }, [plugin]);
@@ -238,7 +235,7 @@ function SidebarContent({ plugin }: SidebarContentProps) {
         <div className="tasks-map-sidebar-header-buttons">
           <button
             className="tasks-map-sidebar-refresh-button"
-            onClick={() => scanTasks(true)}
+            onClick={rebuildIndex}
             disabled={isLoading}
             title="Refresh tasks"
           >
@@ -254,7 +251,27 @@ function SidebarContent({ plugin }: SidebarContentProps) {
         </div>
       </div>
       
+      <div className="tasks-map-sidebar-tabs">
+        <button
+          className={`tasks-map-sidebar-tab ${tab === "tasks" ? "is-active" : ""}`}
+          onClick={() => setTab("tasks")}
+        >
+          All tasks
+        </button>
+        <button
+          className={`tasks-map-sidebar-tab ${tab === "next" ? "is-active" : ""}`}
+          onClick={() => setTab("next")}
+        >
+          Next actions ({nextActions.length})
+        </button>
+      </div>
+
       <div className="tasks-map-sidebar-filters">
+        <FilterQueryInput
+          query={filterQuery}
+          onQueryChange={handleFilterQueryChange}
+          sources={completionSources}
+        />
         <select
           value={selectedProject}
           onChange={(e) => setSelectedProject(e.target.value)}
@@ -267,18 +284,34 @@ function SidebarContent({ plugin }: SidebarContentProps) {
           ))}
         </select>
         
-        <label className="tasks-map-sidebar-checkbox">
-          <input
-            type="checkbox"
-            checked={hideOnCanvas}
-            onChange={(e) => setHideOnCanvas(e.target.checked)}
-          />
-          <span>Hide on canvas</span>
-        </label>
+        {tab === "tasks" && (
+          <label className="tasks-map-sidebar-checkbox">
+            <input
+              type="checkbox"
+              checked={hideOnCanvas}
+              onChange={(e) => setHideOnCanvas(e.target.checked)}
+            />
+            <span>Hide on canvas</span>
+          </label>
+        )}
       </div>
 
       <div className="tasks-map-sidebar-list">
-        {filteredTasks.length === 0 ? (
+        {tab === "next" ? (
+          nextActions.length === 0 ? (
+            <div className="tasks-map-sidebar-empty">Nothing is ready to work on</div>
+          ) : (
+            nextActions.map((task) => (
+              <NextActionCard
+                key={task.id}
+                task={task}
+                isOnCanvas={canvasTaskIds.includes(task.id)}
+                onOpenFile={handleOpenFile}
+                onReveal={handleReveal}
+              />
+            ))
+          )
+        ) : filteredTasks.length === 0 ? (
           <div className="tasks-map-sidebar-empty">No tasks found</div>
         ) : (
           filteredTasks.map((task) => (
@@ -0,0 +1,100 @@
+import {
+  copyGraphData,
+  createBoardId,
+  getUniqueBoardName,
+  migratePluginData,
+} from "../src/lib/boards";
+import {
+  Board,
+  DEFAULT_BOARD_ID,
+  DEFAULT_GRAPH_DATA,
+  DEFAULT_SETTINGS,
+  GraphData,
+} from "../src/types/settings";
+
+const graphData: GraphData = {
+  nodes: [{ id: "a", taskId: "a", position: { x: 10, y: 20 } }],
+  edges: [{ id: "a-b", source: "a", target: "b" }],
+  viewport: { x: 1, y: 2, zoom: 0.5 },
+  viewMode: "timeline",
+};
+
+function makeBoard(id: string, name: string): Board {
+  return { id, name, graphData: DEFAULT_GRAPH_DATA };
+}
+
+describe("Boards", () => {
+  describe("migratePluginData", () => {
+    it("creates a default board when nothing is stored", () => {
+      const data = migratePluginData(null);
+
+      expect(data.settings).toEqual(DEFAULT_SETTINGS);
+      expect(data.boards).toHaveLength(1);
+      expect(data.activeBoardId).toBe(DEFAULT_BOARD_ID);
+    });
+
+    it("reads the settings-only format", () => {
+      const data = migratePluginData({ showTags: false });
+
+      expect(data.settings.showTags).toBe(false);
+      expect(data.boards[0].graphData.nodes).toEqual([]);
+    });
+
+    it("moves the single canvas into the default board", () => {
+      const data = migratePluginData({
+        settings: { showTags: false },
+        graphData,
+      });
+
+      expect(data.settings.showTags).toBe(false);
+      expect(data.boards).toHaveLength(1);
+      expect(data.boards[0].id).toBe(DEFAULT_BOARD_ID);
+      expect(data.boards[0].graphData).toEqual(graphData);
+      expect(data.activeBoardId).toBe(DEFAULT_BOARD_ID);
+    });
+
+    it("keeps stored boards and falls back to the first active board", () => {
+      const stored = {
+        settings: {},
+        boards: [
+          { id: "work", name: "Work", graphData },
+          { id: "home", name: "Home", graphData: {} },
+        ],
+        activeBoardId: "deleted",
+      };
+      const data = migratePluginData(stored);
+
+      expect(data.boards.map((b) => b.id)).toEqual(["work", "home"]);
+      expect(data.boards[1].graphData.viewport).toEqual(
+        DEFAULT_GRAPH_DATA.viewport
+      );
+      expect(data.activeBoardId).toBe("work");
+      expect(
+        migratePluginData({ ...stored, activeBoardId: "home" }).activeBoardId
+      ).toBe("home");
+    });
+  });
+
+  describe("naming", () => {
+    const boards = [makeBoard("work", "Work"), makeBoard("work-2", "Work 2")];
+
+    it("derives unique IDs from the name", () => {
+      expect(createBoardId("Side Project!", boards)).toBe("side-project");
+      expect(createBoardId("Work", boards)).toBe("work-3");
+      expect(createBoardId("✨", boards)).toBe("board");
+    });
+
+    it("makes names unique", () => {
+      expect(getUniqueBoardName("Home", boards)).toBe("Home");
+      expect(getUniqueBoardName("Work", boards)).toBe("Work 3");
+    });
+  });
+
+  it("copies graph data deeply", () => {
+    const copy = copyGraphData(graphData);
+
+    expect(copy).toEqual(graphData);
+    copy.nodes[0].position.x = 99;
+    expect(graphData.nodes[0].position.x).toBe(10);
+  });
+});
@@ -0,0 +1,160 @@
+import { App } from "./mocks/obsidian";
+import { Task } from "../src/types/task";
+import { makeTask } from "./task-fixture";
+import {
+  applyBulkEditInVault,
+  applyBulkEditToContent,
+  describeBulkEdit,
+  getBulkEditTargets,
+} from "../src/lib/bulk-edit";
+import { setTaskPriorityInContent } from "../src/lib/utils";
+
+// A task whose line is `Task <id> 🆔 <id>`
+function taskWithId(id: string, overrides: Partial<Task> = {}): Task {
+  return makeTask({
+    id,
+    summary: `Task ${id}`,
+    text: `Task ${id} 🆔 ${id}`,
+    ...overrides,
+  });
+}
+
+describe("getBulkEditTargets", () => {
+  it("skips tasks the edit doesn't change", () => {
+    const tasks = [
+      taskWithId("aaaaaa", { tags: ["work"], starred: true }),
+      taskWithId("bbbbbb"),
+    ];
+    const ids = (edit: Parameters<typeof getBulkEditTargets>[1]) =>
+      getBulkEditTargets(tasks, edit).map((task) => task.id);
+
+    expect(ids({ type: "add-tag", tag: "work" })).toEqual(["bbbbbb"]);
+    expect(ids({ type: "remove-tag", tag: "work" })).toEqual(["aaaaaa"]);
+    expect(ids({ type: "star", starred: true })).toEqual(["bbbbbb"]);
+    expect(ids({ type: "status", status: "todo" })).toEqual([]);
+  });
+});
+
+describe("applyBulkEditToContent", () => {
+  const content = [
+    "# Tasks",
+    "- [ ] Task aaaaaa 🆔 aaaaaa",
+    "- [ ] Task bbbbbb 🆔 bbbbbb",
+    "- [ ] Task cccccc 🆔 cccccc",
+  ].join("\n");
+  const tasks = [taskWithId("aaaaaa"), taskWithId("cccccc")];
+
+  it("sets the status of every task", () => {
+    expect(
+      applyBulkEditToContent(content, tasks, { type: "status", status: "done" })
+    ).toBe(
+      [
+        "# Tasks",
+        "- [x] Task aaaaaa 🆔 aaaaaa",
+        "- [ ] Task bbbbbb 🆔 bbbbbb",
+        "- [x] Task cccccc 🆔 cccccc",
+      ].join("\n")
+    );
+  });
+
+  it("adds a tag to every task", () => {
+    const result = applyBulkEditToContent(content, tasks, {
+      type: "add-tag",
+      tag: "work",
+    });
+    expect(result).toContain("- [ ] Task aaaaaa 🆔 aaaaaa #work");
+    expect(result).toContain("- [ ] Task bbbbbb 🆔 bbbbbb\n");
+    expect(result).toContain("- [ ] Task cccccc 🆔 cccccc #work");
+  });
+
+  it("stars every task", () => {
+    const result = applyBulkEditToContent(content, tasks, {
+      type: "star",
+      starred: true,
+    });
+    expect(result.match(/⭐/g)).toHaveLength(2);
+  });
+});
+
+describe("setTaskPriorityInContent", () => {
+  const task = taskWithId("aaaaaa");
+
+  it("puts the priority before dates and the ID", () => {
+    expect(
+      setTaskPriorityInContent(
+        "- [ ] Task aaaaaa 📅 2024-05-01 🆔 aaaaaa",
+        task,
+        "⏫"
+      )
+    ).toBe("- [ ] Task aaaaaa ⏫ 📅 2024-05-01 🆔 aaaaaa");
+  });
+
+  it("replaces or removes the existing priority", () => {
+    expect(
+      setTaskPriorityInContent("- [ ] Task aaaaaa 🔼 🆔 aaaaaa", task, "🔽")
+    ).toBe("- [ ] Task aaaaaa 🔽 🆔 aaaaaa");
+    expect(
+      setTaskPriorityInContent("- [ ] Task aaaaaa 🔼 🆔 aaaaaa", task, "")
+    ).toBe("- [ ] Task aaaaaa 🆔 aaaaaa");
+  });
+
+  it("maps the priority of note tasks to their frontmatter", () => {
+    const note = taskWithId("Tasks/Note.md", {
+      type: "note",
+      text: "Note",
+      link: "Tasks/Note.md",
+    });
+    expect(
+      setTaskPriorityInContent(
+        "---\nstatus: open\npriority: Normal\n---\n# Note",
+        note,
+        "🔺"
+      )
+    ).toBe("---\nstatus: open\npriority: High\n---\n# Note");
+    expect(
+      setTaskPriorityInContent("---\nstatus: open\n---\n# Note", note, "⏬")
+    ).toBe("---\nstatus: open\npriority: low\n---\n# Note");
+  });
+});
+
+describe("applyBulkEditInVault", () => {
+  it("rewrites each file once", async () => {
+    const app = new App();
+    app.vault.setFileContent(
+      "Tasks.md",
+      "- [ ] Task aaaaaa 🆔 aaaaaa\n- [ ] Task bbbbbb 🆔 bbbbbb"
+    );
+    app.vault.setFileContent("Other.md", "- [ ] Task cccccc 🆔 cccccc");
+    const process = jest.spyOn(app.vault, "process");
+
+    const changed = await applyBulkEditInVault(
+      [
+        taskWithId("aaaaaa"),
+        taskWithId("bbbbbb"),
+        taskWithId("cccccc", { link: "Other.md" }),
+      ],
+      { type: "status", status: "in_progress" },
+      app as never
+    );
+
+    expect(changed).toBe(3);
+    expect(process).toHaveBeenCalledTimes(2);
+    expect(app.vault.getFileContent("Tasks.md")).toBe(
+      "- [/] Task aaaaaa 🆔 aaaaaa\n- [/] Task bbbbbb 🆔 bbbbbb"
+    );
+    expect(app.vault.getFileContent("Other.md")).toBe(
+      "- [/] Task cccccc 🆔 cccccc"
+    );
+  });
+});
+
+describe("describeBulkEdit", () => {
+  it("names the edit and the number of tasks", () => {
+    expect(describeBulkEdit({ type: "add-tag", tag: "work" }, 3)).toBe(
+      "Tag 3 tasks #work"
+    );
+    expect(describeBulkEdit({ type: "star", starred: false }, 1)).toBe(
+      "Unstar 1 task"
+    );
+  });
+});
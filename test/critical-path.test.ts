@@ -0,0 +1,109 @@
+import { Task } from "../src/types/task";
+import { makeTask } from "./task-fixture";
+import {
+  computeCriticalPath,
+  formatEstimate,
+  parseEstimate,
+} from "../src/lib/critical-path";
+import { TaskFactory } from "../src/lib/task-factory";
+import { createEdgesFromTasks, parseTaskNote } from "../src/lib/utils";
+
+describe("Critical Path", () => {
+  describe("parseEstimate", () => {
+    it("parses units into hours", () => {
+      expect(parseEstimate("3h")).toBe(3);
+      expect(parseEstimate("90m")).toBe(1.5);
+      expect(parseEstimate("2 days")).toBe(16);
+      expect(parseEstimate("1w")).toBe(40);
+      expect(parseEstimate("4")).toBe(4);
+      expect(parseEstimate(2.5)).toBe(2.5);
+    });
+
+    it("rejects invalid estimates", () => {
+      expect(parseEstimate("soon")).toBeUndefined();
+      expect(parseEstimate("3 parsecs")).toBeUndefined();
+      expect(parseEstimate(undefined)).toBeUndefined();
+    });
+
+    it("formats hours", () => {
+      expect(formatEstimate(3)).toBe("3h");
+      expect(formatEstimate(0.5)).toBe("30m");
+      expect(formatEstimate(0)).toBe("0h");
+    });
+  });
+
+  describe("estimate fields", () => {
+    it("parses the Dataview estimate field of line tasks", () => {
+      const task = new TaskFactory().parse({
+        status: " ",
+        text: "Write tests [estimate:: 3h] #dev",
+        link: { path: "Tasks.md" },
+      });
+
+      expect(task.estimate).toBe(3);
+      expect(task.summary).toBe("Write tests");
+    });
+
+    it("reads the estimate from note frontmatter", () => {
+      const task = parseTaskNote(
+        { path: "Notes/Task.md", basename: "Task" },
+        { frontmatter: { tags: ["task"], estimate: "2d" } },
+        { vault: {} }
+      );
+
+      expect(task?.estimate).toBe(16);
+    });
+  });
+
+  describe("computeCriticalPath", () => {
+    // a (2h) -> c (1h) -> d (1h)
+    // b (5h) -> c
+    // e (1h) -> d
+    const tasks = [
+      makeTask({ id: "a", estimate: 2 }),
+      makeTask({ id: "b", estimate: 5 }),
+      makeTask({ id: "c", estimate: 1, incomingLinks: ["a", "b"] }),
+      makeTask({ id: "e", estimate: 1 }),
+      makeTask({ id: "d", estimate: 1, incomingLinks: ["c", "e"] }),
+      makeTask({ id: "unrelated", estimate: 10 }),
+    ];
+    const edges = createEdgesFromTasks(tasks);
+
+    it("finds the longest chain to the target", () => {
+      const result = computeCriticalPath(tasks, edges, "d");
+
+      expect(result).not.toBeNull();
+      expect(result!.duration).toBe(7);
+      expect(Array.from(result!.criticalNodes).sort()).toEqual(["b", "c", "d"]);
+      expect(Array.from(result!.criticalEdges).sort()).toEqual(["b-c", "c-d"]);
+    });
+
+    it("computes slack for tasks off the critical path", () => {
+      const result = computeCriticalPath(tasks, edges, "d")!;
+
+      expect(result.slack.get("a")).toBe(3);
+      expect(result.slack.get("e")).toBe(5);
+      expect(result.slack.has("unrelated")).toBe(false);
+    });
+
+    it("treats finished tasks as taking no time", () => {
+      const withDone = tasks.map((task) =>
+        task.id === "b" ? { ...task, status: "done" as const } : task
+      );
+      const result = computeCriticalPath(withDone, edges, "d")!;
+
+      expect(result.duration).toBe(4);
+      expect(result.criticalNodes.has("a")).toBe(true);
+    });
+
+    it("returns null for cycles", () => {
+      const cyclic = [
+        makeTask({ id: "x", incomingLinks: ["y"] }),
+        makeTask({ id: "y", incomingLinks: ["x"] }),
+      ];
+      expect(
+        computeCriticalPath(cyclic, createEdgesFromTasks(cyclic), "x")
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  findBoardCycles,
+  findCycleForNewEdge,
+  findCycles,
+  getCycleEdgeIds,
+} from "../src/lib/cycles";
+
+const edge = (source: string, target: string) => ({ source, target });
+
+describe("Dependency Cycles", () => {
+  describe("findCycles", () => {
+    it("returns nothing for an acyclic graph", () => {
+      expect(
+        findCycles([edge("a", "b"), edge("b", "c"), edge("a", "c")])
+      ).toEqual([]);
+    });
+
+    it("reports each cycle as a closed path", () => {
+      const cycles = findCycles([
+        edge("a", "b"),
+        edge("b", "c"),
+        edge("c", "a"),
+        edge("c", "d"),
+      ]);
+
+      expect(cycles).toEqual([["a", "b", "c", "a"]]);
+    });
+
+    it("finds separate cycles and self-dependencies", () => {
+      const cycles = findCycles([
+        edge("a", "b"),
+        edge("b", "a"),
+        edge("x", "y"),
+        edge("y", "x"),
+        edge("s", "s"),
+      ]);
+
+      expect(cycles).toHaveLength(3);
+      expect(cycles).toContainEqual(["s", "s"]);
+      expect(cycles).toContainEqual(["x", "y", "x"]);
+    });
+  });
+
+  describe("findBoardCycles", () => {
+    it("doesn't combine the connections of different boards", () => {
+      expect(
+        findBoardCycles(
+          [],
+          [
+            { name: "One", edges: [edge("a", "b")] },
+            { name: "Two", edges: [edge("b", "a")] },
+          ]
+        )
+      ).toEqual([]);
+    });
+
+    it("names the board whose connections close a cycle", () => {
+      expect(
+        findBoardCycles(
+          [edge("a", "b")],
+          [
+            { name: "One", edges: [edge("b", "a")] },
+            { name: "Two", edges: [] },
+          ]
+        )
+      ).toEqual([{ board: "One", cycle: ["a", "b", "a"] }]);
+    });
+
+    it("reports cycles of the task files once", () => {
+      expect(
+        findBoardCycles(
+          [edge("a", "b"), edge("b", "a")],
+          [
+            { name: "One", edges: [] },
+            { name: "Two", edges: [edge("a", "b")] },
+          ]
+        )
+      ).toEqual([{ cycle: ["a", "b", "a"] }]);
+    });
+  });
+
+  describe("getCycleEdgeIds", () => {
+    it("flags only the edges inside a cycle", () => {
+      const ids = getCycleEdgeIds([
+        edge("start", "a"),
+        edge("a", "b"),
+        edge("b", "a"),
+        edge("b", "end"),
+      ]);
+
+      expect(Array.from(ids).sort()).toEqual(["a-b", "b-a"]);
+    });
+  });
+
+  describe("findCycleForNewEdge", () => {
+    const edges = [edge("a", "b"), edge("b", "c")];
+
+    it("detects a connection that closes a cycle", () => {
+      expect(findCycleForNewEdge(edges, "c", "a")).toEqual([
+        "c",
+        "a",
+        "b",
+        "c",
+      ]);
+      expect(findCycleForNewEdge(edges, "a", "a")).toEqual(["a", "a"]);
+    });
+
+    it("allows connections that keep the graph acyclic", () => {
+      expect(findCycleForNewEdge(edges, "a", "c")).toBeNull();
+      expect(findCycleForNewEdge(edges, "c", "d")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { makeTask } from "./task-fixture";
+import {
+  getEdgeSyncFlag,
+  getMarkdownEdges,
+  reconcileEdges,
+  resolveEdgePersistence,
+  storesEdgesOnCanvas,
+  writesEdgesToMarkdown,
+} from "../src/lib/edge-persistence";
+
+describe("Edge Persistence", () => {
+  describe("resolveEdgePersistence", () => {
+    it("uses the global setting without a canvas override", () => {
+      expect(resolveEdgePersistence({ edgePersistence: "both" }, {})).toBe(
+        "both"
+      );
+    });
+
+    it("prefers the canvas override", () => {
+      expect(
+        resolveEdgePersistence(
+          { edgePersistence: "canvas" },
+          { edgePersistence: "markdown" }
+        )
+      ).toBe("markdown");
+    });
+
+    it("knows where each mode stores edges", () => {
+      expect(writesEdgesToMarkdown("canvas")).toBe(false);
+      expect(writesEdgesToMarkdown("both")).toBe(true);
+      expect(storesEdgesOnCanvas("markdown")).toBe(false);
+      expect(storesEdgesOnCanvas("both")).toBe(true);
+    });
+  });
+
+  describe("getMarkdownEdges", () => {
+    it("only returns dependencies between tasks on the canvas", () => {
+      const tasks = [
+        makeTask({ id: "a" }),
+        makeTask({ id: "b", incomingLinks: ["a", "offcanvas"] }),
+        makeTask({ id: "c", incomingLinks: ["b"] }),
+      ];
+
+      expect(getMarkdownEdges(tasks, new Set(["a", "b"]))).toEqual([
+        { source: "a", target: "b" },
+      ]);
+    });
+  });
+
+  describe("reconcileEdges", () => {
+    it("splits edges found in only one place", () => {
+      const result = reconcileEdges(
+        [
+          { source: "a", target: "b" },
+          { source: "b", target: "c" },
+        ],
+        [
+          { source: "a", target: "b" },
+          { source: "c", target: "d" },
+        ]
+      );
+
+      expect(result.canvasOnly).toEqual([{ source: "b", target: "c" }]);
+      expect(result.markdownOnly).toEqual([{ source: "c", target: "d" }]);
+    });
+
+    it("treats edge direction as significant", () => {
+      const result = reconcileEdges(
+        [{ source: "a", target: "b" }],
+        [{ source: "b", target: "a" }]
+      );
+
+      expect(result.canvasOnly).toHaveLength(1);
+      expect(result.markdownOnly).toHaveLength(1);
+    });
+  });
+
+  describe("getEdgeSyncFlag", () => {
+    it("does not flag mismatches expected by the mode", () => {
+      expect(getEdgeSyncFlag("canvas-only", "canvas")).toBeUndefined();
+      expect(getEdgeSyncFlag("markdown-only", "markdown")).toBeUndefined();
+    });
+
+    it("flags mismatches in the other cases", () => {
+      expect(getEdgeSyncFlag("canvas-only", "both")).toBe("canvas-only");
+      expect(getEdgeSyncFlag("canvas-only", "markdown")).toBe("canvas-only");
+      expect(getEdgeSyncFlag("markdown-only", "canvas")).toBe("markdown-only");
+    });
+  });
+});
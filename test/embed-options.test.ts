@@ -0,0 +1,96 @@
+import { makeTask } from "./task-fixture";
+import {
+  DEFAULT_EMBED_HEIGHT,
+  parseEmbedOptions,
+  selectEmbedTasks,
+} from "../src/lib/embed-options";
+
+describe("parseEmbedOptions", () => {
+  it("uses the defaults for an empty block", () => {
+    expect(parseEmbedOptions("", "Vertical")).toEqual({
+      options: {
+        tags: [],
+        direction: "Vertical",
+        height: DEFAULT_EMBED_HEIGHT,
+        showCompleted: true,
+        interactive: true,
+      },
+      errors: [],
+    });
+  });
+
+  it("reads all options", () => {
+    const { options, errors } = parseEmbedOptions(
+      [
+        "folder: /Projects/Alpha/",
+        "tag: #alpha, #beta",
+        'project: "Alpha"',
+        "direction: TB",
+        "height: 300px",
+        "completed: hide",
+        "mode: readonly",
+      ].join("\n")
+    );
+
+    expect(errors).toEqual([]);
+    expect(options).toEqual({
+      folder: "Projects/Alpha",
+      tags: ["alpha", "beta"],
+      project: "Alpha",
+      direction: "Vertical",
+      height: 300,
+      showCompleted: false,
+      interactive: false,
+    });
+  });
+
+  it("reports invalid lines and keeps the defaults", () => {
+    const { options, errors } = parseEmbedOptions(
+      "height: tall\ndirection: diagonal\ncolor: red\nnot an option"
+    );
+
+    expect(options.height).toBe(DEFAULT_EMBED_HEIGHT);
+    expect(options.direction).toBe("Horizontal");
+    expect(errors).toHaveLength(4);
+    expect(errors[2]).toBe('Unknown option "color"');
+  });
+});
+
+describe("selectEmbedTasks", () => {
+  const tasks = [
+    makeTask({
+      id: "a",
+      link: "Projects/Alpha/Plan.md",
+      tags: ["alpha"],
+      project: "Alpha",
+    }),
+    makeTask({
+      id: "b",
+      link: "Projects/Alpha/Plan.md",
+      tags: ["alpha/design"],
+      status: "done",
+      project: "Alpha",
+    }),
+    makeTask({ id: "c", link: "Projects/Alphabet.md", tags: ["beta"] }),
+    makeTask({ id: "d", link: "Inbox.md", status: "canceled" }),
+  ];
+  const select = (source: string) =>
+    selectEmbedTasks(tasks, parseEmbedOptions(source).options).map(
+      (task) => task.id
+    );
+
+  it("selects all tasks without a query", () => {
+    expect(select("")).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("filters by folder, tag and project", () => {
+    expect(select("folder: Projects/Alpha")).toEqual(["a", "b"]);
+    expect(select("tag: alpha")).toEqual(["a", "b"]);
+    expect(select("tag: #beta")).toEqual(["c"]);
+    expect(select("project: alpha")).toEqual(["a", "b"]);
+  });
+
+  it("hides done and canceled tasks", () => {
+    expect(select("completed: false")).toEqual(["a", "c"]);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  findFilterPreset,
+  getActiveFilter,
+  getFilterPresetCommandId,
+  removeFilterPreset,
+  upsertFilterPreset,
+} from "../src/lib/filter-presets";
+import { DEFAULT_GRAPH_DATA, FilterPreset } from "../src/types/settings";
+
+const presets: FilterPreset[] = [
+  { name: "My open work", query: "tag:#work status:todo,in_progress" },
+  { name: "Blocked", query: "-starred" },
+];
+
+describe("Filter presets", () => {
+  it("finds presets by name, ignoring case", () => {
+    expect(findFilterPreset(presets, "my open work")).toBe(presets[0]);
+    expect(findFilterPreset(presets, "Other")).toBeUndefined();
+    expect(findFilterPreset(undefined, "Blocked")).toBeUndefined();
+  });
+
+  it("adds new presets and replaces existing ones in place", () => {
+    expect(upsertFilterPreset(undefined, presets[1])).toEqual([presets[1]]);
+
+    const updated = upsertFilterPreset(presets, {
+      name: "my open work",
+      query: "status:todo",
+    });
+    expect(updated).toEqual([
+      { name: "my open work", query: "status:todo" },
+      presets[1],
+    ]);
+  });
+
+  it("removes presets by name", () => {
+    expect(removeFilterPreset(presets, "BLOCKED")).toEqual([presets[0]]);
+    expect(removeFilterPreset(undefined, "Blocked")).toEqual([]);
+  });
+
+  describe("getActiveFilter", () => {
+    it("applies the current query of the active preset", () => {
+      expect(
+        getActiveFilter({
+          ...DEFAULT_GRAPH_DATA,
+          filterPresets: presets,
+          filters: { query: "tag:#old", preset: "Blocked" },
+        })
+      ).toEqual({ query: "-starred", preset: "Blocked" });
+    });
+
+    it("falls back to the saved query", () => {
+      expect(
+        getActiveFilter({
+          ...DEFAULT_GRAPH_DATA,
+          filterPresets: presets,
+          filters: { query: "due<7d", preset: "Deleted" },
+        })
+      ).toEqual({ query: "due<7d" });
+      expect(getActiveFilter(DEFAULT_GRAPH_DATA)).toEqual({ query: "" });
+    });
+  });
+
+  it("derives stable command IDs from preset names", () => {
+    expect(getFilterPresetCommandId("My open work")).toBe(
+      "filter-preset-my-open-work"
+    );
+    expect(getFilterPresetCommandId(" my OPEN work! ")).toBe(
+      "filter-preset-my-open-work"
+    );
+    expect(getFilterPresetCommandId("工作")).toBe("filter-preset-工作");
+    expect(getFilterPresetCommandId("!!!")).toBe("filter-preset-unnamed");
+  });
+});
@@ -0,0 +1,307 @@
+import { Task } from "../src/types/task";
+import { makeTask } from "./task-fixture";
+import {
+  getFilterCompletions,
+  getFilterCompletionSources,
+  getFilterTermValues,
+  getSavedFilterQuery,
+  isEmptyFilter,
+  matchesFilter,
+  parseFilterQuery,
+  resolveFilterDate,
+  setFilterTermValues,
+  tokenizeFilterQuery,
+} from "../src/lib/filter-query";
+
+const TODAY = "2024-03-10";
+
+function matches(task: Task, query: string): boolean {
+  const { filter, errors } = parseFilterQuery(query);
+  expect(errors).toEqual([]);
+  return matchesFilter(task, filter, TODAY);
+}
+
+describe("tokenizeFilterQuery", () => {
+  it("splits on spaces and keeps quoted values together", () => {
+    expect(
+      tokenizeFilterQuery('tag:#work  path:"My Projects/" -starred').map(
+        (token) => token.text
+      )
+    ).toEqual(["tag:#work", 'path:"My Projects/"', "-starred"]);
+  });
+
+  it("reports token offsets", () => {
+    expect(tokenizeFilterQuery(" a bc")).toEqual([
+      { text: "a", from: 1, to: 2 },
+      { text: "bc", from: 3, to: 5 },
+    ]);
+  });
+});
+
+describe("resolveFilterDate", () => {
+  it("resolves keywords, relative and absolute dates", () => {
+    expect(resolveFilterDate("today", TODAY)).toBe("2024-03-10");
+    expect(resolveFilterDate("tomorrow", TODAY)).toBe("2024-03-11");
+    expect(resolveFilterDate("yesterday", TODAY)).toBe("2024-03-09");
+    expect(resolveFilterDate("7d", TODAY)).toBe("2024-03-17");
+    expect(resolveFilterDate("-2w", TODAY)).toBe("2024-02-25");
+    expect(resolveFilterDate("1m", TODAY)).toBe("2024-04-10");
+    expect(resolveFilterDate("1y", TODAY)).toBe("2025-03-10");
+    expect(resolveFilterDate("2024-12-24", TODAY)).toBe("2024-12-24");
+  });
+
+  it("rejects unknown values", () => {
+    expect(resolveFilterDate("soon", TODAY)).toBeUndefined();
+    expect(resolveFilterDate("7x", TODAY)).toBeUndefined();
+  });
+});
+
+describe("parseFilterQuery", () => {
+  it("parses fields, operators and negation", () => {
+    const { filter, errors } = parseFilterQuery(
+      "tag:#Work status:todo,in-progress due<7d path:/Projects/ -starred"
+    );
+    expect(errors).toEqual([]);
+    expect(filter.terms).toEqual([
+      { field: "tag", operator: ":", values: ["work"], negated: false },
+      {
+        field: "status",
+        operator: ":",
+        values: ["todo", "in_progress"],
+        negated: false,
+      },
+      { field: "due", operator: "<", values: ["7d"], negated: false },
+      { field: "path", operator: ":", values: ["Projects/"], negated: false },
+      { field: "starred", operator: ":", values: [], negated: true },
+    ]);
+  });
+
+  it("treats other words as text", () => {
+    expect(parseFilterQuery('report "Q1 plan"').filter.terms).toEqual([
+      { field: "text", operator: ":", values: ["report"], negated: false },
+      { field: "text", operator: ":", values: ["q1 plan"], negated: false },
+    ]);
+  });
+
+  it("reports invalid terms with their position and skips them", () => {
+    const { filter, errors } = parseFilterQuery(
+      "colour:red status:later tag: due<soon priority:high"
+    );
+    expect(errors.map((error) => error.message)).toEqual([
+      'Unknown filter "colour"',
+      'Unknown status "later"',
+      "Missing value for tag",
+      'Invalid date "soon"',
+    ]);
+    expect(errors[0]).toMatchObject({ from: 0, to: 10 });
+    expect(filter.terms.map((term) => term.field)).toEqual(["priority"]);
+  });
+
+  it("rejects comparisons of fields without an order", () => {
+    expect(parseFilterQuery("tag>work").errors[0].message).toBe(
+      "tag can't be compared with >"
+    );
+    expect(parseFilterQuery("due<today,7d").errors[0].message).toBe(
+      "Compare due with a single value"
+    );
+    expect(parseFilterQuery("due<none").errors[0].message).toBe(
+      "Compare due with a date"
+    );
+  });
+
+  it("returns an empty filter for an empty query", () => {
+    expect(isEmptyFilter(parseFilterQuery("   ").filter)).toBe(true);
+  });
+});
+
+describe("matchesFilter", () => {
+  it("matches everything with an empty filter", () => {
+    expect(matchesFilter(makeTask({}), { terms: [] }, TODAY)).toBe(true);
+  });
+
+  it("matches tags, nested tags and untagged tasks", () => {
+    const task = makeTask({ tags: ["work/client"] });
+    expect(matches(task, "tag:#work")).toBe(true);
+    expect(matches(task, "tag:home,work/client")).toBe(true);
+    expect(matches(task, "tag:wor")).toBe(false);
+    expect(matches(makeTask({}), "tag:none")).toBe(true);
+    expect(matches(task, "-tag:none")).toBe(true);
+  });
+
+  it("matches statuses, paths, projects and text", () => {
+    const task = makeTask({
+      status: "in_progress",
+      link: "Projects/Alpha/Plan.md",
+      project: "Alpha",
+      summary: "Write the quarterly report",
+    });
+    expect(matches(task, "status:todo,in_progress")).toBe(true);
+    expect(matches(task, "-status:done")).toBe(true);
+    expect(matches(task, "path:projects/")).toBe(true);
+    expect(matches(task, "path:Areas/")).toBe(false);
+    expect(matches(task, "project:alpha")).toBe(true);
+    expect(matches(task, "quarterly report")).toBe(true);
+    expect(matches(task, "-report")).toBe(false);
+  });
+
+  it("compares priorities by rank", () => {
+    const high = makeTask({ priority: "⏫" });
+    expect(matches(high, "priority:high")).toBe(true);
+    expect(matches(high, "priority>=medium")).toBe(true);
+    expect(matches(high, "priority>high")).toBe(false);
+    expect(matches(makeTask({}), "priority:normal")).toBe(true);
+  });
+
+  it("compares dates relative to today", () => {
+    const task = makeTask({ dueDate: "2024-03-14" });
+    expect(matches(task, "due<7d")).toBe(true);
+    expect(matches(task, "due<3d")).toBe(false);
+    expect(matches(task, "due>=2024-03-14")).toBe(true);
+    expect(matches(task, "due:any")).toBe(true);
+    expect(matches(task, "due:overdue")).toBe(false);
+    expect(matches(makeTask({ dueDate: "2024-03-01" }), "due:overdue")).toBe(
+      true
+    );
+    expect(matches(makeTask({}), "due:none")).toBe(true);
+    expect(matches(makeTask({}), "due<7d")).toBe(false);
+    expect(matches(makeTask({ scheduledDate: TODAY }), "scheduled:today")).toBe(
+      true
+    );
+  });
+
+  it("matches starred tasks", () => {
+    expect(matches(makeTask({ starred: true }), "starred")).toBe(true);
+    expect(matches(makeTask({ starred: true }), "-starred")).toBe(false);
+  });
+
+  it("requires all terms to match", () => {
+    const task = makeTask({ tags: ["work"], status: "done" });
+    expect(matches(task, "tag:work status:todo")).toBe(false);
+    expect(matches(task, "tag:work status:done")).toBe(true);
+  });
+});
+
+describe("filter terms", () => {
+  it("reads the values of the first plain term of a field", () => {
+    const query = "-tag:#home tag:#Work,none status:todo";
+    expect(getFilterTermValues(query, "tag")).toEqual(["work", "none"]);
+    expect(getFilterTermValues(query, "status")).toEqual(["todo"]);
+    expect(getFilterTermValues(query, "path")).toEqual([]);
+  });
+
+  it("replaces the values in place", () => {
+    expect(
+      setFilterTermValues("due<7d status:todo -starred", "status", [
+        "todo",
+        "done",
+      ])
+    ).toBe("due<7d status:todo,done -starred");
+  });
+
+  it("appends a missing term", () => {
+    expect(setFilterTermValues("due<7d ", "tag", ["#work"])).toBe(
+      "due<7d tag:#work"
+    );
+    expect(setFilterTermValues("", "tag", ["#work"])).toBe("tag:#work");
+  });
+
+  it("removes the term without values", () => {
+    expect(setFilterTermValues("due<7d tag:#work -starred", "tag", [])).toBe(
+      "due<7d -starred"
+    );
+    expect(setFilterTermValues("tag:#work", "tag", [])).toBe("");
+    expect(setFilterTermValues("due<7d", "tag", [])).toBe("due<7d");
+  });
+});
+
+describe("getSavedFilterQuery", () => {
+  it("returns the saved query", () => {
+    expect(getSavedFilterQuery({ query: "tag:#work" })).toBe("tag:#work");
+    expect(getSavedFilterQuery(undefined)).toBe("");
+  });
+
+  it("converts tag and status selections", () => {
+    expect(
+      getSavedFilterQuery({
+        tags: ["work", "__NO_TAGS__"],
+        statuses: ["todo", "in_progress"],
+      })
+    ).toBe("tag:#work,none status:todo,in_progress");
+    expect(
+      getSavedFilterQuery({
+        tags: [],
+        statuses: ["todo", "in_progress", "done", "canceled"],
+      })
+    ).toBe("");
+  });
+});
+
+describe("getFilterCompletions", () => {
+  const sources = getFilterCompletionSources([
+    makeTask({ tags: ["work"], link: "Projects/Alpha/Plan.md" }),
+    makeTask({ tags: ["home"], link: "Inbox.md", project: "Alpha" }),
+  ]);
+
+  it("collects tags, folders and projects", () => {
+    expect(sources).toEqual({
+      tags: ["home", "work"],
+      paths: ["Projects/", "Projects/Alpha/"],
+      projects: ["Alpha"],
+    });
+  });
+
+  it("completes field names", () => {
+    const completion = getFilterCompletions("-st", 3, sources);
+    expect(completion?.from).toBe(1);
+    expect(completion?.options.map((option) => option.value)).toEqual([
+      "status:",
+      "start:",
+      "starred",
+    ]);
+  });
+
+  it("completes values after the last comma", () => {
+    const query = "status:todo,in";
+    expect(getFilterCompletions(query, query.length, sources)).toEqual({
+      from: 12,
+      to: query.length,
+      options: [{ value: "in_progress" }],
+    });
+    expect(
+      getFilterCompletions("tag:w", 5, sources)?.options.map((o) => o.value)
+    ).toEqual(["#work"]);
+    expect(
+      getFilterCompletions("path:Pro", 8, sources)?.options.map((o) => o.value)
+    ).toEqual(["Projects/", "Projects/Alpha/"]);
+  });
+
+  it("completes quoted values the parser reads back", () => {
+    const quotedSources = { ...sources, paths: ["Area, Work/", "Inbox/"] };
+    const query = 'path:Inbox/,"Area';
+    const completion = getFilterCompletions(query, query.length, quotedSources);
+    expect(completion?.options).toEqual([{ value: '"Area, Work/"' }]);
+
+    const completed =
+      query.slice(0, completion?.from) + completion?.options[0].value;
+    const { filter, errors } = parseFilterQuery(completed);
+    expect(errors).toEqual([]);
+    expect(filter.terms[0].values).toHaveLength(2);
+    expect(matches(makeTask({ link: "Area, Work/Plan.md" }), completed)).toBe(
+      true
+    );
+  });
+
+  it("completes the term at the cursor", () => {
+    expect(getFilterCompletions("tag:h due:", 5, sources)).toEqual({
+      from: 4,
+      to: 5,
+      options: [{ value: "#home" }],
+    });
+  });
+
+  it("offers nothing for complete or free text terms", () => {
+    expect(getFilterCompletions("status:done", 11, sources)).toBeNull();
+    expect(getFilterCompletions("text:abc", 8, sources)).toBeNull();
+    expect(getFilterCompletions("zzz", 3, sources)).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { makeTask } from "./task-fixture";
+import {
+  escapeDotString,
+  escapeMermaidLabel,
+  toDot,
+  toExportedGraph,
+  toJson,
+  toMermaid,
+} from "../src/lib/graph-export";
+
+const tasks = [
+  makeTask({ id: "abc123", summary: "Design API", priority: "⏫" }),
+  makeTask({
+    id: "Notes/Write docs.md",
+    type: "note",
+    summary: 'Write "docs" <v2> #1',
+    status: "done",
+    link: "Notes/Write docs.md",
+  }),
+];
+const edges = [
+  { source: "abc123", target: "Notes/Write docs.md" },
+  { source: "abc123", target: "Notes/Write docs.md" },
+  { source: "abc123", target: "hidden" },
+];
+
+describe("Graph Export", () => {
+  describe("escaping", () => {
+    it("escapes Mermaid labels with entity codes", () => {
+      expect(escapeMermaidLabel('Say "hi" <b> #1')).toBe(
+        "Say #quot;hi#quot; #lt;b#gt; #35;1"
+      );
+    });
+
+    it("escapes DOT strings", () => {
+      expect(escapeDotString('a "b" \\ c')).toBe('a \\"b\\" \\\\ c');
+    });
+  });
+
+  describe("toMermaid", () => {
+    const mermaid = toMermaid(tasks, edges);
+
+    it("writes a flowchart with short node IDs", () => {
+      expect(mermaid.startsWith("flowchart LR\n")).toBe(true);
+      expect(mermaid).toContain('  t0["Design API"]');
+      expect(mermaid).toContain(
+        '  t1["Write #quot;docs#quot; #lt;v2#gt; #35;1"]'
+      );
+    });
+
+    it("only links exported tasks, once", () => {
+      expect(mermaid.match(/-->/g)).toHaveLength(1);
+      expect(mermaid).toContain("  t0 --> t1");
+    });
+
+    it("styles status and priority", () => {
+      expect(mermaid).toContain("  class t0 todo");
+      expect(mermaid).toContain("  class t1 done");
+      expect(mermaid).toContain("  class t0 priority_high");
+      expect(mermaid).toMatch(/classDef priority_high stroke:#\w+/);
+      expect(mermaid).not.toContain("classDef canceled");
+    });
+
+    it("follows the layout direction", () => {
+      expect(toMermaid(tasks, edges, "Vertical")).toMatch(/^flowchart TB/);
+    });
+  });
+
+  describe("toDot", () => {
+    it("writes a digraph with quoted IDs and styled nodes", () => {
+      const dot = toDot(tasks, edges);
+
+      expect(dot).toMatch(/^digraph tasks \{\n {2}rankdir=LR;/);
+      expect(dot).toContain('"abc123" -> "Notes/Write docs.md";');
+      expect(dot).toContain('label="Write \\"docs\\" <v2> #1"');
+      expect(dot).toContain('"abc123" [label="Design API", fillcolor=');
+      expect(dot.trim().endsWith("}")).toBe(true);
+    });
+  });
+
+  describe("toJson", () => {
+    it("follows the documented format", () => {
+      const graph = toExportedGraph(
+        [{ ...tasks[0], line: 4, dueDate: "2024-05-01" }, tasks[1]],
+        edges
+      );
+
+      expect(graph).toEqual({
+        version: 1,
+        direction: "LR",
+        nodes: [
+          {
+            id: "abc123",
+            summary: "Design API",
+            status: "todo",
+            priority: "⏫",
+            tags: [],
+            file: "Tasks.md",
+            line: 4,
+            due: "2024-05-01",
+          },
+          {
+            id: "Notes/Write docs.md",
+            summary: 'Write "docs" <v2> #1',
+            status: "done",
+            priority: "",
+            tags: [],
+            file: "Notes/Write docs.md",
+          },
+        ],
+        edges: [{ source: "abc123", target: "Notes/Write docs.md" }],
+      });
+      expect(JSON.parse(toJson(tasks, edges))).toEqual(
+        toExportedGraph(tasks, edges)
+      );
+    });
+  });
+});
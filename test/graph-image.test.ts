@@ -0,0 +1,119 @@
+import { Task } from "../src/types/task";
+import {
+  DEFAULT_IMAGE_THEME,
+  escapeXml,
+  getGraphBounds,
+  ImageNode,
+  renderGraphSvg,
+  wrapText,
+} from "../src/lib/graph-image";
+
+function makeNode(
+  overrides: Partial<Task>,
+  position: { x: number; y: number }
+): ImageNode {
+  return {
+    task: {
+      id: "",
+      type: "dataview",
+      summary: "",
+      text: "",
+      tags: [],
+      status: "todo",
+      priority: "",
+      link: "Tasks.md",
+      incomingLinks: [],
+      starred: false,
+      ...overrides,
+    },
+    position,
+    width: 250,
+    height: 120,
+  };
+}
+
+const nodes = [
+  makeNode(
+    { id: "a", summary: "Design <API>", priority: "⏫" },
+    { x: 0, y: 0 }
+  ),
+  makeNode(
+    { id: "b", summary: "Ship", status: "done", tags: ["#release"] },
+    { x: 400, y: 200 }
+  ),
+];
+
+describe("escapeXml", () => {
+  it("escapes markup characters", () => {
+    expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; &apos;Jerry&apos;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("wrapText", () => {
+  it("wraps words into lines", () => {
+    expect(wrapText("Write the release notes", 10, 3)).toEqual([
+      "Write the",
+      "release",
+      "notes",
+    ]);
+  });
+
+  it("breaks long words and ends cut text with an ellipsis", () => {
+    expect(wrapText("abcdefghijkl mnop qrstuvwxyz", 5, 3)).toEqual([
+      "abcde",
+      "fghij",
+      "kl…",
+    ]);
+  });
+});
+
+describe("getGraphBounds", () => {
+  it("covers all nodes plus the padding", () => {
+    expect(getGraphBounds(nodes, 10)).toEqual({
+      x: -10,
+      y: -10,
+      width: 670,
+      height: 340,
+    });
+  });
+});
+
+describe("renderGraphSvg", () => {
+  it("renders nodes and edges at the given scale", () => {
+    const { svg, width, height } = renderGraphSvg(
+      { nodes, edges: [{ source: "a", target: "b" }] },
+      DEFAULT_IMAGE_THEME,
+      { scale: 2, direction: "Horizontal", padding: 10 }
+    );
+
+    expect(width).toBe(1340);
+    expect(height).toBe(680);
+    expect(svg).toContain('viewBox="-10 -10 670 340"');
+    expect(svg).toContain("⏫ Design &lt;API&gt;");
+    expect(svg).toContain("#release");
+    // From the right side of a to the left side of b
+    expect(svg).toContain('d="M250,60 C325,60 325,260 400,260"');
+    expect(svg).toContain(
+      `fill="${DEFAULT_IMAGE_THEME.statuses.done.fill}" stroke="${DEFAULT_IMAGE_THEME.statuses.done.stroke}"`
+    );
+  });
+
+  it("connects bottom to top in vertical layouts and skips dangling edges", () => {
+    const { svg } = renderGraphSvg(
+      {
+        nodes,
+        edges: [
+          { source: "a", target: "b" },
+          { source: "a", target: "missing" },
+        ],
+      },
+      DEFAULT_IMAGE_THEME,
+      { scale: 1, direction: "Vertical" }
+    );
+
+    expect(svg).toContain('d="M125,120 C125,160 525,160 525,200"');
+    expect(svg.match(/marker-end/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,108 @@
+import { Edge, Node } from "reactflow";
+import {
+  alignSelection,
+  distributeSelection,
+  getLayoutedSelection,
+} from "../src/lib/utils";
+
+function makeNode(id: string, x: number, y: number): Node {
+  return { id, data: {}, position: { x, y } };
+}
+
+const edges: Edge[] = [
+  { id: "a-b", source: "a", target: "b" },
+  { id: "b-c", source: "b", target: "c" },
+];
+
+describe("getLayoutedSelection", () => {
+  it("lays out the selected nodes from the corner of the selection", () => {
+    const nodes = [
+      makeNode("a", 500, 300),
+      makeNode("b", 100, 900),
+      makeNode("c", 1000, 1000),
+    ];
+    const layouted = getLayoutedSelection(
+      nodes,
+      edges,
+      new Set(["a", "b"]),
+      "Horizontal"
+    );
+
+    const [a, b, c] = layouted.map((node) => node.position);
+    expect(Math.min(a.x, b.x)).toBe(100);
+    expect(Math.min(a.y, b.y)).toBe(300);
+    // a comes before b from left to right, on the same rank line
+    expect(b.x).toBeGreaterThan(a.x);
+    expect(b.y).toBe(a.y);
+    expect(c).toEqual({ x: 1000, y: 1000 });
+  });
+
+  it("follows the layout direction", () => {
+    const nodes = [makeNode("a", 0, 0), makeNode("b", 0, 0)];
+    const [a, b] = getLayoutedSelection(
+      nodes,
+      edges,
+      new Set(["a", "b"]),
+      "Vertical"
+    ).map((node) => node.position);
+
+    expect(b.y).toBeGreaterThan(a.y);
+    expect(b.x).toBe(a.x);
+  });
+
+  it("leaves the nodes alone without a selection", () => {
+    const nodes = [makeNode("a", 1, 2)];
+    expect(getLayoutedSelection(nodes, edges, new Set())).toBe(nodes);
+  });
+});
+
+describe("alignSelection", () => {
+  const nodes = [
+    makeNode("a", 0, 0),
+    makeNode("b", 100, 50),
+    makeNode("c", 400, 300),
+  ];
+  const selected = new Set(["a", "b"]);
+
+  it("aligns the selected nodes on an edge of the selection", () => {
+    const [a, b, c] = alignSelection(nodes, selected, "right").map(
+      (node) => node.position
+    );
+    // Both right edges at the right edge of b (NODEWIDTH 250)
+    expect(a).toEqual({ x: 100, y: 0 });
+    expect(b).toEqual({ x: 100, y: 50 });
+    expect(c).toEqual({ x: 400, y: 300 });
+  });
+
+  it("centers the selected nodes", () => {
+    const [a, b] = alignSelection(nodes, selected, "middle").map(
+      (node) => node.position
+    );
+    expect(a.y).toBe(25);
+    expect(b.y).toBe(25);
+    expect(a.x).toBe(0);
+  });
+});
+
+describe("distributeSelection", () => {
+  it("spaces the nodes evenly between the outer ones", () => {
+    const nodes = [
+      makeNode("a", 0, 0),
+      makeNode("c", 1000, 0),
+      makeNode("b", 200, 0),
+    ];
+    const positions = distributeSelection(
+      nodes,
+      new Set(["a", "b", "c"]),
+      "horizontal"
+    ).map((node) => node.position.x);
+    expect(positions).toEqual([0, 1000, 500]);
+  });
+
+  it("needs at least three nodes", () => {
+    const nodes = [makeNode("a", 0, 0), makeNode("b", 0, 700)];
+    expect(distributeSelection(nodes, new Set(["a", "b"]), "vertical")).toBe(
+      nodes
+    );
+  });
+});
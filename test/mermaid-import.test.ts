@@ -0,0 +1,204 @@
+import { Task } from "../src/types/task";
+import { toMermaid } from "../src/lib/graph-export";
+import {
+  decodeMermaidLabel,
+  extractMermaidBlocks,
+  formatImportedTaskLine,
+  layoutFlowchart,
+  parseMermaidFlowchart,
+} from "../src/lib/mermaid-import";
+
+describe("parseMermaidFlowchart", () => {
+  it("parses nodes in order of appearance and arrows as dependencies", () => {
+    const flowchart = parseMermaidFlowchart(
+      [
+        "flowchart LR",
+        "  A[Design API] --> B(Build backend)",
+        "  A --> C{Review}",
+        "  B & C --> D([Release])",
+      ].join("\n")
+    );
+
+    expect(flowchart?.direction).toBe("LR");
+    expect(flowchart?.nodes).toEqual([
+      { id: "A", label: "Design API" },
+      { id: "B", label: "Build backend" },
+      { id: "C", label: "Review" },
+      { id: "D", label: "Release" },
+    ]);
+    expect(flowchart?.edges).toEqual([
+      { source: "A", target: "B" },
+      { source: "A", target: "C" },
+      { source: "B", target: "D" },
+      { source: "C", target: "D" },
+    ]);
+  });
+
+  it("supports graph headers, chains, labels and statements on one line", () => {
+    const flowchart = parseMermaidFlowchart(
+      "graph TD; a-->|first|b -- then --> c==>d; c -.-> e"
+    );
+
+    expect(flowchart?.direction).toBe("TB");
+    expect(flowchart?.nodes.map((n) => n.id)).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+      "e",
+    ]);
+    expect(flowchart?.edges).toEqual([
+      { source: "a", target: "b" },
+      { source: "b", target: "c" },
+      { source: "c", target: "d" },
+      { source: "c", target: "e" },
+    ]);
+  });
+
+  it("keeps nodes of links without direction but no dependency", () => {
+    const flowchart = parseMermaidFlowchart(
+      "flowchart LR\n  A --- B\n  C <--> D"
+    );
+
+    expect(flowchart?.nodes.map((n) => n.id)).toEqual(["A", "B", "C", "D"]);
+    expect(flowchart?.edges).toEqual([]);
+  });
+
+  it("ignores styling, subgraphs and comments", () => {
+    const flowchart = parseMermaidFlowchart(
+      [
+        "%%{init: {'theme': 'dark'}}%%",
+        "flowchart LR",
+        "  %% A comment",
+        "  subgraph Phase 1",
+        "    A:::todo --> B",
+        "  end",
+        "  classDef todo fill:#fff",
+        "  class A todo",
+        "  style B fill:#f9f",
+        "  click A callback",
+      ].join("\n")
+    );
+
+    expect(flowchart?.nodes).toEqual([
+      { id: "A", label: "A" },
+      { id: "B", label: "B" },
+    ]);
+    expect(flowchart?.edges).toEqual([{ source: "A", target: "B" }]);
+  });
+
+  it("returns null for other diagrams", () => {
+    expect(parseMermaidFlowchart("sequenceDiagram\n  A->>B: Hi")).toBeNull();
+  });
+
+  it("reads the flowcharts of the Mermaid export", () => {
+    const task = (id: string, summary: string): Task => ({
+      id,
+      type: "dataview",
+      summary,
+      text: summary,
+      tags: [],
+      status: "todo",
+      priority: "",
+      link: "Tasks.md",
+      incomingLinks: [],
+      starred: false,
+    });
+    const exported = toMermaid(
+      [task("abc123", 'Fix "login" #bug'), task("def456", "Ship <v2>; done")],
+      [{ source: "abc123", target: "def456" }]
+    );
+    const flowchart = parseMermaidFlowchart(exported);
+
+    expect(flowchart?.nodes.map((n) => n.label)).toEqual([
+      'Fix "login" #bug',
+      "Ship <v2>; done",
+    ]);
+    expect(flowchart?.edges).toEqual([{ source: "t0", target: "t1" }]);
+  });
+});
+
+describe("decodeMermaidLabel", () => {
+  it("decodes entity codes and line breaks", () => {
+    expect(decodeMermaidLabel("a #35;1 #quot;b#quot;<br/>c #unknown;")).toBe(
+      'a #1 "b" c #unknown;'
+    );
+  });
+});
+
+describe("extractMermaidBlocks", () => {
+  it("finds mermaid code blocks with their lines", () => {
+    const markdown = [
+      "# Plan",
+      "```mermaid",
+      "flowchart LR",
+      "  A --> B",
+      "```",
+      "```js",
+      "const a = 1;",
+      "```",
+      "~~~mermaid",
+      "graph TD",
+      "~~~",
+    ].join("\n");
+
+    expect(extractMermaidBlocks(markdown)).toEqual([
+      { source: "flowchart LR\n  A --> B", startLine: 2, endLine: 3 },
+      { source: "graph TD", startLine: 9, endLine: 9 },
+    ]);
+  });
+});
+
+describe("layoutFlowchart", () => {
+  const options = { nodeWidth: 100, nodeHeight: 50, gap: 10 };
+
+  it("ranks nodes by their longest chain of dependencies", () => {
+    const flowchart = parseMermaidFlowchart(
+      "flowchart LR\n  A --> B --> C\n  A --> C\n  A --> D"
+    );
+    const positions = layoutFlowchart(flowchart!, {
+      ...options,
+      vertical: false,
+    });
+
+    expect(positions.get("A")).toEqual({ x: 0, y: 0 });
+    expect(positions.get("B")).toEqual({ x: 120, y: 0 });
+    expect(positions.get("C")).toEqual({ x: 240, y: 0 });
+    expect(positions.get("D")).toEqual({ x: 120, y: 60 });
+  });
+
+  it("lays out vertically and terminates on cycles", () => {
+    const flowchart = parseMermaidFlowchart("flowchart TB\n  A --> B --> A");
+    const positions = layoutFlowchart(flowchart!, {
+      ...options,
+      vertical: true,
+    });
+
+    expect(positions.size).toBe(2);
+    positions.forEach(({ x }) => expect(x).toBe(0));
+  });
+});
+
+describe("formatImportedTaskLine", () => {
+  it("adds the ID in the configured format", () => {
+    expect(
+      formatImportedTaskLine("Design API", "abc123", [], "individual")
+    ).toBe("- [ ] Design API 🆔 abc123");
+    expect(formatImportedTaskLine("Design API", "abc123", [], "dataview")).toBe(
+      "- [ ] Design API [[id:: abc123]]"
+    );
+  });
+
+  it("adds the dependencies in the configured format", () => {
+    const dependsOn = ["def456", "ghi789"];
+    expect(
+      formatImportedTaskLine("Release", "abc123", dependsOn, "individual")
+    ).toBe("- [ ] Release 🆔 abc123 ⛔ def456 ⛔ ghi789");
+    expect(formatImportedTaskLine("Release", "abc123", dependsOn, "csv")).toBe(
+      "- [ ] Release 🆔 abc123 ⛔ def456,ghi789"
+    );
+    expect(
+      formatImportedTaskLine("Release", "abc123", dependsOn, "dataview")
+    ).toBe("- [ ] Release [[id:: abc123]] [[dependsOn:: def456, ghi789]]");
+  });
+});
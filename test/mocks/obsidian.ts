@@ -36,10 +36,26 @@ export class Vault {
     return this.files.get(file.path) || "";
   }
 
+  async cachedRead(file: TFile): Promise<string> {
+    return this.read(file);
+  }
+
+  getMarkdownFiles(): TFile[] {
+    return Array.from(this.files.keys())
+      .filter((path) => path.endsWith(".md"))
+      .map((path) => new TFile(path));
+  }
+
   async modify(file: TFile, content: string): Promise<void> {
     this.files.set(file.path, content);
   }
 
+  async rename(file: TFile, newPath: string): Promise<void> {
+    const content = this.files.get(file.path) || "";
+    this.files.delete(file.path);
+    this.files.set(newPath, content);
+  }
+
   // Test utility methods
   setFileContent(path: string, content: string): void {
     this.files.set(path, content);
@@ -48,13 +64,60 @@ export class Vault {
   getFileContent(path: string): string {
     return this.files.get(path) || "";
   }
+
+  deleteFile(path: string): void {
+    this.files.delete(path);
+  }
+}
+
+export class MetadataCache {
+  constructor(private vault: Vault) {}
+
+  // Only the task list items, from the current content of the file
+  getFileCache(file: TFile) {
+    const listItems = this.vault
+      .getFileContent(file.path)
+      .split("\n")
+      .flatMap((line, index) => {
+        const match = line.match(/^\s*[-*+] \[(.)\]/);
+        return match
+          ? [{ task: match[1], position: { start: { line: index } } }]
+          : [];
+      });
+    return { listItems };
+  }
+}
+
+export class Events {
+  private handlers = new Map<string, ((...data: unknown[]) => unknown)[]>();
+
+  on(name: string, callback: (...data: unknown[]) => unknown) {
+    this.handlers.set(name, [...(this.handlers.get(name) || []), callback]);
+    return { name, callback };
+  }
+
+  trigger(name: string, ...data: unknown[]): void {
+    (this.handlers.get(name) || []).forEach((callback) => callback(...data));
+  }
+}
+
+export class FileManager {
+  constructor(private vault: Vault) {}
+
+  async renameFile(file: TFile, newPath: string): Promise<void> {
+    await this.vault.rename(file, newPath);
+  }
 }
 
 export class App {
   vault: Vault;
+  fileManager: FileManager;
+  metadataCache: MetadataCache;
 
   constructor() {
     this.vault = new Vault();
+    this.fileManager = new FileManager(this.vault);
+    this.metadataCache = new MetadataCache(this.vault);
   }
 }
 
@@ -0,0 +1,67 @@
+import { makeTask } from "./task-fixture";
+import {
+  getNextActions,
+  getPriorityRank,
+  isBlocked,
+} from "../src/lib/next-actions";
+
+describe("Next Actions", () => {
+  it("ranks priority emoji from highest to lowest", () => {
+    expect(getPriorityRank("🔺")).toBeLessThan(getPriorityRank("⏫"));
+    expect(getPriorityRank("🔼")).toBeLessThan(getPriorityRank(""));
+    expect(getPriorityRank("")).toBeLessThan(getPriorityRank("⏬"));
+    expect(getPriorityRank("?")).toBe(getPriorityRank(""));
+  });
+
+  it("is blocked only by unfinished dependencies in the index", () => {
+    const tasks = new Map(
+      [
+        makeTask({ id: "done", status: "done" }),
+        makeTask({ id: "canceled", status: "canceled" }),
+        makeTask({ id: "open", status: "in_progress" }),
+      ].map((task) => [task.id, task])
+    );
+
+    expect(
+      isBlocked(makeTask({ incomingLinks: ["done", "canceled"] }), tasks)
+    ).toBe(false);
+    expect(
+      isBlocked(makeTask({ incomingLinks: ["done", "open"] }), tasks)
+    ).toBe(true);
+    expect(isBlocked(makeTask({ incomingLinks: ["missing"] }), tasks)).toBe(
+      false
+    );
+  });
+
+  it("lists open, unblocked tasks", () => {
+    const tasks = [
+      makeTask({ id: "a", status: "done" }),
+      makeTask({ id: "b", incomingLinks: ["a"] }),
+      makeTask({ id: "c", incomingLinks: ["b"] }),
+      makeTask({ id: "d", status: "in_progress" }),
+      makeTask({ id: "e", status: "canceled" }),
+    ];
+
+    expect(getNextActions(tasks).map((t) => t.id)).toEqual(["b", "d"]);
+  });
+
+  it("sorts by priority, then due date, then summary", () => {
+    const tasks = [
+      makeTask({ id: "plain", summary: "Plain" }),
+      makeTask({ id: "low", priority: "🔽", dueDate: "2024-01-01" }),
+      makeTask({ id: "late", priority: "⏫", dueDate: "2024-03-01" }),
+      makeTask({ id: "early", priority: "⏫", dueDate: "2024-02-01" }),
+      makeTask({ id: "undated", priority: "⏫" }),
+      makeTask({ id: "another", summary: "Another" }),
+    ];
+
+    expect(getNextActions(tasks).map((t) => t.id)).toEqual([
+      "early",
+      "late",
+      "undated",
+      "another",
+      "plain",
+      "low",
+    ]);
+  });
+});
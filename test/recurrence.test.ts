@@ -0,0 +1,170 @@
+import { App } from "./mocks/obsidian";
+import {
+  createNextOccurrence,
+  getNextDate,
+  parseRecurrenceRule,
+} from "../src/lib/recurrence";
+import { updateTaskStatusInVault } from "../src/lib/utils";
+import { TaskFactory } from "../src/lib/task-factory";
+import { Task } from "../src/types/task";
+
+describe("Recurrence", () => {
+  describe("parseRecurrenceRule", () => {
+    it("parses simple intervals", () => {
+      expect(parseRecurrenceRule("every week")).toEqual({
+        interval: 1,
+        unit: "week",
+        whenDone: false,
+      });
+      expect(parseRecurrenceRule("every 3 days")).toEqual({
+        interval: 3,
+        unit: "day",
+        whenDone: false,
+      });
+    });
+
+    it("parses month days and weekdays", () => {
+      expect(parseRecurrenceRule("every month on the 1st")).toMatchObject({
+        unit: "month",
+        monthDay: 1,
+      });
+      expect(parseRecurrenceRule("every month on the last")).toMatchObject({
+        monthDay: -1,
+      });
+      expect(parseRecurrenceRule("every week on Monday, Friday")).toMatchObject(
+        { weekdays: [1, 5] }
+      );
+    });
+
+    it("parses weekday names, abbreviations and plurals only", () => {
+      expect(
+        parseRecurrenceRule("every week on mondays and tuesdays")
+      ).toMatchObject({ weekdays: [1, 2] });
+      expect(parseRecurrenceRule("every week on Sat, sun")).toMatchObject({
+        weekdays: [0, 6],
+      });
+      expect(parseRecurrenceRule("every week on t")).toBeNull();
+      expect(parseRecurrenceRule("every week on s")).toBeNull();
+    });
+
+    it("parses when done", () => {
+      expect(parseRecurrenceRule("every week when done")).toMatchObject({
+        unit: "week",
+        whenDone: true,
+      });
+    });
+
+    it("rejects unknown rules", () => {
+      expect(parseRecurrenceRule("sometimes")).toBeNull();
+      expect(parseRecurrenceRule("every week on Funday")).toBeNull();
+    });
+  });
+
+  describe("getNextDate", () => {
+    it("adds intervals", () => {
+      expect(
+        getNextDate("2024-01-10", parseRecurrenceRule("every week")!)
+      ).toBe("2024-01-17");
+      expect(
+        getNextDate("2024-01-31", parseRecurrenceRule("every month")!)
+      ).toBe("2024-02-29");
+      expect(
+        getNextDate("2024-02-29", parseRecurrenceRule("every year")!)
+      ).toBe("2025-02-28");
+    });
+
+    it("finds the next month day", () => {
+      const rule = parseRecurrenceRule("every month on the 1st")!;
+      expect(getNextDate("2024-01-01", rule)).toBe("2024-02-01");
+      expect(getNextDate("2024-01-15", rule)).toBe("2024-02-01");
+
+      const last = parseRecurrenceRule("every month on the last")!;
+      expect(getNextDate("2024-01-31", last)).toBe("2024-02-29");
+    });
+
+    it("finds the next weekday", () => {
+      const rule = parseRecurrenceRule("every week on Monday, Friday")!;
+      // 2024-01-10 is a Wednesday
+      expect(getNextDate("2024-01-10", rule)).toBe("2024-01-12");
+      expect(getNextDate("2024-01-12", rule)).toBe("2024-01-15");
+    });
+  });
+
+  describe("createNextOccurrence", () => {
+    it("shifts dates and assigns a fresh ID", () => {
+      const next = createNextOccurrence(
+        "  - [x] Pay rent 🔁 every month on the 1st ⏳ 2024-01-28 📅 2024-02-01 ✅ 2024-01-30 🆔 abc123",
+        "2024-01-30"
+      );
+
+      // The scheduled date keeps its offset of 4 days before the due date
+      expect(next).not.toBeNull();
+      expect(next!.id).not.toBe("abc123");
+      expect(next!.line).toBe(
+        `  - [ ] Pay rent 🔁 every month on the 1st ⏳ 2024-02-26 📅 2024-03-01 🆔 ${next!.id}`
+      );
+    });
+
+    it("recurs from the completion date with when done", () => {
+      const next = createNextOccurrence(
+        "- [ ] Water plants 🔁 every week when done 📅 2024-01-01 [[id:: abc123]]",
+        "2024-01-10"
+      );
+
+      expect(next!.line).toBe(
+        `- [ ] Water plants 🔁 every week when done 📅 2024-01-17 [[id:: ${next!.id}]]`
+      );
+    });
+
+    it("shifts Dataview date fields", () => {
+      const next = createNextOccurrence(
+        "- [ ] Review 🔁 every day [due:: 2024-01-01]",
+        "2024-01-01"
+      );
+
+      expect(next!.line).toMatch(
+        /^- \[ \] Review 🔁 every day \[due:: 2024-01-02\] 🆔 [a-z0-9]{6}$/
+      );
+    });
+
+    it("ignores tasks without a recurrence rule", () => {
+      expect(createNextOccurrence("- [ ] Once 📅 2024-01-01")).toBeNull();
+    });
+  });
+
+  describe("Completing a recurring task in the vault", () => {
+    it("inserts the next instance above the completed task", async () => {
+      const app = new App();
+      const vault = app.vault;
+      vault.setFileContent(
+        "Tasks.md",
+        "# Chores\n- [ ] Take out trash 🔁 every week 📅 2024-01-01 🆔 abc123"
+      );
+
+      const task: Task = {
+        ...new TaskFactory().parse({
+          status: " ",
+          text: "Take out trash 🔁 every week 📅 2024-01-01 🆔 abc123",
+          link: { path: "Tasks.md" },
+        }),
+        line: 1,
+      };
+
+      const nextTask = await updateTaskStatusInVault(
+        task,
+        "done",
+        app as unknown as Parameters<typeof updateTaskStatusInVault>[2]
+      );
+      const lines = vault.getFileContent("Tasks.md").split("\n");
+
+      expect(nextTask?.dueDate).toBe("2024-01-08");
+      expect(nextTask?.line).toBe(1);
+      expect(lines[1]).toBe(
+        `- [ ] Take out trash 🔁 every week 📅 2024-01-08 🆔 ${nextTask?.id}`
+      );
+      expect(lines[2]).toBe(
+        "- [x] Take out trash 🔁 every week 📅 2024-01-01 🆔 abc123"
+      );
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  appendLine,
+  formatNoteTask,
+  formatTaskLine,
+  getDependentTaskDefaults,
+  getNoteTaskPath,
+  parseTagInput,
+} from "../src/lib/task-creation";
+import { Task } from "../src/types/task";
+import { makeTask } from "./task-fixture";
+
+describe("parseTagInput", () => {
+  it("splits tags on spaces and commas without the #", () => {
+    expect(parseTagInput("#work, home  #errand #work")).toEqual([
+      "work",
+      "home",
+      "errand",
+    ]);
+    expect(parseTagInput("  ")).toEqual([]);
+  });
+});
+
+describe("formatTaskLine", () => {
+  const input = { summary: " Call Bob ", tags: ["work"], priority: "⏫" };
+
+  it("writes the ID in the configured linking style", () => {
+    expect(formatTaskLine(input, "abc123", "csv")).toBe(
+      "- [ ] Call Bob #work ⏫ 🆔 abc123"
+    );
+    expect(formatTaskLine(input, "abc123", "dataview")).toBe(
+      "- [ ] Call Bob #work ⏫ [[id:: abc123]]"
+    );
+  });
+
+  it("leaves out a normal priority", () => {
+    expect(formatTaskLine({ ...input, priority: "" }, "abc123", "csv")).toBe(
+      "- [ ] Call Bob #work 🆔 abc123"
+    );
+  });
+});
+
+describe("appendLine", () => {
+  it("appends after the last non-empty line", () => {
+    expect(appendLine("# Inbox\n- [ ] One\n\n\n", "- [ ] Two")).toEqual({
+      content: "# Inbox\n- [ ] One\n- [ ] Two\n",
+      line: 2,
+    });
+  });
+
+  it("writes the first line of an empty note", () => {
+    expect(appendLine("", "- [ ] One")).toEqual({
+      content: "- [ ] One\n",
+      line: 0,
+    });
+  });
+});
+
+describe("formatNoteTask", () => {
+  it("tags the note as a task", () => {
+    expect(formatNoteTask({ tags: ["work", "task"], priority: "🔽" })).toBe(
+      "---\ntags:\n  - task\n  - work\nstatus: open\npriority: low\n---\n"
+    );
+  });
+});
+
+describe("getNoteTaskPath", () => {
+  it("names the note after the summary", () => {
+    expect(getNoteTaskPath("Tasks/", "Fix: the #build", () => false)).toBe(
+      "Tasks/Fix the build.md"
+    );
+    expect(getNoteTaskPath("", "  ", () => false)).toBe("Untitled task.md");
+  });
+
+  it("numbers the name when the note exists", () => {
+    const existing = new Set(["Tasks/Plan.md", "Tasks/Plan 2.md"]);
+    expect(getNoteTaskPath("Tasks", "Plan", (path) => existing.has(path))).toBe(
+      "Tasks/Plan 3.md"
+    );
+  });
+});
+
+describe("getDependentTaskDefaults", () => {
+  const settings = {
+    newTaskType: "line" as const,
+    inboxFile: "Inbox.md",
+    noteTaskFolder: "Tasks",
+    dependentTaskLocation: "source" as const,
+  };
+  const task = (overrides: Partial<Task>): Task =>
+    makeTask({ id: "abc123", link: "Projects/Plan.md", ...overrides });
+
+  it("puts a dependent line next to its source", () => {
+    expect(getDependentTaskDefaults(task({}), settings)).toEqual({
+      type: "line",
+      targets: { line: "Projects/Plan.md", note: "Tasks" },
+    });
+  });
+
+  it("puts a dependent note task in the folder of its source", () => {
+    expect(
+      getDependentTaskDefaults(
+        task({ type: "note", id: "Projects/Plan.md" }),
+        settings
+      )
+    ).toEqual({
+      type: "note",
+      targets: { line: "Inbox.md", note: "Projects" },
+    });
+  });
+
+  it("uses the default location when configured", () => {
+    expect(
+      getDependentTaskDefaults(task({}), {
+        ...settings,
+        dependentTaskLocation: "default",
+      })
+    ).toEqual({
+      type: "line",
+      targets: { line: "Inbox.md", note: "Tasks" },
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { TaskFactory } from "../src/lib/task-factory";
+import { addDays, getDueState, parseDateValue } from "../src/lib/task-dates";
+import { parseTaskNote } from "../src/lib/utils";
+
+describe("Task Dates", () => {
+  const factory = new TaskFactory();
+
+  function parse(text: string) {
+    return factory.parse({ status: " ", text, link: { path: "Tasks.md" } });
+  }
+
+  describe("TaskFactory date parsing", () => {
+    it("parses the Tasks plugin date signifiers", () => {
+      const task = parse(
+        "Write report 🛫 2024-01-01 ⏳ 2024-01-05 📅 2024-01-10 ➕ 2023-12-30 ✅ 2024-01-09"
+      );
+
+      expect(task.startDate).toBe("2024-01-01");
+      expect(task.scheduledDate).toBe("2024-01-05");
+      expect(task.dueDate).toBe("2024-01-10");
+      expect(task.createdDate).toBe("2023-12-30");
+      expect(task.doneDate).toBe("2024-01-09");
+      expect(task.summary).toBe("Write report");
+    });
+
+    it("parses the cancelled date", () => {
+      expect(parse("Dropped ❌ 2024-02-01").cancelledDate).toBe("2024-02-01");
+    });
+
+    it("parses Dataview inline date fields", () => {
+      const task = parse(
+        "Write report [due:: 2024-01-10] (scheduled:: 2024-01-05) [completion:: 2024-01-09]"
+      );
+
+      expect(task.dueDate).toBe("2024-01-10");
+      expect(task.scheduledDate).toBe("2024-01-05");
+      expect(task.doneDate).toBe("2024-01-09");
+      expect(task.summary).toBe("Write report");
+    });
+
+    it("keeps dates out of tags and dependencies", () => {
+      const task = parse("Task #work 📅 2024-01-10 ⛔ abc123 🆔 def456");
+
+      expect(task.tags).toEqual(["work"]);
+      expect(task.incomingLinks).toEqual(["abc123"]);
+      expect(task.id).toBe("def456");
+      expect(task.summary).toBe("Task");
+    });
+
+    it("leaves date fields unset without dates", () => {
+      const task = parse("Plain task");
+      expect(task.dueDate).toBeUndefined();
+      expect(task.scheduledDate).toBeUndefined();
+    });
+  });
+
+  describe("Note task frontmatter dates", () => {
+    it("reads due and scheduled from frontmatter", () => {
+      const file = { path: "Notes/Task.md", basename: "Task" };
+      const cache = {
+        frontmatter: {
+          tags: ["task"],
+          due: "2024-03-01",
+          scheduled: "2024-02-20T09:00",
+        },
+      };
+
+      const task = parseTaskNote(file, cache, { vault: {} });
+
+      expect(task?.dueDate).toBe("2024-03-01");
+      expect(task?.scheduledDate).toBe("2024-02-20");
+    });
+  });
+
+  describe("parseDateValue", () => {
+    it("normalizes strings and dates", () => {
+      expect(parseDateValue("2024-03-01")).toBe("2024-03-01");
+      expect(parseDateValue(new Date(2024, 2, 1))).toBe("2024-03-01");
+      expect(parseDateValue("next week")).toBeUndefined();
+      expect(parseDateValue(42)).toBeUndefined();
+    });
+  });
+
+  describe("getDueState", () => {
+    const today = "2024-05-15";
+
+    it("classifies open tasks by due date", () => {
+      expect(
+        getDueState({ status: "todo", dueDate: "2024-05-14" }, today)
+      ).toBe("overdue");
+      expect(getDueState({ status: "todo", dueDate: today }, today)).toBe(
+        "today"
+      );
+      expect(
+        getDueState({ status: "in_progress", dueDate: "2024-05-20" }, today)
+      ).toBe("upcoming");
+      expect(
+        getDueState({ status: "todo", dueDate: "2024-06-30" }, today)
+      ).toBeUndefined();
+    });
+
+    it("falls back to the scheduled date", () => {
+      expect(
+        getDueState({ status: "todo", scheduledDate: "2024-05-01" }, today)
+      ).toBe("overdue");
+    });
+
+    it("ignores finished tasks", () => {
+      expect(
+        getDueState({ status: "done", dueDate: "2024-05-01" }, today)
+      ).toBeUndefined();
+      expect(
+        getDueState({ status: "canceled", dueDate: "2024-05-01" }, today)
+      ).toBeUndefined();
+    });
+
+    it("adds days across month boundaries", () => {
+      expect(addDays("2024-01-30", 3)).toBe("2024-02-02");
+      expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+    });
+  });
+});
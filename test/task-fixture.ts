@@ -0,0 +1,20 @@
+import { Task } from "../src/types/task";
+
+/**
+ * A todo line task in Tasks.md, with the fields a test needs overridden
+ */
+export function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "",
+    type: "dataview",
+    summary: "",
+    text: "",
+    tags: [],
+    status: "todo",
+    priority: "",
+    link: "Tasks.md",
+    incomingLinks: [],
+    starred: false,
+    ...overrides,
+  };
+}
@@ -0,0 +1,233 @@
+import { Vault } from "./mocks/obsidian";
+import { Task } from "../src/types/task";
+import { makeTask } from "./task-fixture";
+import { GraphData } from "../src/types/settings";
+import {
+  getExplicitTaskId,
+  hasStableId,
+  migrateGraphData,
+  renameLocationKey,
+  resolveNodeKeys,
+} from "../src/lib/task-identity";
+import { ensureStableTaskId } from "../src/lib/utils";
+import { parseTasksFromContent } from "../src/lib/task-sources";
+
+describe("Task Identity", () => {
+  describe("getExplicitTaskId", () => {
+    it("should reuse emoji and Dataview IDs", () => {
+      expect(getExplicitTaskId("Write docs 🆔 abc123")).toBe("abc123");
+      expect(getExplicitTaskId("Write docs [[id:: def456]]")).toBe("def456");
+      expect(getExplicitTaskId("Write docs")).toBeUndefined();
+    });
+
+    it("should be used as the task key when scanning files", () => {
+      const tasks = parseTasksFromContent(
+        "- [ ] With ID 🆔 abc123\n- [ ] Without ID",
+        "Tasks.md"
+      );
+      expect(tasks.map((t) => t.id)).toEqual(["abc123", "Tasks.md:1"]);
+      expect(hasStableId(tasks[0])).toBe(true);
+      expect(hasStableId(tasks[1])).toBe(false);
+    });
+  });
+
+  describe("resolveNodeKeys", () => {
+    it("should match nodes by key first", () => {
+      const task = makeTask({ id: "abc123", summary: "Write docs" });
+      const matches = resolveNodeKeys([{ id: "abc123" }], [task]);
+      expect(matches.get("abc123")).toBe(task);
+    });
+
+    it("should follow a task after a line was inserted above it", () => {
+      const previous = makeTask({
+        id: "Tasks.md:3",
+        summary: "Write docs",
+        line: 3,
+      });
+      const moved = makeTask({
+        id: "Tasks.md:4",
+        summary: "Write docs",
+        line: 4,
+      });
+      const other = makeTask({
+        id: "Tasks.md:3",
+        summary: "New task",
+        line: 3,
+      });
+
+      const matches = resolveNodeKeys(
+        [{ id: "Tasks.md:3", task: previous }],
+        [other, moved]
+      );
+
+      expect(matches.get("Tasks.md:3")?.id).toBe("Tasks.md:4");
+    });
+
+    it("should prefer the closest line when the summary repeats in a file", () => {
+      const previous = makeTask({
+        id: "Tasks.md:10",
+        summary: "Review",
+        line: 10,
+      });
+      const far = makeTask({ id: "Tasks.md:1", summary: "Review", line: 1 });
+      const close = makeTask({
+        id: "Tasks.md:11",
+        summary: "Review",
+        line: 11,
+      });
+
+      const matches = resolveNodeKeys(
+        [{ id: "Tasks.md:10", task: previous }],
+        [far, close]
+      );
+
+      expect(matches.get("Tasks.md:10")?.id).toBe("Tasks.md:11");
+    });
+
+    it("should only match across files when the fingerprint is unique", () => {
+      const previous = makeTask({
+        id: "Old.md:0",
+        summary: "Review",
+        link: "Old.md",
+      });
+      const a = makeTask({ id: "A.md:0", summary: "Review", link: "A.md" });
+      const b = makeTask({ id: "B.md:0", summary: "Review", link: "B.md" });
+
+      expect(
+        resolveNodeKeys([{ id: "Old.md:0", task: previous }], [a]).get(
+          "Old.md:0"
+        )?.id
+      ).toBe("A.md:0");
+      expect(
+        resolveNodeKeys([{ id: "Old.md:0", task: previous }], [a, b]).size
+      ).toBe(0);
+    });
+  });
+
+  describe("renameLocationKey", () => {
+    it("should rename note paths and path:line keys", () => {
+      expect(renameLocationKey("Old.md", "Old.md", "New.md")).toBe("New.md");
+      expect(renameLocationKey("Old.md:4", "Old.md", "New.md")).toBe(
+        "New.md:4"
+      );
+      expect(renameLocationKey("abc123", "Old.md", "New.md")).toBe("abc123");
+    });
+  });
+
+  describe("migrateGraphData", () => {
+    it("should move saved nodes and edges onto the new keys", () => {
+      const tasks = [
+        makeTask({
+          id: "abc123",
+          summary: "First",
+          text: "First 🆔 abc123",
+          line: 0,
+        }),
+        makeTask({
+          id: "def456",
+          summary: "Second",
+          text: "Second 🆔 def456",
+          line: 1,
+        }),
+      ];
+      const data: GraphData = {
+        nodes: [
+          {
+            id: "Tasks.md:0",
+            taskId: "Tasks.md:0",
+            position: { x: 1, y: 2 },
+            taskData: { ...makeTask({ id: "Tasks.md:0", summary: "First" }) },
+          },
+          {
+            id: "Tasks.md:1",
+            taskId: "Tasks.md:1",
+            position: { x: 3, y: 4 },
+            taskData: { ...makeTask({ id: "Tasks.md:1", summary: "Second" }) },
+          },
+        ],
+        edges: [
+          {
+            id: "Tasks.md:0-Tasks.md:1",
+            source: "Tasks.md:0",
+            target: "Tasks.md:1",
+          },
+        ],
+        viewport: { x: 0, y: 0, zoom: 1 },
+      };
+
+      const migrated = migrateGraphData(data, tasks);
+
+      expect(migrated.nodes.map((n) => n.id)).toEqual(["abc123", "def456"]);
+      expect(migrated.nodes[0].position).toEqual({ x: 1, y: 2 });
+      expect(migrated.edges).toEqual([
+        { id: "abc123-def456", source: "abc123", target: "def456" },
+      ]);
+    });
+
+    it("should return the same object when nothing changed", () => {
+      const data: GraphData = {
+        nodes: [],
+        edges: [],
+        viewport: { x: 0, y: 0, zoom: 1 },
+      };
+      expect(migrateGraphData(data, [])).toBe(data);
+    });
+  });
+
+  describe("ensureStableTaskId", () => {
+    let vault: Vault;
+
+    beforeEach(() => {
+      vault = new Vault();
+    });
+
+    it("should keep an existing ID", async () => {
+      vault.setFileContent("Tasks.md", "- [ ] Write docs 🆔 abc123");
+      const task = makeTask({
+        id: "abc123",
+        text: "Write docs 🆔 abc123",
+        line: 0,
+      });
+
+      const result = await ensureStableTaskId(vault, task, "csv");
+
+      expect(result.id).toBe("abc123");
+      expect(vault.getFileContent("Tasks.md")).toBe(
+        "- [ ] Write docs 🆔 abc123"
+      );
+    });
+
+    it("should write a new ID to the task's own line", async () => {
+      vault.setFileContent("Tasks.md", "- [ ] Write docs\n- [ ] Write docs");
+      const task = makeTask({ id: "Tasks.md:1", text: "Write docs", line: 1 });
+
+      const result = await ensureStableTaskId(vault, task, "csv");
+      const lines = vault.getFileContent("Tasks.md").split("\n");
+
+      expect(result.id).toMatch(/^[a-z0-9]{6}$/);
+      expect(lines[0]).toBe("- [ ] Write docs");
+      expect(lines[1]).toBe(`- [ ] Write docs 🆔 ${result.id}`);
+    });
+
+    it("should use the Dataview format for the dataview linking style", async () => {
+      vault.setFileContent("Tasks.md", "- [ ] Write docs");
+      const task = makeTask({ id: "Tasks.md:0", text: "Write docs", line: 0 });
+
+      const result = await ensureStableTaskId(vault, task, "dataview");
+
+      expect(vault.getFileContent("Tasks.md")).toBe(
+        `- [ ] Write docs [[id:: ${result.id}]]`
+      );
+    });
+
+    it("should return the task as is when the ID can't be written", async () => {
+      vault.setFileContent("Tasks.md", "- [ ] Something else");
+      const task = makeTask({ id: "Tasks.md:0", text: "Write docs", line: 0 });
+      const missing = makeTask({ id: "Gone.md:0", link: "Gone.md" });
+
+      expect(await ensureStableTaskId(vault, task, "csv")).toBe(task);
+      expect(await ensureStableTaskId(vault, missing, "csv")).toBe(missing);
+      expect(vault.getFileContent("Tasks.md")).toBe("- [ ] Something else");
+    });
+  });
+});
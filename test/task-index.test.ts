@@ -0,0 +1,164 @@
+import { App, TFile } from "./mocks/obsidian";
+import { TaskIndex, TaskIndexChange } from "../src/lib/task-index";
+import { TaskSourceSettings } from "../src/lib/task-sources";
+
+const settings: TaskSourceSettings = {
+  includeFolders: ["Projects"],
+  excludeFolders: [],
+  includePatterns: [],
+  excludePatterns: [],
+};
+
+async function createIndex(files: Record<string, string>) {
+  const app = new App();
+  Object.entries(files).forEach(([path, content]) =>
+    app.vault.setFileContent(path, content)
+  );
+  const index = new TaskIndex(app as never, () => settings);
+  const changes: TaskIndexChange[] = [];
+  index.on("changed", (change) => changes.push(change));
+  await index.rebuild();
+  changes.length = 0;
+  return { app, index, changes };
+}
+
+const summaries = (index: TaskIndex) =>
+  index.getTasks().map((task) => task.summary);
+
+describe("TaskIndex", () => {
+  it("indexes the tasks of the task sources", async () => {
+    const { index } = await createIndex({
+      "Projects/Plan.md": "- [ ] Write plan 🆔 abc123\nNot a task",
+      "Notes/Ideas.md": "- [ ] Outside the sources",
+    });
+
+    expect(index.isReady()).toBe(true);
+    expect(summaries(index)).toEqual(["Write plan"]);
+    expect(index.getTask("abc123")?.link).toBe("Projects/Plan.md");
+  });
+
+  it("re-parses an updated file", async () => {
+    const { app, index, changes } = await createIndex({
+      "Projects/Plan.md": "- [ ] Write plan 🆔 abc123",
+    });
+    app.vault.setFileContent(
+      "Projects/Plan.md",
+      "- [x] Write plan 🆔 abc123\n- [ ] Review plan 🆔 def456"
+    );
+
+    await index.updateFile(new TFile("Projects/Plan.md") as never);
+
+    expect(summaries(index)).toEqual(["Write plan", "Review plan"]);
+    expect(changes).toHaveLength(1);
+    const change = changes[0];
+    expect(change.type).toBe("file-updated");
+    if (change.type !== "file-updated") return;
+    expect(change.path).toBe("Projects/Plan.md");
+    expect(change.previous.map((task) => task.status)).toEqual(["todo"]);
+    expect(change.tasks.map((task) => task.id)).toEqual(["abc123", "def456"]);
+  });
+
+  it("removes a deleted file", async () => {
+    const { app, index, changes } = await createIndex({
+      "Projects/Plan.md": "- [ ] Write plan 🆔 abc123",
+    });
+    app.vault.deleteFile("Projects/Plan.md");
+
+    index.removeFile("Projects/Plan.md");
+    index.removeFile("Projects/Unknown.md");
+
+    expect(index.getTasks()).toEqual([]);
+    expect(changes).toEqual([
+      {
+        type: "file-removed",
+        path: "Projects/Plan.md",
+        previous: [expect.objectContaining({ id: "abc123" })],
+      },
+    ]);
+  });
+
+  it("moves the tasks of a renamed file", async () => {
+    const { app, index, changes } = await createIndex({
+      "Projects/Plan.md": "- [ ] Write plan 🆔 abc123",
+    });
+    await app.vault.rename(
+      new TFile("Projects/Plan.md"),
+      "Projects/Roadmap.md"
+    );
+
+    await index.renameFile(
+      new TFile("Projects/Roadmap.md") as never,
+      "Projects/Plan.md"
+    );
+
+    expect(index.getTasksInFile("Projects/Plan.md")).toEqual([]);
+    expect(index.getTask("abc123")?.link).toBe("Projects/Roadmap.md");
+    expect(changes).toEqual([
+      {
+        type: "file-renamed",
+        oldPath: "Projects/Plan.md",
+        path: "Projects/Roadmap.md",
+        tasks: [expect.objectContaining({ id: "abc123" })],
+      },
+    ]);
+  });
+
+  it("drops a file moved out of the task sources", async () => {
+    const { app, index, changes } = await createIndex({
+      "Projects/Plan.md": "- [ ] Write plan 🆔 abc123",
+    });
+    await app.vault.rename(new TFile("Projects/Plan.md"), "Archive/Plan.md");
+
+    await index.renameFile(
+      new TFile("Archive/Plan.md") as never,
+      "Projects/Plan.md"
+    );
+
+    expect(index.getTasks()).toEqual([]);
+    expect(changes.map((change) => change.type)).toEqual(["file-removed"]);
+  });
+
+  it("keeps the latest of two updates that finish out of order", async () => {
+    const { app, index } = await createIndex({
+      "Projects/Plan.md": "- [ ] Write plan 🆔 abc123",
+    });
+    const file = new TFile("Projects/Plan.md") as never;
+    let finishFirstRead: (content: string) => void = () => {};
+    const cachedRead = jest
+      .spyOn(app.vault, "cachedRead")
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (finishFirstRead = resolve))
+      );
+
+    const first = index.updateFile(file);
+    await index.updateFile(file, "- [x] Write plan 🆔 abc123");
+    finishFirstRead("- [ ] Write plan 🆔 abc123");
+    await first;
+    cachedRead.mockRestore();
+
+    expect(index.getTask("abc123")?.status).toBe("done");
+  });
+
+  it("keeps the files updated during a rebuild", async () => {
+    const { app, index } = await createIndex({
+      "Projects/Plan.md": "- [ ] Write plan 🆔 abc123",
+    });
+    let finishRead: (content: string) => void = () => {};
+    const cachedRead = jest
+      .spyOn(app.vault, "cachedRead")
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (finishRead = resolve))
+      );
+
+    const rebuild = index.rebuild();
+    await index.updateFile(
+      new TFile("Projects/Plan.md") as never,
+      "- [x] Write plan 🆔 abc123"
+    );
+    finishRead("- [ ] Write plan 🆔 abc123");
+    await rebuild;
+    cachedRead.mockRestore();
+
+    expect(index.getTask("abc123")?.status).toBe("done");
+  });
+});
@@ -0,0 +1,53 @@
+import { makeTask } from "./task-fixture";
+import { fuzzyScore, searchTasks } from "../src/lib/task-search";
+
+describe("fuzzyScore", () => {
+  it("matches letters in order, ignoring case", () => {
+    expect(fuzzyScore("Write report", "wrt")).not.toBeNull();
+    expect(fuzzyScore("Write report", "REPORT")).not.toBeNull();
+    expect(fuzzyScore("Write report", "trw")).toBeNull();
+  });
+
+  it("ranks substrings and word starts above scattered letters", () => {
+    const substring = fuzzyScore("Write report", "rep") as number;
+    const scattered = fuzzyScore("Write report", "wtp") as number;
+    expect(substring).toBeGreaterThan(scattered);
+  });
+});
+
+describe("searchTasks", () => {
+  const tasks = [
+    makeTask({ id: "a", summary: "Write quarterly report", tags: ["work"] }),
+    makeTask({ id: "b", summary: "Buy groceries", link: "Home/Shopping.md" }),
+    makeTask({ id: "c", summary: "Review report draft", tags: ["review"] }),
+    makeTask({ id: "d", text: "Plan the trip", tags: ["holiday"] }),
+  ];
+  const ids = (query: string) =>
+    searchTasks(tasks, query).map((match) => match.task.id);
+
+  it("finds tasks by summary, tags and path", () => {
+    expect(ids("report")).toEqual(["c", "a"]);
+    expect(ids("#holiday")).toEqual(["d"]);
+    expect(ids("shopping")).toEqual(["b"]);
+  });
+
+  it("falls back to the task text", () => {
+    expect(ids("trip")).toEqual(["d"]);
+  });
+
+  it("requires every word to match", () => {
+    expect(ids("report work")).toEqual(["a"]);
+    expect(ids("report holiday")).toEqual([]);
+  });
+
+  it("reports the field that matched", () => {
+    expect(searchTasks(tasks, "groceries")[0].field).toBe("summary");
+    expect(searchTasks(tasks, "#work")[0].field).toBe("tags");
+    expect(searchTasks(tasks, "home/")[0].field).toBe("path");
+  });
+
+  it("returns nothing for an empty query and respects the limit", () => {
+    expect(searchTasks(tasks, "  ")).toEqual([]);
+    expect(searchTasks(tasks, "r", 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  globToRegExp,
+  isTaskSourcePath,
+  parseTasksFromContent,
+  TaskSourceSettings,
+} from "../src/lib/task-sources";
+
+const NO_RULES: TaskSourceSettings = {
+  includeFolders: [],
+  excludeFolders: [],
+  includePatterns: [],
+  excludePatterns: [],
+};
+
+describe("Task Sources", () => {
+  describe("globToRegExp", () => {
+    it("should match a single path segment with *", () => {
+      const regex = globToRegExp("Projects/*.md");
+      expect(regex.test("Projects/Alpha.md")).toBe(true);
+      expect(regex.test("Projects/Sub/Alpha.md")).toBe(false);
+    });
+
+    it("should match any number of folders with **/", () => {
+      const regex = globToRegExp("**/*.tasks.md");
+      expect(regex.test("Home.tasks.md")).toBe(true);
+      expect(regex.test("A/B/C/Work.tasks.md")).toBe(true);
+      expect(regex.test("A/B/Work.md")).toBe(false);
+    });
+
+    it("should match everything below a folder with a trailing **", () => {
+      const regex = globToRegExp("Archive/**");
+      expect(regex.test("Archive/2023/Old.md")).toBe(true);
+      expect(regex.test("Archived/Old.md")).toBe(false);
+    });
+
+    it("should escape regex characters", () => {
+      const regex = globToRegExp("Notes (old)/?.md");
+      expect(regex.test("Notes (old)/a.md")).toBe(true);
+      expect(regex.test("Notes old/a.md")).toBe(false);
+    });
+  });
+
+  describe("isTaskSourcePath", () => {
+    it("should include the whole vault without include rules", () => {
+      expect(isTaskSourcePath("Any/Where.md", NO_RULES)).toBe(true);
+    });
+
+    it("should only include configured folders", () => {
+      const settings = {
+        ...NO_RULES,
+        includeFolders: ["Projects/", "/Areas/Tasks"],
+      };
+      expect(isTaskSourcePath("Projects/Alpha.md", settings)).toBe(true);
+      expect(isTaskSourcePath("Areas/Tasks/Sub/Beta.md", settings)).toBe(true);
+      expect(isTaskSourcePath("ProjectsOld/Alpha.md", settings)).toBe(false);
+      expect(isTaskSourcePath("Inbox.md", settings)).toBe(false);
+    });
+
+    it("should include files matching an include pattern outside the folders", () => {
+      const settings = {
+        ...NO_RULES,
+        includeFolders: ["Projects"],
+        includePatterns: ["**/*.tasks.md"],
+      };
+      expect(isTaskSourcePath("Journal/Week.tasks.md", settings)).toBe(true);
+      expect(isTaskSourcePath("Journal/Week.md", settings)).toBe(false);
+    });
+
+    it("should let exclude rules win over include rules", () => {
+      const settings = {
+        ...NO_RULES,
+        includeFolders: ["Projects"],
+        excludeFolders: ["Projects/Archive"],
+        excludePatterns: ["**/_drafts/**"],
+      };
+      expect(isTaskSourcePath("Projects/Alpha.md", settings)).toBe(true);
+      expect(isTaskSourcePath("Projects/Archive/Old.md", settings)).toBe(false);
+      expect(isTaskSourcePath("Projects/_drafts/New.md", settings)).toBe(false);
+    });
+  });
+
+  describe("parseTasksFromContent", () => {
+    it("should parse task lines with path:line IDs", () => {
+      const content = `# Tasks
+- [ ] First task #work
+Some text
+  - [x] Nested done task
+- not a task`;
+
+      const tasks = parseTasksFromContent(
+        content,
+        "Projects/Alpha.md",
+        "Alpha"
+      );
+
+      expect(tasks).toHaveLength(2);
+      expect(tasks[0].id).toBe("Projects/Alpha.md:1");
+      expect(tasks[0].line).toBe(1);
+      expect(tasks[0].tags).toEqual(["work"]);
+      expect(tasks[0].project).toBe("Alpha");
+      expect(tasks[1].id).toBe("Projects/Alpha.md:3");
+      expect(tasks[1].status).toBe("done");
+    });
+  });
+});
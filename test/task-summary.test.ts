@@ -0,0 +1,99 @@
+import { App } from "./mocks/obsidian";
+import { makeTask } from "./task-fixture";
+import {
+  replaceTaskSummaryInLine,
+  updateTaskSummaryInContent,
+  updateTaskSummaryInVault,
+} from "../src/lib/task-summary";
+
+const task = makeTask({
+  id: "abc123",
+  summary: "Call Bob",
+  text: "Call Bob #work ⏫ 📅 2024-05-01 🆔 abc123 ⛔ def456",
+  tags: ["work"],
+  priority: "⏫",
+  incomingLinks: ["def456"],
+});
+
+describe("replaceTaskSummaryInLine", () => {
+  it("keeps tags, priority, dates, ID and dependencies", () => {
+    expect(
+      replaceTaskSummaryInLine(
+        "- [ ] Call Bob #work ⏫ 📅 2024-05-01 🆔 abc123 ⛔ def456",
+        "Call Bob",
+        "Call Alice"
+      )
+    ).toBe("- [ ] Call Alice #work ⏫ 📅 2024-05-01 🆔 abc123 ⛔ def456");
+  });
+
+  it("keeps metadata before and between the words of the summary", () => {
+    expect(
+      replaceTaskSummaryInLine(
+        "  - [/] ⭐ Call #work Bob [[id:: abc123]]",
+        "Call Bob",
+        "Email Bob"
+      )
+    ).toBe("  - [/] ⭐ Email Bob #work [[id:: abc123]]");
+  });
+
+  it("only matches whole words", () => {
+    expect(
+      replaceTaskSummaryInLine("- [ ] Fix #fix fix", "Fix fix", "Done")
+    ).toBe("- [ ] Done #fix");
+    expect(replaceTaskSummaryInLine("- [ ] Fixed 🆔 x", "Fix", "Done")).toBe(
+      null
+    );
+  });
+});
+
+describe("updateTaskSummaryInContent", () => {
+  it("rewrites the line of the task found by its ID", () => {
+    const content = [
+      "# Tasks",
+      "- [ ] Call Bob 🆔 zzz999",
+      "- [ ] Call Bob #work ⏫ 📅 2024-05-01 🆔 abc123 ⛔ def456",
+    ].join("\n");
+    expect(updateTaskSummaryInContent(content, task, "Call Carol")).toBe(
+      [
+        "# Tasks",
+        "- [ ] Call Bob 🆔 zzz999",
+        "- [ ] Call Carol #work ⏫ 📅 2024-05-01 🆔 abc123 ⛔ def456",
+      ].join("\n")
+    );
+  });
+
+  it("returns null when the task is gone", () => {
+    expect(
+      updateTaskSummaryInContent("- [ ] Other", task, "Call Carol")
+    ).toBeNull();
+  });
+});
+
+describe("updateTaskSummaryInVault", () => {
+  it("writes the new summary to the task file", async () => {
+    const app = new App();
+    app.vault.setFileContent(
+      "Tasks.md",
+      "- [ ] Call Bob #work ⏫ 📅 2024-05-01 🆔 abc123 ⛔ def456"
+    );
+
+    expect(
+      await updateTaskSummaryInVault(task, "Call Dave", app as never)
+    ).toBe(true);
+    expect(app.vault.getFileContent("Tasks.md")).toBe(
+      "- [ ] Call Dave #work ⏫ 📅 2024-05-01 🆔 abc123 ⛔ def456"
+    );
+  });
+
+  it("leaves the file alone when the summary isn't found", async () => {
+    const app = new App();
+    app.vault.setFileContent("Tasks.md", "- [ ] Phone Bob 🆔 abc123");
+
+    expect(
+      await updateTaskSummaryInVault(task, "Call Dave", app as never)
+    ).toBe(false);
+    expect(app.vault.getFileContent("Tasks.md")).toBe(
+      "- [ ] Phone Bob 🆔 abc123"
+    );
+  });
+});
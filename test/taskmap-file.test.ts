@@ -0,0 +1,118 @@
+import {
+  mergeGraphData,
+  parseTaskMapFile,
+  serializeTaskMapFile,
+} from "../src/lib/taskmap-file";
+import { DEFAULT_GRAPH_DATA, GraphData } from "../src/types/settings";
+
+const node = (id: string, x: number) => ({
+  id,
+  taskId: id,
+  position: { x, y: 0 },
+});
+
+const edge = (source: string, target: string) => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+});
+
+function makeGraph(overrides: Partial<GraphData>): GraphData {
+  return { ...DEFAULT_GRAPH_DATA, ...overrides };
+}
+
+describe("Map Files", () => {
+  describe("parseTaskMapFile", () => {
+    it("round-trips graph data", () => {
+      const data = makeGraph({
+        nodes: [node("a", 10)],
+        edges: [edge("a", "b")],
+        viewMode: "timeline",
+      });
+
+      expect(parseTaskMapFile(serializeTaskMapFile(data))).toEqual(data);
+    });
+
+    it("reads empty files as empty maps", () => {
+      expect(parseTaskMapFile("  \n")).toEqual(DEFAULT_GRAPH_DATA);
+    });
+
+    it("fills in missing fields", () => {
+      const data = parseTaskMapFile('{"nodes": [], "viewMode": "graph"}');
+
+      expect(data?.edges).toEqual([]);
+      expect(data?.viewport).toEqual(DEFAULT_GRAPH_DATA.viewport);
+    });
+
+    it("rejects content that is not a map", () => {
+      expect(parseTaskMapFile('{"nodes": [')).toBeNull();
+      expect(parseTaskMapFile("[1, 2]")).toBeNull();
+    });
+  });
+
+  describe("mergeGraphData", () => {
+    const base = makeGraph({
+      nodes: [node("a", 0), node("b", 0), node("c", 0)],
+      edges: [edge("a", "b")],
+    });
+
+    it("keeps changes from both sides", () => {
+      const local = makeGraph({
+        nodes: [node("a", 50), node("b", 0), node("c", 0), node("d", 0)],
+        edges: [edge("a", "b")],
+      });
+      const remote = makeGraph({
+        nodes: [node("a", 0), node("b", 70), node("c", 0), node("e", 0)],
+        edges: [edge("a", "b"), edge("b", "c")],
+      });
+      const merged = mergeGraphData(base, local, remote);
+
+      expect(merged.nodes).toEqual([
+        node("a", 50),
+        node("b", 70),
+        node("c", 0),
+        node("d", 0),
+        node("e", 0),
+      ]);
+      expect(merged.edges).toEqual([edge("a", "b"), edge("b", "c")]);
+    });
+
+    it("applies deletions from either side", () => {
+      const local = makeGraph({
+        nodes: [node("a", 0), node("b", 0)],
+        edges: [edge("a", "b")],
+      });
+      const remote = makeGraph({
+        nodes: [node("b", 0), node("c", 0)],
+        edges: [],
+      });
+      const merged = mergeGraphData(base, local, remote);
+
+      expect(merged.nodes.map((n) => n.id)).toEqual(["b"]);
+      expect(merged.edges).toEqual([]);
+    });
+
+    it("prefers local edits when both sides changed a node", () => {
+      const local = makeGraph({ ...base, nodes: [node("a", 1)] });
+      const remote = makeGraph({ ...base, nodes: [node("a", 2)] });
+
+      expect(mergeGraphData(base, local, remote).nodes).toEqual([node("a", 1)]);
+    });
+
+    it("takes remote settings unless they changed locally", () => {
+      const local = makeGraph({ ...base, viewport: { x: 5, y: 5, zoom: 2 } });
+      const remote = makeGraph({
+        ...base,
+        viewMode: "timeline",
+        filterPresets: [{ name: "Open", query: "status:todo" }],
+      });
+      const merged = mergeGraphData(base, local, remote);
+
+      expect(merged.viewport).toEqual({ x: 5, y: 5, zoom: 2 });
+      expect(merged.viewMode).toBe("timeline");
+      expect(merged.filterPresets).toEqual([
+        { name: "Open", query: "status:todo" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { App } from "./mocks/obsidian";
+import { Task } from "../src/types/task";
+import { makeTask } from "./task-fixture";
+import {
+  computeTimelineLayout,
+  getDateAtPosition,
+  getTimelineSpan,
+} from "../src/lib/timeline-layout";
+import { shiftTaskDatesInVault } from "../src/lib/utils";
+
+const options = {
+  dayWidth: 10,
+  nodeWidth: 50,
+  rowHeight: 100,
+  gap: 10,
+  today: "2024-01-01", // A Monday
+};
+
+describe("Timeline Layout", () => {
+  describe("getTimelineSpan", () => {
+    it("spans from the start to the due date", () => {
+      expect(
+        getTimelineSpan({ startDate: "2024-01-02", dueDate: "2024-01-05" })
+      ).toEqual({ start: "2024-01-02", end: "2024-01-05" });
+    });
+
+    it("falls back to the scheduled date", () => {
+      expect(getTimelineSpan({ scheduledDate: "2024-01-03" })).toEqual({
+        start: "2024-01-03",
+        end: "2024-01-03",
+      });
+    });
+
+    it("returns null for undated tasks", () => {
+      expect(getTimelineSpan({})).toBeNull();
+    });
+  });
+
+  describe("computeTimelineLayout", () => {
+    it("places tasks by date and packs overlapping ones into rows", () => {
+      const layout = computeTimelineLayout(
+        [
+          makeTask({ id: "a", dueDate: "2024-01-01" }),
+          makeTask({ id: "b", dueDate: "2024-01-03" }),
+          makeTask({ id: "c", dueDate: "2024-01-15" }),
+        ],
+        options
+      );
+
+      expect(layout.origin).toBe("2024-01-01");
+      expect(layout.positions.get("a")).toEqual({ x: 0, y: 0 });
+      // Overlaps with "a" (node width 50 = 5 days), goes to the next row
+      expect(layout.positions.get("b")).toEqual({ x: 20, y: 100 });
+      // Far enough right to share the first row
+      expect(layout.positions.get("c")).toEqual({ x: 140, y: 0 });
+    });
+
+    it("puts undated tasks in a separate lane below", () => {
+      const layout = computeTimelineLayout(
+        [
+          makeTask({ id: "a", dueDate: "2024-01-01" }),
+          makeTask({ id: "x" }),
+          makeTask({ id: "y" }),
+        ],
+        options
+      );
+
+      expect(layout.undatedIds).toEqual(["x", "y"]);
+      expect(layout.undatedLaneY).toBe(200);
+      expect(layout.positions.get("y")).toEqual({ x: 60, y: 200 });
+    });
+
+    it("starts the axis on a Monday", () => {
+      const layout = computeTimelineLayout(
+        [makeTask({ id: "a", startDate: "2023-12-28" })],
+        options
+      );
+
+      expect(layout.origin).toBe("2023-12-25");
+      expect(layout.positions.get("a")?.x).toBe(30);
+    });
+  });
+
+  describe("getDateAtPosition", () => {
+    it("snaps positions to days", () => {
+      expect(getDateAtPosition(34, "2024-01-01", 10)).toBe("2024-01-04");
+      expect(getDateAtPosition(-12, "2024-01-01", 10)).toBe("2023-12-31");
+    });
+  });
+
+  describe("shiftTaskDatesInVault", () => {
+    it("moves start, scheduled and due dates of a line task", async () => {
+      const app = new App();
+      app.vault.setFileContent(
+        "Tasks.md",
+        "- [ ] Draft 🛫 2024-01-01 📅 2024-01-05 ➕ 2023-12-20 🆔 abc123"
+      );
+      const task = makeTask({
+        id: "abc123",
+        text: "Draft 🛫 2024-01-01 📅 2024-01-05 ➕ 2023-12-20 🆔 abc123",
+        line: 0,
+      });
+
+      await shiftTaskDatesInVault(
+        task,
+        3,
+        app as unknown as Parameters<typeof shiftTaskDatesInVault>[2]
+      );
+
+      expect(app.vault.getFileContent("Tasks.md")).toBe(
+        "- [ ] Draft 🛫 2024-01-04 📅 2024-01-08 ➕ 2023-12-20 🆔 abc123"
+      );
+    });
+
+    it("moves frontmatter dates of a note task", async () => {
+      const app = new App();
+      app.vault.setFileContent(
+        "Notes/Task.md",
+        "---\ntags: [task]\ndue: 2024-02-28\nscheduled: 2024-02-20\n---\nBody"
+      );
+      const task = makeTask({
+        id: "Notes/Task.md",
+        type: "note",
+        text: "Task",
+        link: "Notes/Task.md",
+      });
+
+      await shiftTaskDatesInVault(
+        task,
+        2,
+        app as unknown as Parameters<typeof shiftTaskDatesInVault>[2]
+      );
+
+      expect(app.vault.getFileContent("Notes/Task.md")).toBe(
+        "---\ntags: [task]\ndue: 2024-03-01\nscheduled: 2024-02-22\n---\nBody"
+      );
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { App } from "./mocks/obsidian";
+import { Task } from "../src/types/task";
+import { makeTask } from "./task-fixture";
+import { updateTaskStatusInVault, addTagToTaskInVault } from "../src/lib/utils";
+import { updateTaskSummaryInVault } from "../src/lib/task-summary";
+import {
+  applyFileChange,
+  applyFileChanges,
+  applyFileRenames,
+  createRecordingApp,
+  diffFileContent,
+  FileChange,
+  FileRename,
+  HistoryEntry,
+  UndoHistory,
+} from "../src/lib/undo-history";
+
+const task = makeTask({
+  id: "abc123",
+  summary: "Write report",
+  text: "Write report 🆔 abc123",
+});
+
+function entry(label: string, files: FileChange[] = []): HistoryEntry {
+  return { label, files, undoCanvas: () => {}, redoCanvas: () => {} };
+}
+
+describe("diffFileContent", () => {
+  it("keeps only the changed lines", () => {
+    expect(diffFileContent("a.md", "one\ntwo\nthree", "one\n2\nthree")).toEqual(
+      { path: "a.md", start: 1, before: ["two"], after: ["2"] }
+    );
+  });
+
+  it("records inserted lines", () => {
+    expect(diffFileContent("a.md", "one\nthree", "one\ntwo\nthree")).toEqual({
+      path: "a.md",
+      start: 1,
+      before: [],
+      after: ["two"],
+    });
+  });
+
+  it("returns null for unchanged content", () => {
+    expect(diffFileContent("a.md", "same", "same")).toBeNull();
+  });
+});
+
+describe("applyFileChange", () => {
+  const change = diffFileContent(
+    "a.md",
+    "- [ ] Task\n- [ ] Other",
+    "- [x] Task\n- [ ] Other"
+  ) as FileChange;
+
+  it("undoes and redoes the change", () => {
+    const undone = applyFileChange("- [x] Task\n- [ ] Other", change, "undo");
+    expect(undone).toBe("- [ ] Task\n- [ ] Other");
+    expect(applyFileChange(undone as string, change, "redo")).toBe(
+      "- [x] Task\n- [ ] Other"
+    );
+  });
+
+  it("keeps edits elsewhere in the file", () => {
+    expect(
+      applyFileChange(
+        "# Title\n- [x] Task\n- [ ] Other\n- [ ] New",
+        change,
+        "undo"
+      )
+    ).toBe("# Title\n- [ ] Task\n- [ ] Other\n- [ ] New");
+  });
+
+  it("refuses when the changed lines were edited since", () => {
+    expect(
+      applyFileChange("- [/] Task\n- [ ] Other", change, "undo")
+    ).toBeNull();
+  });
+
+  it("refuses when the lines are ambiguous", () => {
+    expect(
+      applyFileChange("# Title\n- [x] Task\n- [x] Task", change, "undo")
+    ).toBeNull();
+  });
+});
+
+describe("recording vault edits", () => {
+  it("restores the previous checkbox of a status toggle", async () => {
+    const app = new App();
+    app.vault.setFileContent(
+      "Tasks.md",
+      "# Tasks\n- [ ] Write report 🆔 abc123"
+    );
+    const changes: FileChange[] = [];
+
+    await updateTaskStatusInVault(
+      task,
+      "done",
+      createRecordingApp(app as never, changes)
+    );
+    expect(changes).toHaveLength(1);
+    expect(app.vault.getFileContent("Tasks.md")).toContain(
+      "- [x] Write report"
+    );
+
+    expect(await applyFileChanges(app.vault as never, changes, "undo")).toBe(
+      true
+    );
+    expect(app.vault.getFileContent("Tasks.md")).toBe(
+      "# Tasks\n- [ ] Write report 🆔 abc123"
+    );
+
+    expect(await applyFileChanges(app.vault as never, changes, "redo")).toBe(
+      true
+    );
+    expect(app.vault.getFileContent("Tasks.md")).toContain(
+      "- [x] Write report"
+    );
+  });
+
+  it("undoes several edits of a file in reverse order", async () => {
+    const app = new App();
+    app.vault.setFileContent("Tasks.md", "- [ ] Write report 🆔 abc123");
+    const changes: FileChange[] = [];
+    const recordingApp = createRecordingApp(app as never, changes);
+
+    await addTagToTaskInVault(task, "work", recordingApp);
+    await updateTaskStatusInVault(
+      { ...task, text: "Write report 🆔 abc123 #work" },
+      "in_progress",
+      recordingApp
+    );
+    expect(changes).toHaveLength(2);
+
+    await applyFileChanges(app.vault as never, changes, "undo");
+    expect(app.vault.getFileContent("Tasks.md")).toBe(
+      "- [ ] Write report 🆔 abc123"
+    );
+  });
+
+  it("leaves a file alone if its lines changed since", async () => {
+    const app = new App();
+    app.vault.setFileContent("Tasks.md", "- [ ] Write report 🆔 abc123");
+    const changes: FileChange[] = [];
+    await updateTaskStatusInVault(
+      task,
+      "done",
+      createRecordingApp(app as never, changes)
+    );
+    app.vault.setFileContent("Tasks.md", "- [-] Write report 🆔 abc123");
+
+    expect(await applyFileChanges(app.vault as never, changes, "undo")).toBe(
+      false
+    );
+    expect(app.vault.getFileContent("Tasks.md")).toBe(
+      "- [-] Write report 🆔 abc123"
+    );
+  });
+
+  it("leaves every file alone if one of them changed since", async () => {
+    const app = new App();
+    app.vault.setFileContent("Tasks.md", "- [ ] Write report 🆔 abc123");
+    app.vault.setFileContent("Other.md", "- [ ] Send report 🆔 def456");
+    const changes: FileChange[] = [];
+    const recordingApp = createRecordingApp(app as never, changes);
+    await updateTaskStatusInVault(task, "done", recordingApp);
+    await updateTaskStatusInVault(
+      makeTask({
+        id: "def456",
+        text: "Send report 🆔 def456",
+        link: "Other.md",
+      }),
+      "done",
+      recordingApp
+    );
+    app.vault.setFileContent("Other.md", "- [-] Send report 🆔 def456");
+
+    expect(await applyFileChanges(app.vault as never, changes, "undo")).toBe(
+      false
+    );
+    expect(app.vault.getFileContent("Tasks.md")).toContain(
+      "- [x] Write report"
+    );
+  });
+
+  it("renames a note task back to its old summary", async () => {
+    const app = new App();
+    app.vault.setFileContent("Tasks/Plan.md", "---\ntags: task\n---\n");
+    const changes: FileChange[] = [];
+    const renames: FileRename[] = [];
+    const note = makeTask({
+      id: "Tasks/Plan.md",
+      type: "note",
+      summary: "Plan",
+      link: "Tasks/Plan.md",
+    });
+
+    await updateTaskSummaryInVault(
+      note,
+      "Plan trip",
+      createRecordingApp(app as never, changes, renames)
+    );
+    expect(renames).toEqual([
+      { from: "Tasks/Plan.md", to: "Tasks/Plan trip.md" },
+    ]);
+
+    expect(await applyFileRenames(app as never, renames, "undo")).toBe(true);
+    expect(app.vault.getFileByPath("Tasks/Plan.md")).not.toBeNull();
+    expect(app.vault.getFileByPath("Tasks/Plan trip.md")).toBeNull();
+
+    expect(await applyFileRenames(app as never, renames, "redo")).toBe(true);
+    expect(app.vault.getFileByPath("Tasks/Plan trip.md")).not.toBeNull();
+  });
+
+  it("leaves a renamed note alone if its old path is taken", async () => {
+    const app = new App();
+    app.vault.setFileContent("Tasks/Plan trip.md", "");
+    app.vault.setFileContent("Tasks/Plan.md", "");
+    const renames = [{ from: "Tasks/Plan.md", to: "Tasks/Plan trip.md" }];
+
+    expect(await applyFileRenames(app as never, renames, "undo")).toBe(false);
+    expect(app.vault.getFileByPath("Tasks/Plan trip.md")).not.toBeNull();
+  });
+});
+
+describe("UndoHistory", () => {
+  const apply = async () => true;
+
+  it("undoes and redoes entries in order", async () => {
+    const history = new UndoHistory();
+    history.push(entry("first"));
+    history.push(entry("second"));
+
+    expect((await history.undo(apply))?.entry.label).toBe("second");
+    expect((await history.undo(apply))?.entry.label).toBe("first");
+    expect(await history.undo(apply)).toBeUndefined();
+    expect((await history.redo(apply))?.entry.label).toBe("first");
+    expect(history.canUndo()).toBe(true);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it("clears the redo stack on a new entry", async () => {
+    const history = new UndoHistory();
+    history.push(entry("first"));
+    await history.undo(apply);
+    history.push(entry("second"));
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it("drops entries that fail to apply", async () => {
+    const history = new UndoHistory();
+    history.push(entry("first"));
+    const result = await history.undo(async () => false);
+    expect(result?.applied).toBe(false);
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it("ignores entries without changes and keeps to its limit", async () => {
+    const history = new UndoHistory(2);
+    history.push({ label: "nothing", files: [] });
+    expect(history.canUndo()).toBe(false);
+    history.push({
+      label: "rename",
+      files: [],
+      renames: [{ from: "a.md", to: "b.md" }],
+    });
+    expect(history.canUndo()).toBe(true);
+
+    history.push(entry("a"));
+    history.push(entry("b"));
+    history.push(entry("c"));
+    expect((await history.undo(apply))?.entry.label).toBe("c");
+    expect((await history.undo(apply))?.entry.label).toBe("b");
+    expect(await history.undo(apply)).toBeUndefined();
+  });
+
+  it("runs one undo or redo at a time", async () => {
+    const history = new UndoHistory();
+    history.push(entry("first"));
+    history.push(entry("second"));
+    const pending = history.undo(apply);
+    expect(await history.undo(apply)).toBeUndefined();
+    await pending;
+    expect((await history.undo(apply))?.entry.label).toBe("first");
+  });
+});